@@ -0,0 +1,257 @@
+// app/admin/roster/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, Plus, Save, Trash2 } from "lucide-react";
+import { AGENT_ROLES, type AgentRole, type RosterAgent } from "@/app/lib/agent-roster";
+import { authFetch } from "@/app/lib/auth-client";
+import { useSession } from "@/app/components/auth-gate";
+
+// Form row; WhatsApp IDs are edited as one comma-separated string
+type AgentRow = Omit<RosterAgent, "whatsappIds"> & { whatsappIds: string };
+
+const toRow = (agent: RosterAgent): AgentRow => ({
+  ...agent,
+  whatsappIds: agent.whatsappIds.join(", "),
+});
+
+const toAgent = (row: AgentRow): RosterAgent => ({
+  ...row,
+  whatsappIds: row.whatsappIds.split(",").map((id) => id.trim()).filter(Boolean),
+});
+
+const inputClass =
+  "w-full border rounded p-2 text-sm bg-white text-gray-900 dark:bg-gray-800 dark:text-gray-100 focus:ring-2 focus:ring-blue-500";
+
+export default function RosterAdminPage() {
+  const session = useSession();
+  const [rows, setRows] = useState<AgentRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+
+  useEffect(() => {
+    fetchRoster();
+  }, []);
+
+  async function fetchRoster() {
+    setLoading(true);
+    try {
+      const res = await authFetch("/api/roster");
+      if (!res.ok) throw new Error(`API ${res.status}`);
+      const data = await res.json();
+      setRows(data.roster.agents.map(toRow));
+    } catch (error) {
+      console.error("Error fetching agent roster:", error);
+      setProblems(["Could not load the roster"]);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function saveRoster() {
+    setSaving(true);
+    setProblems([]);
+    try {
+      const res = await authFetch("/api/roster", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ agents: rows.map(toAgent) }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setProblems(Array.isArray(data.details) ? data.details : [data.details || data.error]);
+        return;
+      }
+      setRows(data.roster.agents.map(toRow));
+      setSavedAt(new Date());
+    } catch (error) {
+      console.error("Error saving agent roster:", error);
+      setProblems([error instanceof Error ? error.message : String(error)]);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const updateRow = (index: number, changes: Partial<AgentRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    setSavedAt(null);
+  };
+
+  const addRow = () => {
+    setRows((prev) => [
+      ...prev,
+      { id: `agent-${Date.now()}`, name: "", whatsappIds: "", role: "agent" },
+    ]);
+  };
+
+  if (session?.role !== "admin") {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 text-gray-600 dark:text-gray-400">
+        <p>Only admins can edit the agent roster.</p>
+        <Link href="/" className="text-blue-600 dark:text-blue-400 hover:underline">
+          Back to the dashboard
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-8 sm:p-20 font-inter">
+      <main className="mx-auto max-w-7xl space-y-8">
+        <header className="flex flex-col sm:flex-row justify-between items-center gap-4">
+          <div>
+            <Link
+              href="/"
+              className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 mb-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">
+              Agent Roster
+            </h1>
+          </div>
+          <p className="text-gray-600 dark:text-gray-400 text-sm max-w-md">
+            WhatsApp IDs are matched against message senders and emails against chat
+            assignments. Every agent filter and breakdown on the dashboard uses this list.
+          </p>
+        </header>
+
+        {problems.length > 0 && (
+          <div className="rounded-lg border border-red-300 bg-red-50 p-4 text-sm text-red-700 dark:border-red-700 dark:bg-red-900/20 dark:text-red-300">
+            <ul className="list-disc pl-5">
+              {problems.map((problem) => (
+                <li key={problem}>{problem}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border overflow-x-auto">
+          {loading ? (
+            <div className="p-6 animate-pulse space-y-4">
+              {Array.from({ length: 4 }).map((_, i) => (
+                <div key={i} className="h-10 bg-gray-200 dark:bg-gray-700 rounded" />
+              ))}
+            </div>
+          ) : (
+            <table className="w-full text-sm text-gray-700 dark:text-gray-300">
+              <thead>
+                <tr className="text-xs text-left text-gray-500 dark:text-gray-400">
+                  <th className="p-3 font-medium">Name</th>
+                  <th className="p-3 font-medium">WhatsApp IDs</th>
+                  <th className="p-3 font-medium">Email</th>
+                  <th className="p-3 font-medium">Team</th>
+                  <th className="p-3 font-medium">Role</th>
+                  <th className="p-3 font-medium">Active from</th>
+                  <th className="p-3 font-medium">Active until</th>
+                  <th className="p-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => (
+                  <tr key={row.id} className="border-t border-gray-100 dark:border-gray-700">
+                    <td className="p-2 min-w-[160px]">
+                      <input
+                        className={inputClass}
+                        value={row.name}
+                        onChange={(e) => updateRow(index, { name: e.target.value })}
+                      />
+                    </td>
+                    <td className="p-2 min-w-[220px]">
+                      <input
+                        className={`${inputClass} font-mono`}
+                        placeholder="918527014950@c.us"
+                        value={row.whatsappIds}
+                        onChange={(e) => updateRow(index, { whatsappIds: e.target.value })}
+                      />
+                    </td>
+                    <td className="p-2 min-w-[200px]">
+                      <input
+                        className={inputClass}
+                        type="email"
+                        value={row.email ?? ""}
+                        onChange={(e) => updateRow(index, { email: e.target.value })}
+                      />
+                    </td>
+                    <td className="p-2 min-w-[120px]">
+                      <input
+                        className={inputClass}
+                        value={row.team ?? ""}
+                        onChange={(e) => updateRow(index, { team: e.target.value })}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <select
+                        className={inputClass}
+                        value={row.role}
+                        onChange={(e) => updateRow(index, { role: e.target.value as AgentRole })}
+                      >
+                        {AGENT_ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {role}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="p-2">
+                      <input
+                        className={inputClass}
+                        type="date"
+                        value={row.activeFrom ?? ""}
+                        onChange={(e) => updateRow(index, { activeFrom: e.target.value })}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <input
+                        className={inputClass}
+                        type="date"
+                        value={row.activeUntil ?? ""}
+                        onChange={(e) => updateRow(index, { activeUntil: e.target.value })}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <button
+                        onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                        className="p-2 text-gray-500 hover:text-red-600"
+                        aria-label={`Remove ${row.name || "agent"}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex items-center gap-4">
+          <button
+            onClick={addRow}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-800 rounded-lg text-sm font-medium hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200"
+          >
+            <Plus className="h-4 w-4" />
+            Add agent
+          </button>
+          <button
+            onClick={saveRoster}
+            disabled={saving || loading}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Save className="h-4 w-4" />
+            {saving ? "Saving..." : "Save roster"}
+          </button>
+          {savedAt && (
+            <span className="text-sm text-green-600 dark:text-green-400">
+              Saved {savedAt.toLocaleTimeString()}
+            </span>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+// app/api/accounts/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/app/lib/auth";
+import {
+  getDefaultAccount,
+  getPeriskopeAccounts,
+  toPublicAccount,
+} from "@/app/lib/periskope-accounts";
+
+// Configured Periskope accounts for the account switcher; API keys stay on
+// the server
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request);
+  if (session instanceof NextResponse) return session;
+
+  return NextResponse.json({
+    accounts: getPeriskopeAccounts().map(toPublicAccount),
+    defaultAccountId: getDefaultAccount().id,
+  });
+}
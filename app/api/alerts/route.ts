@@ -0,0 +1,98 @@
+// app/api/alerts/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEFAULT_ALERT_CONFIG,
+  checkAlertInput,
+  validateAlertConfig,
+  type AlertConfig,
+  type AlertWebhook,
+} from "@/app/lib/alert-rules";
+import { getAlertConfig, getAlertState, saveAlertConfig } from "@/app/lib/alert-settings";
+import { requireSession } from "@/app/lib/auth";
+
+// Webhook secrets never leave the server; `hasSecret` says whether one is set
+function publicConfig(config: AlertConfig) {
+  return {
+    ...config,
+    webhooks: config.webhooks.map(({ url, secret }) => ({ url, hasSecret: !!secret })),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request, ["admin"]);
+  if (session instanceof NextResponse) return session;
+
+  const config = await getAlertConfig();
+  try {
+    const state = await getAlertState();
+    return NextResponse.json({ config: publicConfig(config), state });
+  } catch (error) {
+    console.error("[alerts] failed to load state:", error);
+    return NextResponse.json({ config: publicConfig(config), state: null });
+  }
+}
+
+// Replace the alert config. A webhook sent without `secret` keeps the secret
+// already saved for the same URL.
+export async function PUT(request: NextRequest) {
+  const session = await requireSession(request, ["admin"]);
+  if (session instanceof NextResponse) return session;
+
+  let body: Partial<AlertConfig>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const inputProblems = checkAlertInput(body);
+  if (inputProblems.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid alert config", details: inputProblems },
+      { status: 400 }
+    );
+  }
+
+  const saved = await getAlertConfig();
+  const config: AlertConfig = {
+    enabled: body.enabled === true,
+    account: body.account?.trim() || undefined,
+    chatTypes: body.chatTypes ?? DEFAULT_ALERT_CONFIG.chatTypes,
+    tierIds: (body.tierIds ?? []).map((id) => id.trim()).filter(Boolean),
+    overdueCountThreshold:
+      body.overdueCountThreshold === null || body.overdueCountThreshold === undefined
+        ? null
+        : Number(body.overdueCountThreshold),
+    renotifyHours: Number(body.renotifyHours ?? 0),
+    webhooks: (body.webhooks ?? []).map((webhook): AlertWebhook => {
+      const url = webhook.url?.trim() ?? "";
+      const secret =
+        webhook.secret?.trim() || saved.webhooks.find((w) => w.url === url)?.secret;
+      return secret ? { url, secret } : { url };
+    }),
+    emailTo: (body.emailTo ?? []).map((email) => email.trim()).filter(Boolean),
+    dashboardUrl: body.dashboardUrl?.trim() || undefined,
+  };
+  const problems = validateAlertConfig(config);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid alert config", details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await saveAlertConfig(config);
+    console.log(`[alerts] saved config (${config.enabled ? "enabled" : "disabled"})`);
+    return NextResponse.json({ config: publicConfig(config) });
+  } catch (error) {
+    console.error("[alerts] failed to save config:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to save alert config",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+// app/api/alerts/run/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { runSlaAlerts } from "@/app/lib/sla-alerts";
+import { requireSession } from "@/app/lib/auth";
+import { isCronRequest } from "@/app/lib/cron";
+
+// Schedulers authenticate with `Authorization: Bearer $CRON_SECRET`; admins
+// can also trigger a run from a signed-in session
+export async function POST(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    const session = await requireSession(request, ["admin"]);
+    if (session instanceof NextResponse) return session;
+  }
+
+  try {
+    const result = await runSlaAlerts();
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error("[alerts] run failed:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to run SLA alerts",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Vercel Cron and similar schedulers only issue GET requests
+export const GET = POST;
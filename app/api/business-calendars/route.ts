@@ -0,0 +1,73 @@
+// app/api/business-calendars/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  checkCalendarInput,
+  validateCalendarConfig,
+  type BusinessCalendarConfig,
+} from "@/app/lib/business-calendar";
+import {
+  getBusinessCalendarConfig,
+  saveBusinessCalendarConfig,
+} from "@/app/lib/business-calendar-settings";
+import { requireSession } from "@/app/lib/auth";
+
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request);
+  if (session instanceof NextResponse) return session;
+
+  const config = await getBusinessCalendarConfig();
+  return NextResponse.json({ config });
+}
+
+// Replace the whole calendar config (calendars, holiday lists, assignments)
+export async function PUT(request: NextRequest) {
+  const session = await requireSession(request, ["admin"]);
+  if (session instanceof NextResponse) return session;
+
+  let body: Partial<BusinessCalendarConfig>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const inputProblems = checkCalendarInput(body);
+  if (inputProblems.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid business calendar config", details: inputProblems },
+      { status: 400 }
+    );
+  }
+
+  const config: BusinessCalendarConfig = {
+    calendars: body.calendars ?? [],
+    holidayLists: body.holidayLists ?? [],
+    defaultCalendarId: body.defaultCalendarId ?? "",
+    assignments: {
+      orgPhones: body.assignments?.orgPhones ?? {},
+      teams: body.assignments?.teams ?? {},
+    },
+  };
+  const problems = validateCalendarConfig(config);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid business calendar config", details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await saveBusinessCalendarConfig(config);
+    console.log(`[business-calendars] saved ${config.calendars.length} calendar(s)`);
+    return NextResponse.json({ config });
+  } catch (error) {
+    console.error("[business-calendars] failed to save:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to save business calendars",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+// app/api/chat-analytics/export/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { parseChatFilters, type ChatFilters } from "@/app/lib/chat-filters";
+import { loadChatMetrics } from "@/app/lib/chat-metrics";
+import { CHAT_LISTS, chatListTable, type ChatList } from "@/app/lib/chat-lists";
+import { exportResponse, parseExportFormat } from "@/app/lib/export";
+import { getAgentRoster } from "@/app/lib/agent-roster-settings";
+import { formatZonedDate, resolveTimeZone } from "@/app/lib/timezone";
+import { narrowToScope, outOfScopeResponse, requireSession } from "@/app/lib/auth";
+import { resolvePeriskopeAccount } from "@/app/lib/periskope-accounts";
+
+// The open (list=open) or overdue (list=overdue) chats of /api/chat-analytics
+// as a CSV or XLSX download (`format`), narrowed by the Chats tab's `search`
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request);
+  if (session instanceof NextResponse) return session;
+
+  const params = request.nextUrl.searchParams;
+  const { filters: requestedFilters, errors } = parseChatFilters(params);
+  const list = (params.get("list") ?? "open") as ChatList;
+  if (!CHAT_LISTS.includes(list)) {
+    errors.push(`list must be one of ${CHAT_LISTS.join(", ")}`);
+  }
+  const format = parseExportFormat(params.get("format"));
+  if (!format) errors.push("format must be csv or xlsx");
+  if (errors.length > 0 || !format) {
+    return NextResponse.json(
+      { error: "Invalid export query", details: errors },
+      { status: 400 }
+    );
+  }
+  // Agents and leads only see chats assigned within their scope
+  const agents = narrowToScope(requestedFilters.agents, session.scope?.agentEmails);
+  if (!agents) return outOfScopeResponse();
+  const filters: ChatFilters = { ...requestedFilters, agents };
+  const account = resolvePeriskopeAccount(params.get("account"));
+  const timeZone = resolveTimeZone(params.get("tz") ?? account.timeZone);
+
+  try {
+    const metrics = await loadChatMetrics(filters, account, params.get("team") ?? undefined);
+    const { header, rows } = chatListTable(list, metrics, {
+      search: params.get("search") ?? "",
+      roster: await getAgentRoster(),
+      timeZone,
+    });
+    console.log(`[chat-export] ${list} chats: ${rows.length} row(s) as ${format}`);
+
+    return exportResponse(
+      format,
+      `${list}-chats-${formatZonedDate(new Date(), timeZone)}`,
+      header,
+      rows
+    );
+  } catch (error) {
+    console.error("[chat-export] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to export chats",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+// app/api/chat-analytics/labels/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { CHAT_TYPES, parseChatFilters, type ChatFilters } from "@/app/lib/chat-filters";
+import { fetchFilteredChats } from "@/app/lib/open-chats";
+import { listChatLabels } from "@/app/lib/chat-labels";
+import { getChatLabelConfig } from "@/app/lib/chat-label-settings";
+import { narrowToScope, outOfScopeResponse, requireSession } from "@/app/lib/auth";
+import { resolvePeriskopeAccount } from "@/app/lib/periskope-accounts";
+
+// Labels found on the account's chats (every chat type unless `chatType` is
+// given) or named in settings, with their names and how many chats carry them
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request);
+  if (session instanceof NextResponse) return session;
+
+  const params = request.nextUrl.searchParams;
+  const { filters: requestedFilters, errors } = parseChatFilters(params, CHAT_TYPES);
+  if (errors.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid chat filters", details: errors },
+      { status: 400 }
+    );
+  }
+  const agents = narrowToScope(requestedFilters.agents, session.scope?.agentEmails);
+  if (!agents) return outOfScopeResponse();
+  const filters: ChatFilters = { ...requestedFilters, agents };
+  const account = resolvePeriskopeAccount(params.get("account"));
+
+  try {
+    const chats = await fetchFilteredChats(filters, account.id);
+    const labels = listChatLabels(await getChatLabelConfig(), chats);
+    console.log(`[chat-analytics] ${labels.length} labels on ${chats.length} chats`);
+    return NextResponse.json({ labels, chats: chats.length });
+  } catch (error) {
+    console.error("[chat-analytics] failed to load labels:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load chat labels",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+// app/api/chat-analytics/properties/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { CHAT_TYPES, parseChatFilters, type ChatFilters } from "@/app/lib/chat-filters";
+import { fetchFilteredChats } from "@/app/lib/open-chats";
+import { discoverPropertyFacets } from "@/app/lib/custom-properties";
+import { narrowToScope, outOfScopeResponse, requireSession } from "@/app/lib/auth";
+import { resolvePeriskopeAccount } from "@/app/lib/periskope-accounts";
+
+// Custom property keys found on the account's chats (every chat type unless
+// `chatType` is given), each with its values and how many chats carry them.
+// Takes the other chat filters too, so choices can narrow each other.
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request);
+  if (session instanceof NextResponse) return session;
+
+  const params = request.nextUrl.searchParams;
+  const { filters: requestedFilters, errors } = parseChatFilters(params, CHAT_TYPES);
+  if (errors.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid chat filters", details: errors },
+      { status: 400 }
+    );
+  }
+  const agents = narrowToScope(requestedFilters.agents, session.scope?.agentEmails);
+  if (!agents) return outOfScopeResponse();
+  const filters: ChatFilters = { ...requestedFilters, agents };
+  const account = resolvePeriskopeAccount(params.get("account"));
+
+  try {
+    const chats = await fetchFilteredChats(filters, account.id);
+    const facets = discoverPropertyFacets(chats);
+    console.log(`[chat-analytics] ${facets.length} custom properties on ${chats.length} chats`);
+    return NextResponse.json({ facets, chats: chats.length });
+  } catch (error) {
+    console.error("[chat-analytics] failed to load custom properties:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load custom properties",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
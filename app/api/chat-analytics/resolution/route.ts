@@ -0,0 +1,92 @@
+// app/api/chat-analytics/resolution/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { loadAllChats } from "@/app/lib/chat-loader";
+import { getMessagesForOrgPhones } from "@/app/lib/message-sync";
+import { mergeOrgPhoneMessages } from "@/app/lib/org-phone-merge";
+import {
+  CYCLE_LOOKBACK_DAYS,
+  computeResolutionMetrics,
+} from "@/app/lib/resolution-analytics";
+import { getDateRange, parseTimeRangeParams } from "@/app/lib/utils";
+import { resolveTimeZone } from "@/app/lib/timezone";
+import {
+  CHAT_TYPES,
+  matchesChatFilters,
+  parseChatFilters,
+  type ChatFilters,
+} from "@/app/lib/chat-filters";
+import { narrowToScope, outOfScopeResponse, requireSession } from "@/app/lib/auth";
+import { resolvePeriskopeAccount } from "@/app/lib/periskope-accounts";
+
+// Time-to-first-response, time-to-close and exchanges for chats closed in
+// [startTime, endTime] (default: the last 30 days), by agent and chat type
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request);
+  if (session instanceof NextResponse) return session;
+
+  const params = request.nextUrl.searchParams;
+  const { filters: requestedFilters, errors } = parseChatFilters(params, CHAT_TYPES);
+  const account = resolvePeriskopeAccount(params.get("account"));
+  const timeZone = resolveTimeZone(params.get("tz") ?? account.timeZone);
+  const { start, end } = parseTimeRangeParams(params, errors, getDateRange("lastMonth", timeZone));
+  const idleHours = params.get("idleHours") ? Number(params.get("idleHours")) : undefined;
+  // NaN or a non-positive idle gap would never split cycles
+  if (idleHours !== undefined && !(idleHours > 0)) {
+    errors.push(`idleHours "${params.get("idleHours")}" must be a positive number`);
+  }
+  if (errors.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid resolution query", details: errors },
+      { status: 400 }
+    );
+  }
+  const agents = narrowToScope(requestedFilters.agents, session.scope?.agentEmails);
+  if (!agents) return outOfScopeResponse();
+  const filters: ChatFilters = { ...requestedFilters, agents };
+  // Narrow the chat fetch when only one number is wanted
+  const orgPhone = filters.orgPhones.length === 1 ? filters.orgPhones[0] : undefined;
+
+  console.log("[resolution] computing resolution metrics", {
+    start: start.toISOString(),
+    end: end.toISOString(),
+    filters,
+    idleHours,
+  });
+
+  try {
+    const chats = (await loadAllChats({ org_phone: orgPhone }, account.id)).filter((chat) =>
+      matchesChatFilters(chat, filters)
+    );
+
+    // Cycles closed early in the range may have started well before it
+    const lookbackStart = new Date(start.getTime() - CYCLE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const result = await getMessagesForOrgPhones(
+      lookbackStart.toISOString(),
+      end.toISOString(),
+      { account: account.id },
+      filters.orgPhones
+    );
+    const { freshness, completeness } = result;
+    // A chat shared by several numbers is paired from one number's view
+    const { messages } = mergeOrgPhoneMessages(result.messages, filters.orgPhones);
+
+    const resolution = computeResolutionMetrics(chats, messages, { start, end }, { idleHours });
+    console.log(`[resolution] ${resolution.overall.count} resolved cycles from ${chats.length} chats`);
+
+    return NextResponse.json({
+      resolution,
+      range: { start: start.toISOString(), end: end.toISOString() },
+      freshness,
+      completeness,
+    });
+  } catch (error) {
+    console.error("[resolution] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to compute resolution metrics",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+// app/api/chat-analytics/snapshots/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { bucketSnapshots, SNAPSHOT_BUCKETS, type SnapshotBucket } from "@/app/lib/chat-snapshots";
+import { getSnapshotStore } from "@/app/lib/snapshot-store";
+import { parseChatFilters } from "@/app/lib/chat-filters";
+import { getDateRange, parseTimeRangeParams } from "@/app/lib/utils";
+import { resolveTimeZone } from "@/app/lib/timezone";
+import { outOfScopeResponse, requireSession } from "@/app/lib/auth";
+import { resolvePeriskopeAccount } from "@/app/lib/periskope-accounts";
+
+// Chat metric snapshots taken in [startTime, endTime] (default: the last 30
+// days), for `chatType` (default: group), averaged per `bucket`
+// (raw|hour|day|week, default day) in `tz`
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request);
+  if (session instanceof NextResponse) return session;
+  // Snapshots cover the whole account, beyond any agent's or team's scope
+  if (session.scope) return outOfScopeResponse();
+
+  const params = request.nextUrl.searchParams;
+  const { filters, errors } = parseChatFilters(params);
+  if (
+    filters.orgPhones.length ||
+    filters.agents.length ||
+    filters.labels.length ||
+    filters.excludeLabels.length ||
+    filters.properties.length
+  ) {
+    errors.push("Snapshots are account-wide; only chatType can be filtered");
+  }
+  const bucket = (params.get("bucket") ?? "day") as SnapshotBucket;
+  if (!SNAPSHOT_BUCKETS.includes(bucket)) {
+    errors.push(`bucket must be one of ${SNAPSHOT_BUCKETS.join(", ")}`);
+  }
+  const account = resolvePeriskopeAccount(params.get("account"));
+  const timeZone = resolveTimeZone(params.get("tz") ?? account.timeZone);
+  const { start, end } = parseTimeRangeParams(params, errors, getDateRange("lastMonth", timeZone));
+  if (errors.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid snapshot query", details: errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const snapshots = await getSnapshotStore().querySnapshots(account.id, {
+      start: start.getTime(),
+      end: end.getTime() + 1,
+    });
+    const series = bucketSnapshots(snapshots, filters.chatTypes, bucket, timeZone);
+    console.log(`[snapshots] ${account.id}: ${snapshots.length} snapshot(s) → ${series.length} ${bucket} point(s)`);
+
+    return NextResponse.json({
+      series,
+      bucket,
+      chatTypes: filters.chatTypes,
+      timeZone,
+      range: { start: start.toISOString(), end: end.toISOString() },
+    });
+  } catch (error) {
+    console.error("[snapshots] failed to query:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to load chat metric snapshots",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
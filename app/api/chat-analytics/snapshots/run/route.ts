@@ -0,0 +1,31 @@
+// app/api/chat-analytics/snapshots/run/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { takeChatMetricsSnapshots } from "@/app/lib/chat-snapshot-job";
+import { requireSession } from "@/app/lib/auth";
+import { isCronRequest } from "@/app/lib/cron";
+
+// Record a snapshot for every account. Schedulers authenticate with
+// `Authorization: Bearer $CRON_SECRET`; admins can also trigger one.
+export async function POST(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    const session = await requireSession(request, ["admin"]);
+    if (session instanceof NextResponse) return session;
+  }
+
+  try {
+    const result = await takeChatMetricsSnapshots();
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error("[snapshots] run failed:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to record chat metric snapshots",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Vercel Cron and similar schedulers only issue GET requests
+export const GET = POST;
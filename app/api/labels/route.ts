@@ -0,0 +1,62 @@
+// app/api/labels/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { checkChatLabelInput, validateChatLabelConfig, type ChatLabel } from "@/app/lib/chat-labels";
+import { getChatLabelConfig, saveChatLabelConfig } from "@/app/lib/chat-label-settings";
+import { requireSession } from "@/app/lib/auth";
+
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request);
+  if (session instanceof NextResponse) return session;
+
+  const config = await getChatLabelConfig();
+  return NextResponse.json({ config });
+}
+
+// Replace every label name
+export async function PUT(request: NextRequest) {
+  const session = await requireSession(request, ["admin"]);
+  if (session instanceof NextResponse) return session;
+
+  let body: { labels?: Partial<ChatLabel>[] };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const inputProblems = checkChatLabelInput(body);
+  if (inputProblems.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid chat labels", details: inputProblems },
+      { status: 400 }
+    );
+  }
+
+  const config = {
+    labels: (body.labels ?? []).map(
+      (label): ChatLabel => ({ id: label.id?.trim() ?? "", name: label.name?.trim() ?? "" })
+    ),
+  };
+  const problems = validateChatLabelConfig(config);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid chat labels", details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await saveChatLabelConfig(config);
+    console.log(`[chat-labels] saved ${config.labels.length} label(s)`);
+    return NextResponse.json({ config });
+  } catch (error) {
+    console.error("[chat-labels] failed to save:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to save chat labels",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
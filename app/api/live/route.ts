@@ -0,0 +1,32 @@
+// app/api/live/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { isVisibleTo, subscribeLiveEvents } from "@/app/lib/live-events";
+import { sseResponse } from "@/app/lib/sse";
+import { requireSession } from "@/app/lib/auth";
+import { resolvePeriskopeAccount } from "@/app/lib/periskope-accounts";
+
+export const dynamic = "force-dynamic";
+
+// Server-Sent Events for one account: "ready" on connect, then "message" and
+// "chat" events as Periskope webhooks arrive (see /api/webhooks/periskope)
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request);
+  if (session instanceof NextResponse) return session;
+
+  const account = resolvePeriskopeAccount(request.nextUrl.searchParams.get("account"));
+
+  return sseResponse((send) => {
+    send("ready", { account: account.id, at: new Date().toISOString() });
+    console.log(`[live] ${session.email ?? session.uid} connected to ${account.id}`);
+
+    const unsubscribe = subscribeLiveEvents((event) => {
+      if (event.account !== account.id || !isVisibleTo(event, session)) return;
+      if (event.type === "message") send("message", { message: event.message, chat: event.chat });
+      else send("chat", { chat: event.chat });
+    });
+    return () => {
+      unsubscribe();
+      console.log(`[live] ${session.email ?? session.uid} disconnected from ${account.id}`);
+    };
+  });
+}
@@ -0,0 +1,11 @@
+// app/api/me/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/app/lib/auth";
+
+// The signed-in user's role and what they may see
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request);
+  if (session instanceof NextResponse) return session;
+
+  return NextResponse.json({ session });
+}
@@ -0,0 +1,88 @@
+// app/api/messages/export/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import type { Message } from "@/app/lib/types/periskope";
+import { getMessagesForOrgPhones } from "@/app/lib/message-sync";
+import { parseMessagesQuery } from "@/app/lib/messages-query";
+import { filterByAgent } from "@/app/lib/message-aggregates";
+import { mergeOrgPhoneMessages } from "@/app/lib/org-phone-merge";
+import { exportResponse, parseExportFormat } from "@/app/lib/export";
+import { agentDisplayName, type AgentRoster } from "@/app/lib/agent-roster";
+import { getAgentRoster } from "@/app/lib/agent-roster-settings";
+import { formatInTimeZone, formatZonedDate } from "@/app/lib/timezone";
+import { outOfScopeResponse, requireSession, scopeMessagesQuery } from "@/app/lib/auth";
+
+const HEADER = ["Time", "Message ID", "Chat ID", "Org phone", "Direction", "Sender", "Type", "Body"];
+
+function messageRow(message: Message, roster: AgentRoster, timeZone: string) {
+  return [
+    formatInTimeZone(message.timestamp, timeZone),
+    message.message_id,
+    message.chat_id,
+    message.org_phone,
+    message.from_me ? "Agent" : "Customer",
+    message.from_me ? agentDisplayName(roster, message.sender_phone) : message.sender_phone,
+    message.message_type,
+    message.body,
+  ];
+}
+
+// Every message of /api/messages for the range, oldest first, as a CSV or
+// XLSX download (`format`). X-Data-Complete is "false" when some intervals
+// failed or were truncated; see the completeness report.
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request);
+  if (session instanceof NextResponse) return session;
+
+  const params = request.nextUrl.searchParams;
+  const format = parseExportFormat(params.get("format"));
+  if (!format) {
+    return NextResponse.json(
+      { error: "Invalid export query", details: ["format must be csv or xlsx"] },
+      { status: 400 }
+    );
+  }
+  const parsed = parseMessagesQuery(params);
+  if (parsed.errors.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid messages query", details: parsed.errors },
+      { status: 400 }
+    );
+  }
+  const query = scopeMessagesQuery(parsed.query, session);
+  if (!query) return outOfScopeResponse();
+  const { startTimeISO, endTimeISO, filters, orgPhones, agents, options, timeZone } = query;
+
+  try {
+    const result = await getMessagesForOrgPhones(
+      startTimeISO,
+      endTimeISO,
+      filters,
+      orgPhones,
+      options
+    );
+    const merged = mergeOrgPhoneMessages(result.messages, orgPhones);
+    const messages = filterByAgent(merged.messages, agents).sort((a, b) =>
+      a.timestamp.localeCompare(b.timestamp)
+    );
+    const roster = await getAgentRoster();
+    console.log(`[messages-export] ${messages.length} message(s) as ${format} (complete: ${result.completeness.complete})`);
+
+    const response = exportResponse(
+      format,
+      `messages-${formatZonedDate(new Date(startTimeISO), timeZone)}-to-${formatZonedDate(new Date(endTimeISO), timeZone)}`,
+      HEADER,
+      messages.map((message) => messageRow(message, roster, timeZone))
+    );
+    response.headers.set("X-Data-Complete", String(result.completeness.complete));
+    return response;
+  } catch (error) {
+    console.error("[messages-export] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to export messages",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+// app/api/messages/heatmap/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { aggregateResponse } from "@/app/lib/aggregate-response";
+import { aggregateHeatmaps, filterByAgent } from "@/app/lib/message-aggregates";
+import { parseMessagesQuery } from "@/app/lib/messages-query";
+import { outOfScopeResponse, requireSession, scopeMessagesQuery } from "@/app/lib/auth";
+
+// Day×hour message counts for the all/agent/customer views
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request);
+  if (session instanceof NextResponse) return session;
+
+  const parsed = parseMessagesQuery(request.nextUrl.searchParams);
+  if (parsed.errors.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid messages query", details: parsed.errors },
+      { status: 400 }
+    );
+  }
+  const query = scopeMessagesQuery(parsed.query, session);
+  if (!query) return outOfScopeResponse();
+  return aggregateResponse(query, "heatmaps", (messages, agents) =>
+    aggregateHeatmaps(filterByAgent(messages, agents), query.timeZone)
+  );
+}
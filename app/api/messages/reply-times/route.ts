@@ -0,0 +1,38 @@
+// app/api/messages/reply-times/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { aggregateResponse } from "@/app/lib/aggregate-response";
+import { parseMessagesQuery } from "@/app/lib/messages-query";
+import { computeReplyTimes, resolveReplyTargets } from "@/app/lib/reply-times";
+import { getBusinessCalendarFor } from "@/app/lib/business-calendar-settings";
+import { outOfScopeResponse, requireSession, scopeMessagesQuery } from "@/app/lib/auth";
+
+// Overall, per-agent and per-chat reply delays. Waits are paired inside each
+// chat; `agent` keeps only the replies sent from those numbers.
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request);
+  if (session instanceof NextResponse) return session;
+
+  const params = request.nextUrl.searchParams;
+  const parsed = parseMessagesQuery(params);
+  if (parsed.errors.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid messages query", details: parsed.errors },
+      { status: 400 }
+    );
+  }
+  const query = scopeMessagesQuery(parsed.query, session);
+  if (!query) return outOfScopeResponse();
+  const calendar = await getBusinessCalendarFor(
+    {
+      orgPhone: query.filters.orgPhone,
+      team: params.get("team") ?? undefined,
+    },
+    query.timeZone
+  );
+  // e.g. targets=5m,1h,1bd (see parseReplyTargets)
+  const replyTargets = resolveReplyTargets(params.get("targets"), calendar);
+
+  return aggregateResponse(query, "replyTimes", (messages, agents) =>
+    computeReplyTimes(messages, { calendar, agents, targets: replyTargets })
+  );
+}
@@ -0,0 +1,84 @@
+// app/api/messages/summary/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { aggregateResponse } from "@/app/lib/aggregate-response";
+import { summarizeMessages } from "@/app/lib/message-aggregates";
+import { parseMessagesQuery } from "@/app/lib/messages-query";
+import { readList } from "@/app/lib/chat-filters";
+import { resolveReplyTargets } from "@/app/lib/reply-times";
+import { getBusinessCalendarFor } from "@/app/lib/business-calendar-settings";
+import { loadAllChats } from "@/app/lib/chat-loader";
+import type { Chat } from "@/app/lib/types/periskope";
+import { outOfScopeResponse, requireSession, scopeMessagesQuery } from "@/app/lib/auth";
+
+// Counts, average per day, peak hour/day per view and reply delays.
+// include=heatmap also embeds the day×hour matrices, include=numbers a
+// per-org-phone breakdown, include=volume the messages per day and
+// include=properties the totals per custom property value (e.g.
+// include=heatmap,numbers), so the dashboard can fill every card from a
+// single stream. With several orgPhone values the
+// totals merge those numbers, counting shared chats once. Business-hours delays use the
+// calendar assigned to orgPhone (or to `team`), else the default calendar.
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request);
+  if (session instanceof NextResponse) return session;
+
+  const params = request.nextUrl.searchParams;
+  const parsed = parseMessagesQuery(params);
+  if (parsed.errors.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid messages query", details: parsed.errors },
+      { status: 400 }
+    );
+  }
+  const query = scopeMessagesQuery(parsed.query, session);
+  if (!query) return outOfScopeResponse();
+  const include = readList(params, "include");
+  const includeHeatmaps = include.includes("heatmap");
+  const includeNumbers = include.includes("numbers");
+  const includeVolume = include.includes("volume");
+  const includeProperties = include.includes("properties");
+  const dateRange = {
+    startDate: new Date(query.startTimeISO),
+    endDate: new Date(query.endTimeISO),
+  };
+
+  const calendar = await getBusinessCalendarFor(
+    {
+      orgPhone: query.filters.orgPhone,
+      team: params.get("team") ?? undefined,
+    },
+    query.timeZone
+  );
+  // e.g. targets=5m,1h,1bd (see parseReplyTargets)
+  const replyTargets = resolveReplyTargets(params.get("targets"), calendar);
+
+  let chats: Map<string, Chat> | undefined;
+  if (includeProperties) {
+    try {
+      const accountChats = await loadAllChats({}, query.filters.account);
+      chats = new Map(accountChats.map((chat) => [chat.chat_id, chat]));
+    } catch (error) {
+      console.error("[messages-api] summary: failed to load chats for the property breakdown:", error);
+      return NextResponse.json(
+        {
+          error: "Failed to load chats",
+          details: error instanceof Error ? error.message : String(error),
+        },
+        { status: 500 }
+      );
+    }
+  }
+
+  return aggregateResponse(query, "summary", (messages, agents, byOrgPhone) =>
+    summarizeMessages(messages, dateRange, {
+      includeHeatmaps,
+      includeVolume,
+      byOrgPhone: includeNumbers ? byOrgPhone : undefined,
+      timeZone: query.timeZone,
+      calendar,
+      agents,
+      replyTargets,
+      chats,
+    })
+  );
+}
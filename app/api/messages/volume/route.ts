@@ -0,0 +1,57 @@
+// app/api/messages/volume/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { aggregateResponse } from "@/app/lib/aggregate-response";
+import { filterByAgent } from "@/app/lib/message-aggregates";
+import {
+  aggregateDailyVolume,
+  groupVolume,
+  ROLLING_WINDOWS,
+  VOLUME_GRANULARITIES,
+  withRollingAverage,
+  type VolumeGranularity,
+} from "@/app/lib/message-volume";
+import { parseMessagesQuery } from "@/app/lib/messages-query";
+import { outOfScopeResponse, requireSession, scopeMessagesQuery } from "@/app/lib/auth";
+
+// Agent and customer messages per `granularity` (day|week|month, default
+// day) in `tz`, each with the rolling average of the total
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request);
+  if (session instanceof NextResponse) return session;
+
+  const params = request.nextUrl.searchParams;
+  const granularity = (params.get("granularity") ?? "day") as VolumeGranularity;
+  if (!VOLUME_GRANULARITIES.includes(granularity)) {
+    return NextResponse.json(
+      {
+        error: "Invalid volume query",
+        details: [`granularity must be one of ${VOLUME_GRANULARITIES.join(", ")}`],
+      },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseMessagesQuery(params);
+  if (parsed.errors.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid messages query", details: parsed.errors },
+      { status: 400 }
+    );
+  }
+  const query = scopeMessagesQuery(parsed.query, session);
+  if (!query) return outOfScopeResponse();
+  const dateRange = {
+    startDate: new Date(query.startTimeISO),
+    endDate: new Date(query.endTimeISO),
+  };
+
+  return aggregateResponse(query, "volume", (messages, agents) =>
+    withRollingAverage(
+      groupVolume(
+        aggregateDailyVolume(filterByAgent(messages, agents), dateRange, query.timeZone),
+        granularity
+      ),
+      ROLLING_WINDOWS[granularity]
+    )
+  );
+}
@@ -0,0 +1,58 @@
+// app/api/reports/preview/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { buildAnalyticsReport } from "@/app/lib/analytics-report";
+import { renderReportEmail } from "@/app/lib/report-email";
+import { renderReportPdf } from "@/app/lib/report-pdf";
+import { latestReportPeriod } from "@/app/lib/scheduled-reports";
+import { getReportConfig } from "@/app/lib/report-settings";
+import { requireSession } from "@/app/lib/auth";
+
+// Render a schedule's latest report without sending it:
+// ?schedule=<id>&format=html|pdf
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request, ["admin"]);
+  if (session instanceof NextResponse) return session;
+
+  const searchParams = request.nextUrl.searchParams;
+  const scheduleId = searchParams.get("schedule");
+  const format = searchParams.get("format") ?? "html";
+  if (format !== "html" && format !== "pdf") {
+    return NextResponse.json(
+      { error: "Invalid query parameters", details: ["format must be html or pdf"] },
+      { status: 400 }
+    );
+  }
+
+  const config = await getReportConfig();
+  const schedule = config.schedules.find((s) => s.id === scheduleId);
+  if (!schedule) {
+    return NextResponse.json(
+      { error: "Unknown report schedule", details: scheduleId ?? "" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const now = new Date();
+    const report = await buildAnalyticsReport(schedule, latestReportPeriod(schedule, now).period, now);
+    if (format === "pdf") {
+      return new NextResponse(new Uint8Array(renderReportPdf(report)), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `inline; filename="${schedule.id}.pdf"`,
+        },
+      });
+    }
+    const { html } = renderReportEmail(report, { dashboardUrl: config.dashboardUrl });
+    return new NextResponse(html, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+  } catch (error) {
+    console.error("[reports] preview failed:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to render report",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+// app/api/reports/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  checkReportInput,
+  normalizeSchedule,
+  validateReportConfig,
+  type ReportConfig,
+  type ReportSchedule,
+} from "@/app/lib/report-schedules";
+import { getReportConfig, getReportState, saveReportConfig } from "@/app/lib/report-settings";
+import { requireSession } from "@/app/lib/auth";
+
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request, ["admin"]);
+  if (session instanceof NextResponse) return session;
+
+  const config = await getReportConfig();
+  try {
+    const state = await getReportState();
+    return NextResponse.json({ config, state });
+  } catch (error) {
+    console.error("[reports] failed to load state:", error);
+    return NextResponse.json({ config, state: null });
+  }
+}
+
+// Replace the report schedules and recipients
+export async function PUT(request: NextRequest) {
+  const session = await requireSession(request, ["admin"]);
+  if (session instanceof NextResponse) return session;
+
+  let body: { schedules?: Partial<ReportSchedule>[]; dashboardUrl?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const inputProblems = checkReportInput(body);
+  if (inputProblems.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid report config", details: inputProblems },
+      { status: 400 }
+    );
+  }
+
+  const config: ReportConfig = {
+    schedules: (body.schedules ?? []).map(normalizeSchedule),
+    dashboardUrl: body.dashboardUrl?.trim() || undefined,
+  };
+  const problems = validateReportConfig(config);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid report config", details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await saveReportConfig(config);
+    console.log(`[reports] saved ${config.schedules.length} schedule(s)`);
+    return NextResponse.json({ config });
+  } catch (error) {
+    console.error("[reports] failed to save config:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to save report config",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
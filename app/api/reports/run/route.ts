@@ -0,0 +1,44 @@
+// app/api/reports/run/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { runScheduledReports } from "@/app/lib/scheduled-reports";
+import { getReportConfig } from "@/app/lib/report-settings";
+import { requireSession } from "@/app/lib/auth";
+import { isCronRequest } from "@/app/lib/cron";
+
+// Schedulers authenticate with `Authorization: Bearer $CRON_SECRET`; admins
+// can also trigger a run from a signed-in session. `?schedule=<id>` sends
+// that report now, whether or not it is due.
+export async function POST(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    const session = await requireSession(request, ["admin"]);
+    if (session instanceof NextResponse) return session;
+  }
+
+  const scheduleId = request.nextUrl.searchParams.get("schedule") ?? undefined;
+  if (scheduleId) {
+    const config = await getReportConfig();
+    if (!config.schedules.some((schedule) => schedule.id === scheduleId)) {
+      return NextResponse.json(
+        { error: "Unknown report schedule", details: scheduleId },
+        { status: 404 }
+      );
+    }
+  }
+
+  try {
+    const result = await runScheduledReports(new Date(), { scheduleId });
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.error("[reports] run failed:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to run scheduled reports",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Vercel Cron and similar schedulers only issue GET requests
+export const GET = POST;
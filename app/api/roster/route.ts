@@ -0,0 +1,71 @@
+// app/api/roster/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { checkRosterInput, validateAgentRoster, type RosterAgent } from "@/app/lib/agent-roster";
+import { getAgentRoster, saveAgentRoster } from "@/app/lib/agent-roster-settings";
+import { requireSession } from "@/app/lib/auth";
+
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request);
+  if (session instanceof NextResponse) return session;
+
+  const roster = await getAgentRoster();
+  return NextResponse.json({ roster });
+}
+
+// Replace the whole roster
+export async function PUT(request: NextRequest) {
+  const session = await requireSession(request, ["admin"]);
+  if (session instanceof NextResponse) return session;
+
+  let body: { agents?: Partial<RosterAgent>[] };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const inputProblems = checkRosterInput(body);
+  if (inputProblems.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid agent roster", details: inputProblems },
+      { status: 400 }
+    );
+  }
+
+  const roster = {
+    agents: (body.agents ?? []).map(
+      (agent): RosterAgent => ({
+        id: agent.id?.trim() ?? "",
+        name: agent.name?.trim() ?? "",
+        whatsappIds: (agent.whatsappIds ?? []).map((id) => id.trim()).filter(Boolean),
+        email: agent.email?.trim() || undefined,
+        team: agent.team?.trim() || undefined,
+        role: agent.role ?? "agent",
+        activeFrom: agent.activeFrom || undefined,
+        activeUntil: agent.activeUntil || undefined,
+      })
+    ),
+  };
+  const problems = validateAgentRoster(roster);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid agent roster", details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await saveAgentRoster(roster);
+    console.log(`[roster] saved ${roster.agents.length} agent(s)`);
+    return NextResponse.json({ roster });
+  } catch (error) {
+    console.error("[roster] failed to save:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to save agent roster",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+// app/api/sla-policies/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { checkSlaPolicyInput, validateSlaConfig, type SlaPolicy, type SlaPolicyConfig } from "@/app/lib/sla-policy";
+import { getSlaPolicyConfig, saveSlaPolicyConfig } from "@/app/lib/sla-policy-settings";
+import { requireSession } from "@/app/lib/auth";
+
+export async function GET(request: NextRequest) {
+  const session = await requireSession(request);
+  if (session instanceof NextResponse) return session;
+
+  const config = await getSlaPolicyConfig();
+  return NextResponse.json({ config });
+}
+
+// Replace the whole ordered policy list
+export async function PUT(request: NextRequest) {
+  const session = await requireSession(request, ["admin"]);
+  if (session instanceof NextResponse) return session;
+
+  let body: { policies?: Partial<SlaPolicy>[] };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const inputProblems = checkSlaPolicyInput(body);
+  if (inputProblems.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid SLA policies", details: inputProblems },
+      { status: 400 }
+    );
+  }
+
+  const config: SlaPolicyConfig = {
+    policies: (body.policies ?? []).map(
+      (policy): SlaPolicy => ({
+        id: policy.id?.trim() ?? "",
+        name: policy.name?.trim() ?? "",
+        match: policy.match ?? {},
+        responseTargetHours: Number(policy.responseTargetHours ?? 0),
+        businessHours: policy.businessHours === true,
+        tiers: policy.tiers ?? [],
+      })
+    ),
+  };
+  const problems = validateSlaConfig(config);
+  if (problems.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid SLA policies", details: problems },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await saveSlaPolicyConfig(config);
+    console.log(`[sla-policies] saved ${config.policies.length} policy(ies)`);
+    return NextResponse.json({ config });
+  } catch (error) {
+    console.error("[sla-policies] failed to save:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to save SLA policies",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+// app/api/webhooks/periskope/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ingestWebhookEvent,
+  parseWebhookEvents,
+  verifyWebhookSignature,
+  type IngestResult,
+} from "@/app/lib/periskope-webhooks";
+import { getDefaultAccount, getPeriskopeAccounts } from "@/app/lib/periskope-accounts";
+
+// Periskope event receiver. Authenticated by the account's webhookSecret
+// rather than a user session: the raw body must be signed in
+// X-Periskope-Signature.
+export async function POST(request: NextRequest) {
+  const accountId = request.nextUrl.searchParams.get("account");
+  const account = accountId
+    ? getPeriskopeAccounts().find((a) => a.id === accountId)
+    : getDefaultAccount();
+  if (!account) {
+    return NextResponse.json({ error: "Unknown account", details: accountId }, { status: 404 });
+  }
+  if (!account.webhookSecret) {
+    return NextResponse.json(
+      { error: "Webhook ingestion is not configured for this account", details: account.id },
+      { status: 404 }
+    );
+  }
+
+  const body = await request.text();
+  if (!verifyWebhookSignature(body, request.headers.get("x-periskope-signature"), account.webhookSecret)) {
+    console.log(`[webhooks] ${account.id}: rejected event with a bad signature`);
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const { events, errors } = parseWebhookEvents(payload);
+  if (errors.length > 0) {
+    return NextResponse.json({ error: "Invalid webhook events", details: errors }, { status: 400 });
+  }
+
+  try {
+    const results: IngestResult[] = [];
+    for (const event of events) {
+      results.push(await ingestWebhookEvent(account.id, event));
+    }
+    console.log(
+      `[webhooks] ${account.id}: applied ${results.filter((r) => r.applied).length}/${results.length} event(s)`
+    );
+    return NextResponse.json({ received: events.length, results });
+  } catch (error) {
+    console.error("[webhooks] failed to ingest events:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to ingest webhook events",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
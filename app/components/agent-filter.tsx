@@ -2,23 +2,35 @@
 
 import React from "react";
 import { User, Users, Bot } from "lucide-react";
+import type { AgentRoster } from "@/app/lib/agent-roster";
 
 interface AgentFilterProps {
   onAgentChange: (agent: string) => void;
+  // Roster agent id, or "" for all agents
   selectedAgent: string;
+  roster: AgentRoster;
 }
 
+// "918527014950@c.us" -> "+91 85270 14950"
+const formatWhatsappId = (whatsappId: string) => {
+  const digits = whatsappId.replace(/@c\.us$/, "");
+  return digits.length === 12
+    ? `+${digits.slice(0, 2)} ${digits.slice(2, 7)} ${digits.slice(7)}`
+    : `+${digits}`;
+};
+
 const AgentFilter: React.FC<AgentFilterProps> = ({
   onAgentChange,
   selectedAgent,
+  roster,
 }) => {
-  // Your 4 agent numbers
   const agents = [
     { id: "", label: "All Agents", phone: "" },
-    { id: "+911852701495", label: "Agent 1", phone: "+91 85270 14950" },
-    { id: "+911852703388", label: "Agent 2", phone: "+91 85270 33886" },
-    { id: "+911730346174", label: "Agent 3", phone: "+91 73034 61744" },
-    { id: "+911852743922", label: "Agent 4", phone: "+91 85274 39222" },
+    ...roster.agents.map((agent) => ({
+      id: agent.id,
+      label: agent.name,
+      phone: agent.whatsappIds.map(formatWhatsappId).join(", "),
+    })),
   ];
 
   return (
@@ -58,4 +70,4 @@ const AgentFilter: React.FC<AgentFilterProps> = ({
   );
 };
 
-export default AgentFilter;
\ No newline at end of file
+export default AgentFilter;
@@ -0,0 +1,177 @@
+// app/components/auth-gate.tsx
+"use client";
+
+import React, { createContext, useContext, useEffect, useState } from "react";
+import {
+  GoogleAuthProvider,
+  onAuthStateChanged,
+  signInWithEmailAndPassword,
+  signInWithPopup,
+  signOut,
+  type User,
+} from "firebase/auth";
+import { LogOut, Lock } from "lucide-react";
+import { auth } from "@/app/lib/firebase";
+import { authFetch } from "@/app/lib/auth-client";
+import type { Session } from "@/app/lib/auth";
+
+const SessionContext = createContext<Session | null>(null);
+
+// The signed-in user's role and scope; null outside AuthGate
+export function useSession(): Session | null {
+  return useContext(SessionContext);
+}
+
+type GateState =
+  | { status: "loading" }
+  | { status: "signed-out"; error?: string }
+  | { status: "denied"; message: string }
+  | { status: "ready"; session: Session };
+
+const roleLabels: Record<Session["role"], string> = {
+  admin: "Admin",
+  lead: "Team lead",
+  agent: "Agent",
+};
+
+// Renders children once the server has accepted the user's ID token (or has
+// auth disabled), otherwise a sign-in form
+export default function AuthGate({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [state, setState] = useState<GateState>({ status: "loading" });
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+
+  useEffect(
+    () =>
+      onAuthStateChanged(auth, (nextUser) => {
+        setUser(nextUser);
+        loadSession();
+      }),
+    []
+  );
+
+  async function loadSession() {
+    setState({ status: "loading" });
+    try {
+      const res = await authFetch("/api/me");
+      const data = await res.json();
+      if (res.ok) setState({ status: "ready", session: data.session });
+      else if (res.status === 403) setState({ status: "denied", message: data.error });
+      else setState({ status: "signed-out" });
+    } catch (error) {
+      console.error("Error loading session:", error);
+      setState({ status: "signed-out", error: "Could not reach the server" });
+    }
+  }
+
+  async function signIn(method: "password" | "google") {
+    try {
+      if (method === "google") await signInWithPopup(auth, new GoogleAuthProvider());
+      else await signInWithEmailAndPassword(auth, email, password);
+    } catch (error) {
+      setState({
+        status: "signed-out",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (state.status === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-gray-500 dark:text-gray-400">
+        Loading...
+      </div>
+    );
+  }
+
+  if (state.status === "ready") {
+    return (
+      <SessionContext.Provider value={state.session}>
+        {user && (
+          <div className="flex justify-end items-center gap-3 px-8 pt-4 text-sm text-gray-600 dark:text-gray-400">
+            <span>
+              {user.email} • {roleLabels[state.session.role]}
+              {state.session.team && ` • ${state.session.team}`}
+            </span>
+            <button
+              onClick={() => signOut(auth)}
+              className="flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              <LogOut className="h-4 w-4" />
+              Sign out
+            </button>
+          </div>
+        )}
+        {children}
+      </SessionContext.Provider>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8">
+      <div className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-xl shadow p-8 space-y-4">
+        <div className="flex items-center gap-2">
+          <Lock className="h-5 w-5 text-blue-600" />
+          <h1 className="text-xl font-bold text-gray-800 dark:text-gray-100">
+            WhatsApp Analytics
+          </h1>
+        </div>
+
+        {state.status === "denied" ? (
+          <>
+            <p className="text-sm text-red-600 dark:text-red-400">
+              {state.message}. Ask an admin to add {user?.email ?? "you"} to the agent roster.
+            </p>
+            <button
+              onClick={() => signOut(auth)}
+              className="w-full px-4 py-2 bg-gray-200 text-gray-800 rounded-lg text-sm font-medium dark:bg-gray-700 dark:text-gray-200"
+            >
+              Sign out
+            </button>
+          </>
+        ) : (
+          <>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                signIn("password");
+              }}
+              className="space-y-3"
+            >
+              <input
+                className="w-full border rounded p-2 bg-white dark:bg-gray-800 dark:text-gray-100 focus:ring-2 focus:ring-blue-500"
+                type="email"
+                placeholder="Email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+              <input
+                className="w-full border rounded p-2 bg-white dark:bg-gray-800 dark:text-gray-100 focus:ring-2 focus:ring-blue-500"
+                type="password"
+                placeholder="Password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+              <button
+                type="submit"
+                className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700"
+              >
+                Sign in
+              </button>
+            </form>
+            <button
+              onClick={() => signIn("google")}
+              className="w-full px-4 py-2 bg-gray-200 text-gray-800 rounded-lg text-sm font-medium hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200"
+            >
+              Sign in with Google
+            </button>
+            {state.status === "signed-out" && state.error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{state.error}</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -15,14 +15,79 @@ import {
   Search,
 } from "lucide-react";
 import type { ChatMetrics } from "@/app/lib/types/periskope";
+import { DEFAULT_TIMEZONE, formatInTimeZone } from "@/app/lib/timezone";
+import { CHAT_TYPES, UNASSIGNED_AGENT } from "@/app/lib/chat-filters";
+import {
+  TEAM_SELECTION_PREFIX,
+  agentDisplayName,
+  rosterTeams,
+  selectRosterAgents,
+  type AgentRoster,
+} from "@/app/lib/agent-roster";
+import {
+  DEFAULT_SLA_CONFIG,
+  fallbackSlaPolicy,
+  tierForWait,
+  type SlaEvaluation,
+} from "@/app/lib/sla-policy";
+import ResolvedChats from "./resolved-chats";
+import ChatTrends from "./chat-trends";
+import ExportButtons from "./export-buttons";
+import PropertyBreakdown from "./property-breakdown";
+import LabelFilter from "./label-filter";
+import LabelBreakdown from "./label-breakdown";
+import { matchesChatSearch, type ChatList } from "@/app/lib/chat-lists";
+import type { ExportFormat } from "@/app/lib/export";
+import { authDownload, authFetch } from "@/app/lib/auth-client";
+import {
+  appendPropertyFilters,
+  describePropertyFilters,
+  type PropertyFilter,
+} from "@/app/lib/custom-properties";
+import { labelName, type LabelOption } from "@/app/lib/chat-labels";
 
 interface ChatAnalyticsProps {
+  // One or more org phones, comma-separated
   orgPhone: string;
+  // Zone for every displayed timestamp
+  timeZone?: string;
+  // Names agents and drives the agent filter
+  roster?: AgentRoster | null;
+  // Periskope account id; the server default when empty
+  account?: string;
+  // Custom property filters
+  properties?: PropertyFilter[];
+  // Changes when a live event arrives; each change refreshes in place
+  liveRevision?: number;
 }
 
-export default function ChatAnalytics({ orgPhone }: ChatAnalyticsProps) {
+const TICK_MS = 30 * 1000;
+
+const NO_PROPERTY_FILTERS: PropertyFilter[] = [];
+
+export default function ChatAnalytics({
+  orgPhone,
+  timeZone = DEFAULT_TIMEZONE,
+  roster = null,
+  account = "",
+  properties = NO_PROPERTY_FILTERS,
+  liveRevision = 0,
+}: ChatAnalyticsProps) {
   const [metrics, setMetrics] = useState<ChatMetrics | null>(null);
+  // When the metrics were computed, and a clock that keeps chat timers
+  // running between fetches
+  const [fetchedAt, setFetchedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
   const [loading, setLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // "" keeps the API default (group chats); "all" asks for every type
+  const [chatType, setChatType] = useState("");
+  // Roster agent id, "team:<name>" or "unassigned"; matched on assigned_to
+  const [agentSelection, setAgentSelection] = useState("");
+  // Label ids a chat must carry one of, and must carry none of
+  const [labelOptions, setLabelOptions] = useState<LabelOption[]>([]);
+  const [includeLabels, setIncludeLabels] = useState<string[]>([]);
+  const [excludeLabels, setExcludeLabels] = useState<string[]>([]);
   const [expandedSections, setExpandedSections] = useState({
     openChats: false,
     delayedChats: false,
@@ -42,17 +107,67 @@ export default function ChatAnalytics({ orgPhone }: ChatAnalyticsProps) {
 
   useEffect(() => {
     fetchChatMetrics();
-  }, [orgPhone]);
+  }, [orgPhone, chatType, agentSelection, account, properties, includeLabels, excludeLabels]);
+
+  // Labels differ per account, so a new account starts unfiltered
+  useEffect(() => {
+    setIncludeLabels([]);
+    setExcludeLabels([]);
+    const params = new URLSearchParams();
+    if (account) params.append("account", account);
+    authFetch(`/api/chat-analytics/labels?${params.toString()}`)
+      .then((res) => (res.ok ? res.json() : { labels: [] }))
+      .then((data) => setLabelOptions(data.labels ?? []))
+      .catch((error) => {
+        console.error("Error fetching chat labels:", error);
+        setLabelOptions([]);
+      });
+  }, [account]);
+
+  // A burst of live events refreshes once
+  useEffect(() => {
+    if (liveRevision === 0) return;
+    const timeoutId = setTimeout(() => fetchChatMetrics(true), 2000);
+    return () => clearTimeout(timeoutId);
+  }, [liveRevision]);
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  // Filters shared by the metrics request and the exports
+  function chatQueryParams() {
+    const params = new URLSearchParams();
+
+    if (orgPhone.trim()) {
+      params.append("orgPhone", orgPhone.trim());
+    }
+    if (account) params.append("account", account);
+    if (chatType) {
+      params.append("chatType", chatType === "all" ? CHAT_TYPES.join(",") : chatType);
+    }
+    if (agentSelection === UNASSIGNED_AGENT) {
+      params.append("agent", UNASSIGNED_AGENT);
+    } else if (agentSelection && roster) {
+      const emails = selectRosterAgents(roster, agentSelection)
+        .map((agent) => agent.email)
+        .filter(Boolean);
+      params.append("agent", emails.join(",") || UNASSIGNED_AGENT);
+    }
+    appendPropertyFilters(params, properties);
+    if (includeLabels.length) params.append("label", includeLabels.join(","));
+    if (excludeLabels.length) params.append("excludeLabel", excludeLabels.join(","));
+    return params;
+  }
 
-  async function fetchChatMetrics() {
-    setLoading(true);
+  // silent=true keeps the current list on screen while refreshing
+  async function fetchChatMetrics(silent = false) {
+    if (!silent) setLoading(true);
+    setErrorMessage(null);
     try {
       let url = `/api/chat-analytics`;
-      const params = new URLSearchParams();
-
-      if (orgPhone.trim()) {
-        params.append("orgPhone", orgPhone.trim());
-      }
+      const params = chatQueryParams();
 
       if (params.toString()) {
         url += `?${params.toString()}`;
@@ -60,19 +175,42 @@ export default function ChatAnalytics({ orgPhone }: ChatAnalyticsProps) {
 
       console.log(`[ChatAnalytics] Fetching metrics for orgPhone: ${orgPhone || 'all'}`);
 
-      const res = await fetch(url);
+      const res = await authFetch(url);
+      if (res.status === 400) {
+        const data = await res.json();
+        throw new Error(
+          Array.isArray(data.details) ? data.details.join("; ") : data.error
+        );
+      }
       if (!res.ok) throw new Error(`API ${res.status}`);
 
       const data = await res.json();
       setMetrics(data.metrics);
+      setFetchedAt(Date.now());
+      setNow(Date.now());
     } catch (error) {
       console.error("Error fetching chat metrics:", error);
+      // A failed live refresh keeps what is on screen
+      if (silent) return;
+      setErrorMessage(error instanceof Error ? error.message : String(error));
       setMetrics(null);
     } finally {
       setLoading(false);
     }
   }
 
+  // Download a list as shown, i.e. with its search term applied
+  function exportChats(list: ChatList, format: ExportFormat) {
+    const params = chatQueryParams();
+    params.append("list", list);
+    params.append("format", format);
+    params.append("tz", timeZone);
+    const search = list === "open" ? openChatsSearch : delayedChatsSearch;
+    if (search.trim()) params.append("search", search.trim());
+
+    return authDownload(`/api/chat-analytics/export?${params.toString()}`, `${list}-chats.${format}`);
+  }
+
   const toggleSection = (section: "openChats" | "delayedChats") => {
     setExpandedSections((prev) => ({
       ...prev,
@@ -92,28 +230,18 @@ export default function ChatAnalytics({ orgPhone }: ChatAnalyticsProps) {
     }
   };
 
-  // FIXED: Only apply urgency colors to overdue chats, neutral colors for open chats
-  const getUrgencyLevel = (hours: number, urgency?: string, isOverdue: boolean = false) => {
-    // For overdue chats, use urgency color coding
-    if (isOverdue) {
-      if (urgency) {
-        switch (urgency) {
-          case "critical": return { level: "critical", color: "red", label: "Critical" };
-          case "high": return { level: "high", color: "orange", label: "High" };
-          case "medium": return { level: "medium", color: "yellow", label: "Medium" };
-          default: return { level: "low", color: "emerald", label: "Low" };
-        }
-      }
-      
-      // Color coding for overdue chats based on response delay
-      if (hours <= 48) return { level: "low", color: "emerald", label: "Low" }; // 0-2 days = GREEN
-      if (hours <= 168) return { level: "medium", color: "yellow", label: "Medium" }; // 2-7 days = YELLOW  
-      if (hours <= 336) return { level: "high", color: "orange", label: "High" }; // 7-14 days = ORANGE
-      return { level: "critical", color: "red", label: "Critical" }; // 14+ days = RED
-    }
-    
-    // For open chats, always use neutral blue color regardless of age
-    return { level: "neutral", color: "blue", label: "Open" };
+  // Names from the label settings, as resolved by the server
+  const nameOfLabel = (id: string) => labelName({ labels: labelOptions }, id);
+
+  // Tiers come from the SLA policies the server evaluated the chats against
+  const slaConfig = metrics?.slaConfig ?? DEFAULT_SLA_CONFIG;
+
+  // Overdue chats take the colour of their SLA tier; open chats stay neutral
+  const getUrgencyLevel = (chat: { sla?: SlaEvaluation }, isOverdue: boolean) => {
+    const tier = isOverdue ? chat.sla?.tier : null;
+    return tier
+      ? { level: tier.id, color: tier.color as string, label: tier.label }
+      : { level: "neutral", color: "blue", label: "Open" };
   };
 
   const getMetricCardClasses = (
@@ -141,7 +269,8 @@ export default function ChatAnalytics({ orgPhone }: ChatAnalyticsProps) {
     }
 
     if (type === "age") {
-      const urgency = getUrgencyLevel(value);
+      // Ages are coloured with the tiers of the catch-all policy
+      const urgency = tierForWait(fallbackSlaPolicy(slaConfig).tiers, value);
       switch (urgency.color) {
         case "emerald":
           return {
@@ -289,14 +418,12 @@ export default function ChatAnalytics({ orgPhone }: ChatAnalyticsProps) {
     index: number;
     type: "open" | "delayed";
   }) => {
-    // Pass isOverdue flag to getUrgencyLevel - only overdue chats get color coding
-    const urgency = getUrgencyLevel(
-      type === "delayed" ? chat.hoursWithoutResponse : chat.ageInHours,
-      chat.urgencyLevel,
-      type === "delayed" // Only apply urgency colors to delayed/overdue chats
-    );
+    // Only delayed/overdue chats get tier colours
+    const urgency = getUrgencyLevel(chat, type === "delayed");
+    // Wall-clock timers keep running from when the metrics were fetched
     const hours =
-      type === "delayed" ? chat.hoursWithoutResponse : chat.ageInHours;
+      (type === "delayed" ? chat.hoursWithoutResponse : chat.ageInHours) +
+      Math.max(0, now - fetchedAt) / (1000 * 60 * 60);
     const classes = getChatCardClasses(urgency);
 
     return (
@@ -327,7 +454,7 @@ export default function ChatAnalytics({ orgPhone }: ChatAnalyticsProps) {
             <div className="flex items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
               <div className="flex items-center gap-1">
                 <Bot className="h-3 w-3" />
-                <span className="truncate max-w-[120px]">{chat.agentPhone || "Unassigned"}</span>
+                <span className="truncate max-w-[120px]">{agentDisplayName(roster, chat.agentPhone)}</span>
               </div>
               <div className="flex items-center gap-1">
                 <Calendar className="h-3 w-3" />
@@ -341,11 +468,29 @@ export default function ChatAnalytics({ orgPhone }: ChatAnalyticsProps) {
               )}
             </div>
 
+            {chat.labelIds?.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {chat.labelIds.map((id: string) => (
+                  <span
+                    key={id}
+                    className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+                  >
+                    {nameOfLabel(id)}
+                  </span>
+                ))}
+              </div>
+            )}
+
             {chat.lastActivity && (
               <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
                 Last activity:{" "}
-                {new Date(chat.lastActivity).toLocaleDateString()} at{" "}
-                {new Date(chat.lastActivity).toLocaleTimeString([], {
+                {formatInTimeZone(chat.lastActivity, timeZone, {
+                  year: "numeric",
+                  month: "numeric",
+                  day: "numeric",
+                })}{" "}
+                at{" "}
+                {formatInTimeZone(chat.lastActivity, timeZone, {
                   hour: "2-digit",
                   minute: "2-digit",
                 })}
@@ -355,8 +500,13 @@ export default function ChatAnalytics({ orgPhone }: ChatAnalyticsProps) {
             {type === "delayed" && chat.lastMessageTime && (
               <div className="mt-2 text-xs text-red-600 dark:text-red-400">
                 {chat.lastMessageFromCustomer ? "Customer waiting since:" : "Last message:"}{" "}
-                {new Date(chat.lastMessageTime).toLocaleDateString()} at{" "}
-                {new Date(chat.lastMessageTime).toLocaleTimeString([], {
+                {formatInTimeZone(chat.lastMessageTime, timeZone, {
+                  year: "numeric",
+                  month: "numeric",
+                  day: "numeric",
+                })}{" "}
+                at{" "}
+                {formatInTimeZone(chat.lastMessageTime, timeZone, {
                   hour: "2-digit",
                   minute: "2-digit",
                 })}
@@ -373,6 +523,20 @@ export default function ChatAnalytics({ orgPhone }: ChatAnalyticsProps) {
             <span className={`text-lg font-bold ${classes.time}`}>
               {formatHours(hours)}
             </span>
+            {type === "delayed" && chat.businessHoursWithoutResponse != null && (
+              <span
+                className="text-xs text-gray-500 dark:text-gray-400"
+                title={chat.businessCalendar}
+              >
+                {formatHours(chat.businessHoursWithoutResponse)} business
+              </span>
+            )}
+            {type === "delayed" && chat.sla && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {chat.sla.policyName} SLA: {formatHours(chat.sla.targetHours)}
+                {chat.sla.businessHours ? " business" : ""}
+              </span>
+            )}
             <Clock className={`h-4 w-4 ${classes.clock} mt-1`} />
           </div>
         </div>
@@ -384,19 +548,7 @@ export default function ChatAnalytics({ orgPhone }: ChatAnalyticsProps) {
   const getFilteredOpenChats = () => {
     if (!metrics?.openChatDetails) return [];
     
-    let filtered = metrics.openChatDetails;
-    
-    if (openChatsSearch.trim()) {
-      const searchTerm = openChatsSearch.toLowerCase();
-      filtered = filtered.filter(chat => 
-        chat.chatName.toLowerCase().includes(searchTerm) ||
-        chat.chatId.toLowerCase().includes(searchTerm) ||
-        (chat.agentPhone && chat.agentPhone.toLowerCase().includes(searchTerm)) ||
-        (chat.chatType && chat.chatType.toLowerCase().includes(searchTerm))
-      );
-    }
-    
-    return filtered;
+    return metrics.openChatDetails.filter((chat) => matchesChatSearch(chat, openChatsSearch, roster));
   };
 
   // Get paginated open chats
@@ -420,19 +572,7 @@ export default function ChatAnalytics({ orgPhone }: ChatAnalyticsProps) {
   const getFilteredDelayedChats = () => {
     if (!metrics?.delayedResponseDetails) return [];
     
-    let filtered = metrics.delayedResponseDetails;
-    
-    if (delayedChatsSearch.trim()) {
-      const searchTerm = delayedChatsSearch.toLowerCase();
-      filtered = filtered.filter(chat => 
-        chat.chatName.toLowerCase().includes(searchTerm) ||
-        chat.chatId.toLowerCase().includes(searchTerm) ||
-        (chat.agentPhone && chat.agentPhone.toLowerCase().includes(searchTerm)) ||
-        (chat.chatType && chat.chatType.toLowerCase().includes(searchTerm))
-      );
-    }
-    
-    return filtered;
+    return metrics.delayedResponseDetails.filter((chat) => matchesChatSearch(chat, delayedChatsSearch, roster));
   };
 
   // Get paginated delayed chats
@@ -507,11 +647,12 @@ export default function ChatAnalytics({ orgPhone }: ChatAnalyticsProps) {
             Failed to Load Chat Metrics
           </h3>
           <p className="text-gray-600 dark:text-gray-400 mb-4">
-            We couldn't fetch the chat analytics data. Please check your
-            connection and try again.
+            {errorMessage && !errorMessage.startsWith("API ")
+              ? errorMessage
+              : "We couldn't fetch the chat analytics data. Please check your connection and try again."}
           </p>
           <button
-            onClick={fetchChatMetrics}
+            onClick={() => fetchChatMetrics()}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
           >
             Retry
@@ -521,6 +662,10 @@ export default function ChatAnalytics({ orgPhone }: ChatAnalyticsProps) {
     );
   }
 
+  const appliedFilters = metrics._debug?.filters;
+  // Chats are assigned by Periskope login, so only agents with an email can be filtered on
+  const assignableAgents = roster?.agents.filter((agent) => agent.email) ?? [];
+
   const filteredOpenChats = getFilteredOpenChats();
   const paginatedOpenChats = getPaginatedOpenChats();
   const openChatsTotalPages = getOpenChatsTotalPages();
@@ -573,9 +718,70 @@ export default function ChatAnalytics({ orgPhone }: ChatAnalyticsProps) {
             Showing:
           </span>
           <span className="ml-2 text-gray-800 dark:text-gray-200">
-            All Open Chats {orgPhone ? `• ${orgPhone}` : '• All Organizations'}
+            Open Chats
+            {appliedFilters?.orgPhones.length
+              ? ` • ${appliedFilters.orgPhones.join(", ")}`
+              : " • All Organizations"}
+            {appliedFilters && ` • ${appliedFilters.chatTypes.join(", ")}`}
+            {appliedFilters?.agents.length
+              ? ` • Agent: ${appliedFilters.agents.map((a) => agentDisplayName(roster, a)).join(", ")}`
+              : ""}
+            {appliedFilters?.labels.length
+              ? ` • Labels: ${appliedFilters.labels.map(nameOfLabel).join(" or ")}`
+              : ""}
+            {appliedFilters?.excludeLabels?.length
+              ? ` • Not: ${appliedFilters.excludeLabels.map(nameOfLabel).join(", ")}`
+              : ""}
+            {appliedFilters?.properties?.length
+              ? ` • ${describePropertyFilters(appliedFilters.properties)}`
+              : ""}
           </span>
         </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          <LabelFilter
+            labels={labelOptions}
+            include={includeLabels}
+            exclude={excludeLabels}
+            onChange={(include, exclude) => {
+              setIncludeLabels(include);
+              setExcludeLabels(exclude);
+            }}
+          />
+          {assignableAgents.length > 0 && (
+            <select
+              value={agentSelection}
+              onChange={(e) => setAgentSelection(e.target.value)}
+              className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            >
+              <option value="">All agents</option>
+              <option value={UNASSIGNED_AGENT}>Unassigned</option>
+              {roster &&
+                rosterTeams(roster).map((team) => (
+                  <option key={team} value={`${TEAM_SELECTION_PREFIX}${team}`}>
+                    Team {team}
+                  </option>
+                ))}
+              {assignableAgents.map((agent) => (
+                <option key={agent.id} value={agent.id}>
+                  {agent.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            value={chatType}
+            onChange={(e) => setChatType(e.target.value)}
+            className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          >
+            <option value="">Group chats</option>
+            <option value="all">All chat types</option>
+            {CHAT_TYPES.filter((type) => type !== "group").map((type) => (
+              <option key={type} value={type}>
+                {type.charAt(0).toUpperCase() + type.slice(1)} chats
+              </option>
+            ))}
+          </select>
+        </div>
       </div>
 
       {/* Detailed Chat Lists */}
@@ -657,6 +863,10 @@ export default function ChatAnalytics({ orgPhone }: ChatAnalyticsProps) {
                           <option value={100}>100 per page</option>
                         </select>
                       )}
+                      <ExportButtons
+                        onExport={(format) => exportChats("open", format)}
+                        disabled={filteredOpenChats.length === 0}
+                      />
                     </div>
                   </div>
 
@@ -812,6 +1022,10 @@ export default function ChatAnalytics({ orgPhone }: ChatAnalyticsProps) {
                           <option value={100}>100 per page</option>
                         </select>
                       )}
+                      <ExportButtons
+                        onExport={(format) => exportChats("overdue", format)}
+                        disabled={filteredDelayedChats.length === 0}
+                      />
                     </div>
                   </div>
 
@@ -879,6 +1093,52 @@ export default function ChatAnalytics({ orgPhone }: ChatAnalyticsProps) {
           )}
         </div>
       </div>
+
+      {/* Open and overdue chats per label */}
+      {metrics.byLabel && metrics.byLabel.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border p-6">
+          <LabelBreakdown
+            totals={metrics.byLabel}
+            onSelect={(labelId) => {
+              setIncludeLabels([labelId]);
+              setExcludeLabels([]);
+            }}
+          />
+        </div>
+      )}
+
+      {/* Open and overdue chats per custom property value */}
+      {metrics.byProperty && metrics.byProperty.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border p-6">
+          <PropertyBreakdown
+            title="Open Chats by Property"
+            totals={metrics.byProperty}
+            columns={[
+              { key: "open", label: "Open" },
+              { key: "overdue", label: "Overdue" },
+            ]}
+          />
+        </div>
+      )}
+
+      {/* Backlog history from metric snapshots */}
+      <ChatTrends
+        chatType={chatType}
+        timeZone={timeZone}
+        account={account}
+        slaConfig={slaConfig}
+      />
+
+      {/* Resolved (closed) chats */}
+      <ResolvedChats
+        orgPhone={orgPhone}
+        properties={properties}
+        labels={includeLabels}
+        excludeLabels={excludeLabels}
+        timeZone={timeZone}
+        roster={roster}
+        account={account}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
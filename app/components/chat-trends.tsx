@@ -0,0 +1,206 @@
+// app/components/chat-trends.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { LineChart as LineChartIcon } from "lucide-react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { SnapshotBucket, SnapshotPoint } from "@/app/lib/chat-snapshots";
+import { CHAT_TYPES } from "@/app/lib/chat-filters";
+import { DEFAULT_TIMEZONE, formatInTimeZone } from "@/app/lib/timezone";
+import {
+  DEFAULT_SLA_CONFIG,
+  fallbackSlaPolicy,
+  type SlaPolicyConfig,
+  type SlaTierColor,
+} from "@/app/lib/sla-policy";
+import { authFetch } from "@/app/lib/auth-client";
+
+interface ChatTrendsProps {
+  // ChatAnalytics' chat type selection: "" for group chats, "all" or one type
+  chatType: string;
+  timeZone?: string;
+  account?: string;
+  // Names and colours the urgency tier lines
+  slaConfig?: SlaPolicyConfig;
+}
+
+const ranges: Record<string, { label: string; days: number; bucket: SnapshotBucket }> = {
+  week: { label: "Last 7 days", days: 7, bucket: "hour" },
+  month: { label: "Last 30 days", days: 30, bucket: "day" },
+  quarter: { label: "Last 12 weeks", days: 84, bucket: "week" },
+};
+
+const tierColors: Record<SlaTierColor, string> = {
+  emerald: "#10b981",
+  yellow: "#eab308",
+  orange: "#f97316",
+  red: "#ef4444",
+};
+
+export default function ChatTrends({
+  chatType,
+  timeZone = DEFAULT_TIMEZONE,
+  account = "",
+  slaConfig = DEFAULT_SLA_CONFIG,
+}: ChatTrendsProps) {
+  const [range, setRange] = useState("month");
+  const [series, setSeries] = useState<SnapshotPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Scoped users cannot see account-wide snapshots
+  const [hidden, setHidden] = useState(false);
+
+  useEffect(() => {
+    fetchSnapshots();
+  }, [chatType, range, timeZone, account]);
+
+  async function fetchSnapshots() {
+    setLoading(true);
+    try {
+      const { days, bucket } = ranges[range];
+      const end = new Date();
+      const params = new URLSearchParams({
+        startTime: new Date(end.getTime() - days * 24 * 60 * 60 * 1000).toISOString(),
+        endTime: end.toISOString(),
+        bucket,
+        tz: timeZone,
+      });
+      if (chatType) {
+        params.append("chatType", chatType === "all" ? CHAT_TYPES.join(",") : chatType);
+      }
+      if (account) params.append("account", account);
+
+      const res = await authFetch(`/api/chat-analytics/snapshots?${params.toString()}`);
+      if (res.status === 403) {
+        setHidden(true);
+        return;
+      }
+      if (!res.ok) throw new Error(`API ${res.status}`);
+
+      const data = await res.json();
+      setSeries(data.series);
+    } catch (error) {
+      console.error("Error fetching chat snapshots:", error);
+      setSeries([]);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (hidden) return null;
+
+  const bucket = ranges[range].bucket;
+  const formatTick = (at: string) =>
+    formatInTimeZone(
+      at,
+      timeZone,
+      bucket === "hour"
+        ? { month: "short", day: "numeric", hour: "2-digit" }
+        : { month: "short", day: "numeric" }
+    );
+
+  // Tiers of the catch-all policy first, then any other policy's tiers seen
+  const tiers = fallbackSlaPolicy(slaConfig).tiers.map((tier) => ({
+    id: tier.id,
+    label: tier.label,
+    color: tierColors[tier.color],
+  }));
+  new Set(series.flatMap((point) => Object.keys(point.urgencyCounts))).forEach((id) => {
+    if (!tiers.some((tier) => tier.id === id)) {
+      tiers.push({ id, label: id, color: "#9ca3af" });
+    }
+  });
+
+  const chartData = series.map((point) => ({
+    ...point,
+    ...Object.fromEntries(tiers.map((tier) => [`tier:${tier.id}`, point.urgencyCounts[tier.id] ?? 0])),
+  }));
+
+  const chart = (title: string, lines: { key: string; name: string; color: string }[]) => (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">{title}</h4>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="at" tickFormatter={formatTick} tick={{ fontSize: 12 }} minTickGap={24} />
+            <YAxis tick={{ fontSize: 12 }} />
+            <Tooltip labelFormatter={(at) => formatTick(String(at))} />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            {lines.map((line) => (
+              <Line
+                key={line.key}
+                type="monotone"
+                dataKey={line.key}
+                name={line.name}
+                stroke={line.color}
+                strokeWidth={2}
+                dot={chartData.length < 2}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border overflow-hidden">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <LineChartIcon className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+          <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100">Backlog Trends</h3>
+        </div>
+        <select
+          value={range}
+          onChange={(e) => setRange(e.target.value)}
+          className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+        >
+          {Object.entries(ranges).map(([value, { label }]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="p-6">
+        {loading ? (
+          <div className="animate-pulse grid grid-cols-1 xl:grid-cols-2 gap-8">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <div key={i} className="h-64 bg-gray-200 dark:bg-gray-700 rounded-lg" />
+            ))}
+          </div>
+        ) : series.length === 0 ? (
+          <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+            No snapshots in this period. They are recorded every
+            CHAT_SNAPSHOT_INTERVAL_MINUTES or by POST /api/chat-analytics/snapshots/run.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+            {chart("Open chats", [
+              { key: "totalOpenChats", name: "Open", color: "#3b82f6" },
+              { key: "chatsWithDelayedResponse", name: "Overdue", color: "#ef4444" },
+            ])}
+            {chart(
+              "Overdue by urgency",
+              tiers.map((tier) => ({ key: `tier:${tier.id}`, name: tier.label, color: tier.color }))
+            )}
+            {chart("Age (hours)", [
+              { key: "averageAgeInHours", name: "Average", color: "#8b5cf6" },
+              { key: "maxAgeInHours", name: "Oldest", color: "#6b7280" },
+            ])}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 "use client";
 
 import React from "react";
+import { DEFAULT_TIMEZONE, formatZonedDate } from "@/app/lib/timezone";
 
 interface DateRangePickerProps {
   startDate: string;
@@ -9,6 +10,8 @@ interface DateRangePickerProps {
   onStartDateChange: (date: string) => void;
   onEndDateChange: (date: string) => void;
   isVisible: boolean;
+  // "Today" is taken in this zone when clamping the end date
+  timeZone?: string;
 }
 
 const DateRangePicker: React.FC<DateRangePickerProps> = ({
@@ -17,6 +20,7 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({
   onStartDateChange,
   onEndDateChange,
   isVisible,
+  timeZone = DEFAULT_TIMEZONE,
 }) => {
   if (!isVisible) return null;
 
@@ -56,7 +60,7 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({
         <button
           className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-md text-sm font-medium transition-colors"
           onClick={() => {
-            const today = new Date();
+            const today = formatZonedDate(new Date(), timeZone);
             const startDateObj = new Date(startDate);
             const endDateObj = new Date(endDate);
 
@@ -64,9 +68,9 @@ const DateRangePicker: React.FC<DateRangePickerProps> = ({
               // If start date is after end date, swap them
               onStartDateChange(endDate);
               onEndDateChange(startDate);
-            } else if (endDateObj > today) {
+            } else if (endDate > today) {
               // If end date is in the future, set it to today
-              onEndDateChange(today.toISOString().split("T")[0]);
+              onEndDateChange(today);
             }
           }}
         >
@@ -0,0 +1,56 @@
+// app/components/export-buttons.tsx
+"use client";
+
+import React, { useState } from "react";
+import { Download } from "lucide-react";
+import type { ExportFormat } from "@/app/lib/export";
+
+const formatLabels: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel",
+};
+
+interface ExportButtonsProps {
+  // Starts the download; a rejection is shown next to the buttons
+  onExport: (format: ExportFormat) => Promise<void>;
+  disabled?: boolean;
+}
+
+const ExportButtons: React.FC<ExportButtonsProps> = ({ onExport, disabled = false }) => {
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleExport(format: ExportFormat) {
+    setBusy(format);
+    setError(null);
+    try {
+      await onExport(format);
+    } catch (err) {
+      console.error("Export failed:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {(["csv", "xlsx"] as ExportFormat[]).map((format) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          disabled={disabled || busy !== null}
+          className="flex items-center gap-1 px-3 py-2 text-sm font-medium rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download className={`h-4 w-4 ${busy === format ? "animate-pulse" : ""}`} />
+          {formatLabels[format]}
+        </button>
+      ))}
+      {error && (
+        <span className="text-xs text-red-600 dark:text-red-400">Export failed: {error}</span>
+      )}
+    </div>
+  );
+};
+
+export default ExportButtons;
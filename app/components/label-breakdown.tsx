@@ -0,0 +1,76 @@
+// app/components/label-breakdown.tsx
+"use client";
+
+import React from "react";
+import type { LabelTotals } from "@/app/lib/chat-labels";
+import { formatDuration } from "@/app/lib/utils";
+
+interface LabelBreakdownProps {
+  totals: LabelTotals[];
+  // Narrows the chat lists to one label's queue
+  onSelect?: (labelId: string) => void;
+}
+
+// Open and overdue chats and their average age per label
+const LabelBreakdown: React.FC<LabelBreakdownProps> = ({ totals, onSelect }) => {
+  if (totals.length === 0) return null;
+  const max = Math.max(1, ...totals.map((row) => row.open));
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Open Chats by Label</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Chats with several labels count towards each
+          {onSelect ? "; pick a label to show only its chats" : ""}
+        </p>
+      </div>
+
+      <div className="overflow-x-auto max-h-96">
+        <table className="w-full text-sm text-gray-700 dark:text-gray-300">
+          <thead>
+            <tr className="text-xs text-left text-gray-500 dark:text-gray-400">
+              <th className="p-2 font-medium">Label</th>
+              <th className="p-2 font-medium text-right">Open</th>
+              <th className="p-2 font-medium text-right">Overdue</th>
+              <th className="p-2 font-medium text-right">Avg age</th>
+            </tr>
+          </thead>
+          <tbody>
+            {totals.map((row) => (
+              <tr key={row.labelId} className="border-t border-gray-100 dark:border-gray-700">
+                <td className="p-2">
+                  {onSelect ? (
+                    <button
+                      onClick={() => onSelect(row.labelId)}
+                      className="font-medium text-left hover:underline"
+                    >
+                      {row.name}
+                    </button>
+                  ) : (
+                    <div className="font-medium">{row.name}</div>
+                  )}
+                  <div className="mt-1 h-1.5 rounded-full bg-gray-100 dark:bg-gray-700">
+                    <div
+                      className="h-1.5 rounded-full bg-blue-500"
+                      style={{ width: `${(row.open / max) * 100}%` }}
+                    />
+                  </div>
+                </td>
+                <td className="p-2 text-right">{row.open.toLocaleString()}</td>
+                <td
+                  className={`p-2 text-right ${row.overdue > 0 ? "text-red-600 dark:text-red-400 font-medium" : ""}`}
+                >
+                  {row.overdue.toLocaleString()}
+                </td>
+                <td className="p-2 text-right">{formatDuration(row.averageAgeInHours * 60 * 60 * 1000)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default LabelBreakdown;
@@ -0,0 +1,92 @@
+// app/components/label-filter.tsx
+"use client";
+
+import React from "react";
+import { X } from "lucide-react";
+import { NO_LABEL, type LabelOption } from "@/app/lib/chat-labels";
+
+interface LabelFilterProps {
+  // Labels found on the account's chats (/api/chat-analytics/labels)
+  labels: LabelOption[];
+  include: string[];
+  exclude: string[];
+  onChange: (include: string[], exclude: string[]) => void;
+}
+
+// Picks labels to show and labels to hide. Chats must carry one of the shown
+// labels and none of the hidden ones; clicking a chip flips it.
+const LabelFilter: React.FC<LabelFilterProps> = ({ labels, include, exclude, onChange }) => {
+  const nameOf = (id: string) =>
+    id === NO_LABEL ? "No label" : labels.find((label) => label.id === id)?.name ?? id;
+  const available = labels.filter((label) => !include.includes(label.id) && !exclude.includes(label.id));
+
+  const without = (ids: string[], id: string) => ids.filter((other) => other !== id);
+  const flip = (id: string) =>
+    include.includes(id)
+      ? onChange(without(include, id), [...exclude, id])
+      : onChange([...include, id], without(exclude, id));
+
+  if (labels.length === 0 && include.length === 0 && exclude.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value=""
+        onChange={(e) => {
+          const value = e.target.value;
+          const id = value.slice(value.indexOf(":") + 1);
+          if (value.startsWith("include:")) onChange([...include, id], exclude);
+          else onChange(include, [...exclude, id]);
+        }}
+        className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+      >
+        <option value="">Labels…</option>
+        <optgroup label="Only chats with">
+          {available.map((label) => (
+            <option key={label.id} value={`include:${label.id}`}>
+              {label.name} ({label.chats})
+            </option>
+          ))}
+          {!include.includes(NO_LABEL) && !exclude.includes(NO_LABEL) && (
+            <option value={`include:${NO_LABEL}`}>No label</option>
+          )}
+        </optgroup>
+        <optgroup label="Hide chats with">
+          {available.map((label) => (
+            <option key={label.id} value={`exclude:${label.id}`}>
+              {label.name} ({label.chats})
+            </option>
+          ))}
+        </optgroup>
+      </select>
+      {include.map((id) => (
+        <span
+          key={`include:${id}`}
+          className="inline-flex items-center gap-1 rounded-full bg-blue-100 px-3 py-1 text-xs font-medium text-blue-800 dark:bg-blue-800/30 dark:text-blue-200"
+        >
+          <button onClick={() => flip(id)} title="Hide these chats instead">
+            {nameOf(id)}
+          </button>
+          <button onClick={() => onChange(without(include, id), exclude)} aria-label={`Remove ${nameOf(id)}`}>
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      {exclude.map((id) => (
+        <span
+          key={`exclude:${id}`}
+          className="inline-flex items-center gap-1 rounded-full bg-red-100 px-3 py-1 text-xs font-medium text-red-800 dark:bg-red-800/30 dark:text-red-200"
+        >
+          <button onClick={() => flip(id)} title="Only show these chats instead">
+            {id === NO_LABEL ? "Any label" : `not ${nameOf(id)}`}
+          </button>
+          <button onClick={() => onChange(include, without(exclude, id))} aria-label={`Remove ${nameOf(id)}`}>
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default LabelFilter;
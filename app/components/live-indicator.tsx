@@ -0,0 +1,36 @@
+// app/components/live-indicator.tsx
+"use client";
+
+import React from "react";
+import type { LiveStatus } from "../lib/use-live-events";
+
+interface LiveIndicatorProps {
+  status: LiveStatus;
+  onToggle: () => void;
+}
+
+const statusStyles: Record<LiveStatus, { dot: string; label: string; text: string }> = {
+  live: { dot: "bg-green-500 animate-pulse", label: "Live", text: "text-green-700 dark:text-green-300" },
+  paused: { dot: "bg-gray-400", label: "Paused", text: "text-gray-600 dark:text-gray-400" },
+  connecting: { dot: "bg-yellow-400", label: "Connecting…", text: "text-yellow-700 dark:text-yellow-300" },
+  reconnecting: { dot: "bg-yellow-400 animate-pulse", label: "Reconnecting…", text: "text-yellow-700 dark:text-yellow-300" },
+};
+
+// Live-update status; clicking pauses or resumes the stream
+const LiveIndicator: React.FC<LiveIndicatorProps> = ({ status, onToggle }) => {
+  const style = statusStyles[status];
+
+  return (
+    <button
+      onClick={onToggle}
+      title={status === "paused" ? "Resume live updates" : "Pause live updates"}
+      className="inline-flex items-center gap-2 rounded-full border border-gray-200 bg-white px-3 py-1 text-xs font-medium shadow-sm hover:bg-gray-50 dark:border-gray-700 dark:bg-gray-800 dark:hover:bg-gray-700"
+    >
+      <span className={`h-2 w-2 rounded-full ${style.dot}`} />
+      <span className={style.text}>{style.label}</span>
+      <span className="text-gray-400">{status === "paused" ? "Resume" : "Pause"}</span>
+    </button>
+  );
+};
+
+export default LiveIndicator;
@@ -9,7 +9,7 @@ import {
   calculateAveragePerDay,
   getDateRange,
 } from "@/app/lib/utils";
-import { Message } from "@/app/lib/periskope";
+import type { Message } from "@/app/lib/types/periskope";
 
 interface MessageStatsProps {
   totalMessages: number;
@@ -0,0 +1,153 @@
+// app/components/number-breakdown.tsx
+"use client";
+
+import React from "react";
+import { findMaxValue, formatDuration, getColorIntensity } from "@/app/lib/utils";
+import { agentDisplayName, type AgentRoster } from "@/app/lib/agent-roster";
+import type {
+  HeatmapMatrix,
+  HeatmapView,
+  MessageSummary,
+  NumberBreakdown as NumberRow,
+} from "@/app/lib/message-aggregates";
+
+const DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+const HOURS = Array.from({ length: 24 }, (_, i) => i);
+
+interface NumberBreakdownProps {
+  // Combined totals; numbers sharing a chat count it once here
+  summary: MessageSummary;
+  numbers: NumberRow[];
+  view: HeatmapView;
+  viewLabel: string;
+  roster?: AgentRoster | null;
+}
+
+// Compact day×hour grid; every number is drawn against the same maximum so
+// the small multiples compare at a glance
+const MiniHeatMap: React.FC<{ data: HeatmapMatrix; maxValue: number }> = ({
+  data,
+  maxValue,
+}) => (
+  <div className="grid gap-px" style={{ gridTemplateColumns: "2rem repeat(24, minmax(0, 1fr))" }}>
+    {DAYS.map((day) => (
+      <React.Fragment key={day}>
+        <div className="text-[10px] leading-3 text-gray-500 dark:text-gray-400">
+          {day.slice(0, 3)}
+        </div>
+        {HOURS.map((hour) => {
+          const count = data[day]?.[hour.toString()] ?? 0;
+          return (
+            <div
+              key={`${day}-${hour}`}
+              className="h-3"
+              style={{ backgroundColor: getColorIntensity(count, maxValue) }}
+              title={`${day} ${hour}:00 — ${count} messages`}
+            />
+          );
+        })}
+      </React.Fragment>
+    ))}
+  </div>
+);
+
+const NumberBreakdown: React.FC<NumberBreakdownProps> = ({
+  summary,
+  numbers,
+  view,
+  viewLabel,
+  roster,
+}) => {
+  const maxValue = Math.max(0, ...numbers.map((n) => findMaxValue(n.heatmaps[view])));
+  const sharedChats = numbers.reduce((sum, n) => sum + n.sharedChatCount, 0);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-xl font-semibold text-gray-800 dark:text-gray-200">
+          Per-Number Breakdown
+        </h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {sharedChats > 0
+            ? `${sharedChats} shared chat(s) are counted under each number but once in the combined totals`
+            : "No chats are shared between these numbers"}
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-gray-700 dark:text-gray-300">
+          <thead>
+            <tr className="text-xs text-left text-gray-500 dark:text-gray-400">
+              <th className="p-2 font-medium">Number</th>
+              <th className="p-2 font-medium text-right">Chats</th>
+              <th className="p-2 font-medium text-right">Messages</th>
+              <th className="p-2 font-medium text-right">Agent</th>
+              <th className="p-2 font-medium text-right">Customer</th>
+              <th className="p-2 font-medium text-right">Avg/Day</th>
+              <th className="p-2 font-medium text-right">Median Reply</th>
+            </tr>
+          </thead>
+          <tbody>
+            {numbers.map((n) => (
+              <tr key={n.orgPhone} className="border-t border-gray-100 dark:border-gray-700">
+                <td className="p-2">
+                  <div className="font-medium">{agentDisplayName(roster, n.orgPhone)}</div>
+                  <div className="text-xs font-mono text-gray-500 dark:text-gray-400">
+                    {n.orgPhone}
+                  </div>
+                </td>
+                <td className="p-2 text-right">
+                  {n.chatCount.toLocaleString()}
+                  {n.sharedChatCount > 0 && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {" "}({n.sharedChatCount} shared)
+                    </span>
+                  )}
+                </td>
+                <td className="p-2 text-right">{n.totalCount.toLocaleString()}</td>
+                <td className="p-2 text-right">{n.agentCount.toLocaleString()}</td>
+                <td className="p-2 text-right">{n.customerCount.toLocaleString()}</td>
+                <td className="p-2 text-right">{n.averagePerDay.toLocaleString()}</td>
+                <td className="p-2 text-right">{formatDuration(n.medianReplyMs)}</td>
+              </tr>
+            ))}
+            <tr className="border-t-2 border-gray-200 dark:border-gray-600 font-semibold">
+              <td className="p-2">Combined</td>
+              <td className="p-2 text-right">
+                {numbers
+                  .reduce((sum, n) => sum + n.chatCount - n.sharedChatCount, 0)
+                  .toLocaleString()}
+              </td>
+              <td className="p-2 text-right">{summary.totalCount.toLocaleString()}</td>
+              <td className="p-2 text-right">{summary.agentCount.toLocaleString()}</td>
+              <td className="p-2 text-right">{summary.customerCount.toLocaleString()}</td>
+              <td className="p-2 text-right">{summary.averagePerDay.toLocaleString()}</td>
+              <td className="p-2 text-right">
+                {formatDuration(summary.replyDistribution.absolute.median)}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+          {viewLabel} by Day & Hour, per Number
+        </h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {numbers.map((n) => (
+            <div key={n.orgPhone} className="space-y-2">
+              <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400">
+                <span className="font-medium">{agentDisplayName(roster, n.orgPhone)}</span>
+                <span>{n.totalCount.toLocaleString()} messages</span>
+              </div>
+              <MiniHeatMap data={n.heatmaps[view]} maxValue={maxValue} />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NumberBreakdown;
@@ -0,0 +1,87 @@
+// app/components/property-breakdown.tsx
+"use client";
+
+import React, { useState } from "react";
+import type { PropertyTotals } from "@/app/lib/custom-properties";
+
+interface PropertyBreakdownProps<T extends Record<string, number>> {
+  title: string;
+  totals: PropertyTotals<T>[];
+  // Columns to show; the first also draws the share bar
+  columns: { key: keyof T & string; label: string }[];
+  note?: string;
+}
+
+// Totals per value of one custom property at a time
+function PropertyBreakdown<T extends Record<string, number>>({
+  title,
+  totals,
+  columns,
+  note,
+}: PropertyBreakdownProps<T>) {
+  const [propertyId, setPropertyId] = useState("");
+  if (totals.length === 0) return null;
+
+  const property = totals.find((t) => t.id === propertyId) ?? totals[0];
+  const [first] = columns;
+  const max = Math.max(1, ...property.values.map((row) => row[first.key] as number));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-800 dark:text-gray-200">{title}</h3>
+          {note && <p className="text-xs text-gray-500 dark:text-gray-400">{note}</p>}
+        </div>
+        <select
+          value={property.id}
+          onChange={(e) => setPropertyId(e.target.value)}
+          className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+        >
+          {totals.map((t) => (
+            <option key={t.id} value={t.id}>
+              By {t.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="overflow-x-auto max-h-96">
+        <table className="w-full text-sm text-gray-700 dark:text-gray-300">
+          <thead>
+            <tr className="text-xs text-left text-gray-500 dark:text-gray-400">
+              <th className="p-2 font-medium">{property.label}</th>
+              {columns.map((column) => (
+                <th key={column.key} className="p-2 font-medium text-right">
+                  {column.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {property.values.map((row) => (
+              <tr key={row.value} className="border-t border-gray-100 dark:border-gray-700">
+                <td className="p-2">
+                  <div className="font-medium">{row.value}</div>
+                  <div className="mt-1 h-1.5 rounded-full bg-gray-100 dark:bg-gray-700">
+                    <div
+                      className="h-1.5 rounded-full bg-blue-500"
+                      style={{ width: `${((row[first.key] as number) / max) * 100}%` }}
+                    />
+                  </div>
+                </td>
+                {columns.map((column) => (
+                  <td key={column.key} className="p-2 text-right">
+                    {(row[column.key] as number).toLocaleString()}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default PropertyBreakdown;
@@ -0,0 +1,86 @@
+// app/components/property-filters.tsx
+"use client";
+
+import React from "react";
+import { X } from "lucide-react";
+import type { PropertyFacet, PropertyFilter } from "@/app/lib/custom-properties";
+
+interface PropertyFiltersProps {
+  // Properties found on the account's chats (/api/chat-analytics/properties)
+  facets: PropertyFacet[];
+  filters: PropertyFilter[];
+  onChange: (filters: PropertyFilter[]) => void;
+}
+
+// One picker per custom property; picking a value adds it to that property's
+// filter. Values of one property are alternatives, properties all apply.
+const PropertyFilters: React.FC<PropertyFiltersProps> = ({ facets, filters, onChange }) => {
+  const selected = (id: string) => filters.find((filter) => filter.id === id)?.values ?? [];
+
+  const setValues = (id: string, values: string[]) => {
+    const rest = filters.filter((filter) => filter.id !== id);
+    onChange(values.length ? [...rest, { id, values }] : rest);
+  };
+
+  const labelOf = (id: string) => facets.find((facet) => facet.id === id)?.label ?? id;
+
+  if (facets.length === 0 && filters.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Properties</span>
+        {facets.map((facet) => (
+          <select
+            key={facet.id}
+            value=""
+            onChange={(e) => setValues(facet.id, [...selected(facet.id), e.target.value])}
+            className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          >
+            <option value="">{facet.label}…</option>
+            {facet.values
+              .filter(({ value }) => !selected(facet.id).includes(value))
+              .map(({ value, chats }) => (
+                <option key={value} value={value}>
+                  {value} ({chats})
+                </option>
+              ))}
+            {facet.moreValues > 0 && (
+              <option disabled>{facet.moreValues} rarer values not listed</option>
+            )}
+          </select>
+        ))}
+        {filters.length > 0 && (
+          <button
+            onClick={() => onChange([])}
+            className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      {filters.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {filters.flatMap((filter) =>
+            filter.values.map((value) => (
+              <span
+                key={`${filter.id}:${value}`}
+                className="inline-flex items-center gap-1 rounded-full bg-blue-100 px-3 py-1 text-xs font-medium text-blue-800 dark:bg-blue-800/30 dark:text-blue-200"
+              >
+                {labelOf(filter.id)}: {value}
+                <button
+                  onClick={() => setValues(filter.id, filter.values.filter((v) => v !== value))}
+                  aria-label={`Remove ${labelOf(filter.id)}: ${value}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PropertyFilters;
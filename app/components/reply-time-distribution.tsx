@@ -0,0 +1,139 @@
+// app/components/reply-time-distribution.tsx
+"use client";
+
+import React, { useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { formatDuration } from "@/app/lib/utils";
+import type { ReplyDistribution } from "@/app/lib/reply-times";
+
+type Basis = "absolute" | "business";
+
+const basisLabels: Record<Basis, string> = {
+  absolute: "Absolute",
+  business: "Business Hours",
+};
+
+interface ReplyTimeDistributionProps {
+  distribution: ReplyDistribution;
+  businessCalendar?: string;
+}
+
+const ReplyTimeDistribution: React.FC<ReplyTimeDistributionProps> = ({
+  distribution,
+  businessCalendar,
+}) => {
+  const [basis, setBasis] = useState<Basis>("absolute");
+
+  if (distribution.count === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+        No replies in the selected period.
+      </div>
+    );
+  }
+
+  const stats = distribution[basis];
+  const chartData = distribution.histogram.map((bucket) => ({
+    label: bucket.label,
+    replies: bucket[basis],
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-800 dark:text-gray-200">
+            Reply Time Distribution
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {distribution.count.toLocaleString()} replies
+            {basis === "business" && businessCalendar && ` • ${businessCalendar}`}
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          {(["absolute", "business"] as Basis[]).map((b) => (
+            <button
+              key={b}
+              onClick={() => setBasis(b)}
+              className={`px-4 py-2 rounded-full text-sm font-medium ${
+                basis === b
+                  ? "bg-blue-500 text-white"
+                  : "bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200"
+              }`}
+            >
+              {basisLabels[b]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* percentiles */}
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-4">
+        {(
+          [
+            ["Median", stats.median],
+            ["P75", stats.p75],
+            ["P90", stats.p90],
+            ["P95", stats.p95],
+            ["Max", stats.max],
+          ] as const
+        ).map(([label, ms]) => (
+          <div
+            key={label}
+            className="rounded-lg bg-gray-50 dark:bg-gray-700 p-4 text-center"
+          >
+            <p className="text-xs font-medium text-gray-500 dark:text-gray-400">
+              {label}
+            </p>
+            <p className="mt-1 text-xl font-bold text-gray-900 dark:text-gray-100">
+              {formatDuration(ms)}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* targets */}
+      {distribution.targets.length > 0 && (
+        <div className="flex flex-wrap gap-4">
+          {distribution.targets.map((target) => (
+            <div key={target.label} className="flex-1 min-w-[160px]">
+              <div className="flex justify-between text-xs text-gray-600 dark:text-gray-300 mb-1">
+                <span>Within {target.label}</span>
+                <span className="font-semibold">{Math.round(target.share * 100)}%</span>
+              </div>
+              <div className="h-2 w-full bg-gray-200 dark:bg-gray-700 rounded">
+                <div
+                  className="h-2 bg-blue-500 rounded"
+                  style={{ width: `${Math.round(target.share * 100)}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* histogram */}
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+            <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+            <Tooltip />
+            <Bar dataKey="replies" name="Replies" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default ReplyTimeDistribution;
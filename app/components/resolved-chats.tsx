@@ -0,0 +1,233 @@
+// app/components/resolved-chats.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { CheckCircle2, ChevronDown, ChevronUp } from "lucide-react";
+import { formatDuration, getDateRange } from "@/app/lib/utils";
+import { DEFAULT_TIMEZONE, formatInTimeZone } from "@/app/lib/timezone";
+import type {
+  ResolutionReport,
+  ResolutionStats,
+} from "@/app/lib/resolution-analytics";
+import { agentDisplayName, type AgentRoster } from "@/app/lib/agent-roster";
+import { authFetch } from "@/app/lib/auth-client";
+import { appendPropertyFilters, type PropertyFilter } from "@/app/lib/custom-properties";
+
+const periodLabels: Record<string, string> = {
+  last7days: "Last 7 Days",
+  lastMonth: "Last 30 Days",
+  last3months: "Last 90 Days",
+};
+
+const NO_PROPERTY_FILTERS: PropertyFilter[] = [];
+const NO_LABELS: string[] = [];
+
+interface ResolvedChatsProps {
+  orgPhone: string;
+  properties?: PropertyFilter[];
+  // Label ids chats must carry one of, and must carry none of
+  labels?: string[];
+  excludeLabels?: string[];
+  timeZone?: string;
+  roster?: AgentRoster | null;
+  account?: string;
+}
+
+const StatsRow = ({ label, stats }: { label: string; stats: ResolutionStats }) => (
+  <tr className="border-t border-gray-100 dark:border-gray-700">
+    <td className="py-2 pr-4 font-medium text-gray-900 dark:text-gray-100 truncate max-w-[200px]">
+      {label}
+    </td>
+    <td className="py-2 pr-4 text-right">{stats.count}</td>
+    <td className="py-2 pr-4 text-right">{formatDuration(stats.medianFirstResponseMs)}</td>
+    <td className="py-2 pr-4 text-right">{formatDuration(stats.medianTimeToCloseMs)}</td>
+    <td className="py-2 text-right">{stats.avgExchanges.toFixed(1)}</td>
+  </tr>
+);
+
+const StatsTable = ({
+  title,
+  rows,
+}: {
+  title: string;
+  rows: { label: string; stats: ResolutionStats }[];
+}) => (
+  <div>
+    <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">{title}</h4>
+    <table className="w-full text-sm text-gray-700 dark:text-gray-300">
+      <thead>
+        <tr className="text-xs text-gray-500 dark:text-gray-400">
+          <th className="pb-2 pr-4 text-left font-medium"></th>
+          <th className="pb-2 pr-4 text-right font-medium">Resolved</th>
+          <th className="pb-2 pr-4 text-right font-medium">Median first response</th>
+          <th className="pb-2 pr-4 text-right font-medium">Median time to close</th>
+          <th className="pb-2 text-right font-medium">Avg exchanges</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <StatsRow key={row.label} label={row.label} stats={row.stats} />
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default function ResolvedChats({
+  orgPhone,
+  properties = NO_PROPERTY_FILTERS,
+  labels = NO_LABELS,
+  excludeLabels = NO_LABELS,
+  timeZone = DEFAULT_TIMEZONE,
+  roster = null,
+  account = "",
+}: ResolvedChatsProps) {
+  const [period, setPeriod] = useState("lastMonth");
+  const [report, setReport] = useState<ResolutionReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    fetchResolution();
+  }, [orgPhone, properties, labels, excludeLabels, period, timeZone, account]);
+
+  async function fetchResolution() {
+    setLoading(true);
+    try {
+      const { startDate, endDate } = getDateRange(period, timeZone);
+      const params = new URLSearchParams({
+        startTime: startDate.toISOString(),
+        endTime: endDate.toISOString(),
+        tz: timeZone,
+      });
+      if (orgPhone.trim()) params.append("orgPhone", orgPhone.trim());
+      if (account) params.append("account", account);
+      appendPropertyFilters(params, properties);
+      if (labels.length) params.append("label", labels.join(","));
+      if (excludeLabels.length) params.append("excludeLabel", excludeLabels.join(","));
+
+      const res = await authFetch(`/api/chat-analytics/resolution?${params.toString()}`);
+      if (!res.ok) throw new Error(`API ${res.status}`);
+
+      const data = await res.json();
+      setReport(data.resolution);
+    } catch (error) {
+      console.error("Error fetching resolution metrics:", error);
+      setReport(null);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border overflow-hidden">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <CheckCircle2 className="h-5 w-5 text-green-600 dark:text-green-400" />
+          <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100">
+            Resolved Chats
+          </h3>
+          {report && (
+            <span className="inline-flex items-center rounded-full bg-green-100 px-3 py-1 text-sm font-medium text-green-800 dark:bg-green-800/30 dark:text-green-200">
+              {report.overall.count}
+            </span>
+          )}
+        </div>
+        <select
+          value={period}
+          onChange={(e) => setPeriod(e.target.value)}
+          className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+        >
+          {Object.entries(periodLabels).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {loading ? (
+          <div className="animate-pulse grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <div key={i} className="h-20 bg-gray-200 dark:bg-gray-700 rounded-lg" />
+            ))}
+          </div>
+        ) : !report || report.overall.count === 0 ? (
+          <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+            No chats were closed in this period
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {[
+                ["Resolved", report.overall.count.toLocaleString()],
+                ["Median First Response", formatDuration(report.overall.medianFirstResponseMs)],
+                ["Median Time to Close", formatDuration(report.overall.medianTimeToCloseMs)],
+                ["Avg Exchanges", report.overall.avgExchanges.toFixed(1)],
+              ].map(([label, value]) => (
+                <div key={label} className="rounded-lg bg-gray-50 dark:bg-gray-700 p-4 text-center">
+                  <p className="text-xs font-medium text-gray-500 dark:text-gray-400">{label}</p>
+                  <p className="mt-1 text-2xl font-bold text-gray-900 dark:text-gray-100">{value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-8 overflow-x-auto">
+              <StatsTable
+                title="By Agent"
+                rows={report.byAgent.map(({ agent, ...stats }) => ({
+                  label: agentDisplayName(roster, agent),
+                  stats,
+                }))}
+              />
+              <StatsTable
+                title="By Chat Type"
+                rows={report.byChatType.map(({ chatType, ...stats }) => ({
+                  label: chatType,
+                  stats,
+                }))}
+              />
+            </div>
+
+            <button
+              onClick={() => setExpanded(!expanded)}
+              className="flex items-center gap-2 text-sm font-medium text-blue-600 dark:text-blue-400"
+            >
+              {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              {expanded ? "Hide" : "Show"} resolved conversations
+            </button>
+
+            {expanded && (
+              <div className="space-y-3 max-h-96 overflow-y-auto">
+                {report.chats.map((chat) => (
+                  <div
+                    key={`${chat.chatId}-${chat.closedAt}`}
+                    className="rounded-lg border-l-4 border-l-green-500 bg-gray-50 dark:bg-gray-700/50 p-4 text-sm"
+                  >
+                    <div className="flex justify-between gap-4">
+                      <span className="font-semibold text-gray-900 dark:text-gray-100 truncate">
+                        {chat.chatName}
+                      </span>
+                      <span className="text-gray-500 dark:text-gray-400 shrink-0">
+                        closed {formatInTimeZone(chat.closedAt, timeZone)}
+                      </span>
+                    </div>
+                    <div className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                      {agentDisplayName(roster, chat.agent)} • {chat.chatType} • first response{" "}
+                      {chat.timeToFirstResponseMs === null
+                        ? "none"
+                        : formatDuration(chat.timeToFirstResponseMs)}{" "}
+                      • closed after {formatDuration(chat.timeToCloseMs)} •{" "}
+                      {chat.exchanges} exchanges
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
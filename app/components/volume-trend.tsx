@@ -0,0 +1,124 @@
+// app/components/volume-trend.tsx
+"use client";
+
+import React, { useState } from "react";
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  groupVolume,
+  ROLLING_WINDOWS,
+  VOLUME_GRANULARITIES,
+  withRollingAverage,
+  type VolumeGranularity,
+  type VolumePoint,
+} from "@/app/lib/message-volume";
+
+const granularityLabels: Record<VolumeGranularity, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+};
+
+const rollingLabels: Record<VolumeGranularity, string> = {
+  day: "7-day average",
+  week: "4-week average",
+  month: "3-month average",
+};
+
+interface VolumeTrendProps {
+  // Messages per day, from the summary's include=volume
+  daily: VolumePoint[];
+  title: string;
+}
+
+// Periods are calendar dates in the query's timezone, so they are formatted
+// as UTC dates
+function formatPeriod(period: string, granularity: VolumeGranularity): string {
+  return new Date(`${period}T00:00:00Z`).toLocaleDateString(undefined, {
+    timeZone: "UTC",
+    ...(granularity === "month"
+      ? { month: "short", year: "numeric" }
+      : { month: "short", day: "numeric" }),
+  });
+}
+
+const VolumeTrend: React.FC<VolumeTrendProps> = ({ daily, title }) => {
+  const [granularity, setGranularity] = useState<VolumeGranularity>("day");
+
+  const chartData = withRollingAverage(
+    groupVolume(daily, granularity),
+    ROLLING_WINDOWS[granularity]
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-800 dark:text-gray-200">{title}</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Weeks start on Monday; the first and last period may be partial
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          {VOLUME_GRANULARITIES.map((g) => (
+            <button
+              key={g}
+              onClick={() => setGranularity(g)}
+              className={`px-4 py-2 rounded-full text-sm font-medium ${
+                granularity === g
+                  ? "bg-blue-500 text-white"
+                  : "bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200"
+              }`}
+            >
+              {granularityLabels[g]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis
+              dataKey="period"
+              tickFormatter={(period) => formatPeriod(period, granularity)}
+              tick={{ fontSize: 12 }}
+              minTickGap={16}
+            />
+            <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+            <Tooltip labelFormatter={(period) => formatPeriod(String(period), granularity)} />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <Bar dataKey="agent" name="Agent Sent" stackId="volume" fill="#3b82f6" />
+            <Bar
+              dataKey="customer"
+              name="Customer Received"
+              stackId="volume"
+              fill="#10b981"
+              radius={[4, 4, 0, 0]}
+            />
+            <Line
+              type="monotone"
+              dataKey="rollingAverage"
+              name={rollingLabels[granularity]}
+              stroke="#f97316"
+              strokeWidth={2}
+              dot={false}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default VolumeTrend;
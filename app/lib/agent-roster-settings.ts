@@ -0,0 +1,21 @@
+// app/lib/agent-roster-settings.ts
+import { DEFAULT_AGENT_ROSTER, type AgentRoster } from "./agent-roster";
+import { getSettingsStore } from "./settings-store";
+
+const SETTINGS_KEY = "agentRoster";
+
+// The saved roster, or the default four numbers when nothing has been saved
+// or the settings store cannot be reached
+export async function getAgentRoster(): Promise<AgentRoster> {
+  try {
+    const saved = await getSettingsStore().get<AgentRoster>(SETTINGS_KEY);
+    return saved ?? DEFAULT_AGENT_ROSTER;
+  } catch (error) {
+    console.error("[agent-roster] failed to load roster, using default:", error);
+    return DEFAULT_AGENT_ROSTER;
+  }
+}
+
+export async function saveAgentRoster(roster: AgentRoster): Promise<void> {
+  await getSettingsStore().set(SETTINGS_KEY, roster);
+}
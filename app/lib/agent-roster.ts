@@ -0,0 +1,157 @@
+// app/lib/agent-roster.ts
+import { WHATSAPP_ID_PATTERN } from "./chat-filters";
+import { checkJsonFields } from "./utils";
+
+export const AGENT_ROLES = ["admin", "lead", "agent"] as const;
+
+export type AgentRole = (typeof AGENT_ROLES)[number];
+
+export interface RosterAgent {
+  id: string;
+  name: string;
+  // Numbers the agent sends from; matched against message sender_phone
+  whatsappIds: string[];
+  // Periskope login; matched against chat assigned_to
+  email?: string;
+  team?: string;
+  role: AgentRole;
+  activeFrom?: string; // YYYY-MM-DD
+  activeUntil?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface AgentRoster {
+  agents: RosterAgent[];
+}
+
+// The four numbers the dashboard was built around, until a roster is saved
+export const DEFAULT_AGENT_ROSTER: AgentRoster = {
+  agents: [
+    { id: "agent-1", name: "+91 85270 14950", whatsappIds: ["918527014950@c.us"], role: "agent" },
+    { id: "agent-2", name: "+91 85270 33886", whatsappIds: ["918527033886@c.us"], role: "agent" },
+    { id: "agent-3", name: "+91 73034 61744", whatsappIds: ["917303461744@c.us"], role: "agent" },
+    { id: "agent-4", name: "+91 85274 39222", whatsappIds: ["918527439222@c.us"], role: "agent" },
+  ],
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Active on `date` (YYYY-MM-DD); open-ended dates always match
+export function isAgentActive(agent: RosterAgent, date: string): boolean {
+  if (agent.activeFrom && date < agent.activeFrom) return false;
+  if (agent.activeUntil && date > agent.activeUntil) return false;
+  return true;
+}
+
+// Roster entry for a WhatsApp ID or an assigned_to email
+export function findRosterAgent(
+  roster: AgentRoster,
+  idOrEmail: string | null | undefined
+): RosterAgent | undefined {
+  if (!idOrEmail) return undefined;
+  const key = idOrEmail.toLowerCase();
+  return roster.agents.find(
+    (agent) => agent.whatsappIds.includes(idOrEmail) || agent.email?.toLowerCase() === key
+  );
+}
+
+// Name to show for a WhatsApp ID or email; unknown values are shown as-is
+export function agentDisplayName(
+  roster: AgentRoster | null | undefined,
+  idOrEmail: string | null | undefined
+): string {
+  const agent = roster ? findRosterAgent(roster, idOrEmail) : undefined;
+  return agent?.name ?? idOrEmail ?? "Unassigned";
+}
+
+export function rosterTeams(roster: AgentRoster): string[] {
+  return Array.from(
+    new Set(roster.agents.map((agent) => agent.team).filter((team): team is string => !!team))
+  ).sort();
+}
+
+// Agent filters select either one agent (its id) or a whole team ("team:<name>")
+export const TEAM_SELECTION_PREFIX = "team:";
+
+export function selectRosterAgents(roster: AgentRoster, selection: string): RosterAgent[] {
+  if (!selection) return [];
+  if (selection.startsWith(TEAM_SELECTION_PREFIX)) {
+    const team = selection.slice(TEAM_SELECTION_PREFIX.length);
+    return roster.agents.filter((agent) => agent.team === team);
+  }
+  return roster.agents.filter((agent) => agent.id === selection);
+}
+
+// Type problems in a roster sent by the dashboard, before it is normalized
+export function checkRosterInput(body: unknown): string[] {
+  const problems = checkJsonFields(body, "Roster", { agents: "list" });
+  if (problems.length > 0) return problems;
+
+  ((body as { agents?: unknown[] }).agents ?? []).forEach((agent, index) =>
+    problems.push(
+      ...checkJsonFields(agent, `agents[${index}]`, {
+        id: "string",
+        name: "string",
+        whatsappIds: "strings",
+        email: "string",
+        team: "string",
+        role: "string",
+        activeFrom: "string",
+        activeUntil: "string",
+      })
+    )
+  );
+  return problems;
+}
+
+// Problems that would make the roster ambiguous; empty when valid
+export function validateAgentRoster(roster: AgentRoster): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  const whatsappOwners = new Map<string, string>();
+  const emailOwners = new Map<string, string>();
+
+  if (!Array.isArray(roster.agents)) return ["agents must be a list"];
+
+  roster.agents.forEach((agent) => {
+    const label = `agent "${agent.id || agent.name}"`;
+    if (!agent.id) errors.push(`${agent.name || "agent"}: id is required`);
+    else if (ids.has(agent.id)) errors.push(`${label}: duplicate id`);
+    ids.add(agent.id);
+
+    if (!agent.name?.trim()) errors.push(`${label}: name is required`);
+    if (!AGENT_ROLES.includes(agent.role)) {
+      errors.push(`${label}: role must be one of ${AGENT_ROLES.join(", ")}`);
+    }
+
+    (agent.whatsappIds ?? []).forEach((whatsappId) => {
+      if (!WHATSAPP_ID_PATTERN.test(whatsappId)) {
+        errors.push(`${label}: WhatsApp ID "${whatsappId}" must look like 918527014950@c.us`);
+      } else if (whatsappOwners.has(whatsappId)) {
+        errors.push(`${label}: ${whatsappId} already belongs to "${whatsappOwners.get(whatsappId)}"`);
+      }
+      whatsappOwners.set(whatsappId, agent.id);
+    });
+
+    if (agent.email) {
+      const email = agent.email.toLowerCase();
+      if (!EMAIL_PATTERN.test(email)) {
+        errors.push(`${label}: "${agent.email}" is not an email address`);
+      } else if (emailOwners.has(email)) {
+        errors.push(`${label}: ${agent.email} already belongs to "${emailOwners.get(email)}"`);
+      }
+      emailOwners.set(email, agent.id);
+    }
+
+    [agent.activeFrom, agent.activeUntil].forEach((date) => {
+      if (date && !DATE_PATTERN.test(date)) {
+        errors.push(`${label}: date "${date}" must use YYYY-MM-DD`);
+      }
+    });
+    if (agent.activeFrom && agent.activeUntil && agent.activeFrom > agent.activeUntil) {
+      errors.push(`${label}: activeUntil is before activeFrom`);
+    }
+  });
+
+  return errors;
+}
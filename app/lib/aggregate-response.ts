@@ -0,0 +1,108 @@
+// app/lib/aggregate-response.ts
+import { NextResponse } from "next/server";
+import type { Message } from "./types/periskope";
+import type { AggregateStreamEvent } from "./types/messages-api";
+import { getMessagesForOrgPhones } from "./message-sync";
+import type { MessagesQuery } from "./messages-query";
+import { ndjsonResponse } from "./ndjson";
+import { filterByAgent } from "./message-aggregates";
+import { mergeOrgPhoneMessages, type OrgPhoneMessages } from "./org-phone-merge";
+
+// Receives every message in range (not yet filtered by agent) so reply-time
+// pairing can still see the customer side of each chat. `messages` counts
+// chats shared by several org phones once; `byOrgPhone` has each number's
+// own view.
+type Aggregate<T> = (
+  messages: Message[],
+  agents: string[],
+  byOrgPhone: OrgPhoneMessages[]
+) => T;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Load the requested range and answer with `{ [key]: aggregate, freshness,
+// completeness }`, or with an NDJSON stream of AggregateStreamEvent when the
+// query asks for stream=1. Raw messages never leave the server.
+export async function aggregateResponse<T>(
+  query: MessagesQuery,
+  key: string,
+  aggregate: Aggregate<T>
+): Promise<Response> {
+  const { startTimeISO, endTimeISO, filters, orgPhones, agents, options } = query;
+
+  if (query.stream) {
+    return streamAggregate(query, aggregate);
+  }
+
+  try {
+    const result = await getMessagesForOrgPhones(
+      startTimeISO,
+      endTimeISO,
+      filters,
+      orgPhones,
+      options
+    );
+    const { freshness, completeness } = result;
+    const { messages, byOrgPhone } = mergeOrgPhoneMessages(result.messages, orgPhones);
+    const data = aggregate(messages, agents, byOrgPhone);
+
+    console.log(`[messages-api] ${key}: aggregated ${messages.length} messages (source: ${freshness.source}, complete: ${completeness.complete})`);
+    return NextResponse.json({ [key]: data, freshness, completeness });
+  } catch (error) {
+    console.error(`[messages-api] ${key}: error aggregating messages:`, error);
+    return NextResponse.json(
+      { error: "Failed to aggregate messages", details: errorMessage(error) },
+      { status: 500 }
+    );
+  }
+}
+
+function streamAggregate<T>(
+  { startTimeISO, endTimeISO, filters, orgPhones, agents, options }: MessagesQuery,
+  aggregate: Aggregate<T>
+) {
+  const mergeAndAggregate = (all: Message[]) => {
+    const { messages, byOrgPhone } = mergeOrgPhoneMessages(all, orgPhones);
+    return { messages, data: aggregate(messages, agents, byOrgPhone) };
+  };
+
+  return ndjsonResponse<AggregateStreamEvent<T>>(async (send) => {
+    // Everything received so far, de-duplicated by org phone and message_id
+    const received = new Map<string, Message>();
+
+    try {
+      const result = await getMessagesForOrgPhones(
+        startTimeISO,
+        endTimeISO,
+        filters,
+        orgPhones,
+        {
+          ...options,
+          onProgress: (progress) => send({ type: "progress", ...progress }),
+          onMessages: (chunkMessages) => {
+            chunkMessages.forEach((m) => received.set(`${m.org_phone}|${m.message_id}`, m));
+            send({
+              type: "partial",
+              data: mergeAndAggregate(Array.from(received.values())).data,
+            });
+          },
+        }
+      );
+      const { freshness, completeness } = result;
+      const { messages, data } = mergeAndAggregate(result.messages);
+
+      send({
+        type: "done",
+        data,
+        total: filterByAgent(messages, agents).length,
+        freshness,
+        completeness,
+      });
+    } catch (error) {
+      console.error("[messages-api] aggregate stream failed:", error);
+      send({ type: "error", error: "Failed to aggregate messages", details: errorMessage(error) });
+    }
+  });
+}
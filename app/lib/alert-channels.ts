@@ -0,0 +1,74 @@
+// app/lib/alert-channels.ts
+import { createHmac } from "crypto";
+import type { AlertWebhook, SlaAlert } from "./alert-rules";
+import { getSmtpConfig, sendMail } from "./smtp";
+import { renderAlertEmail } from "./alert-email";
+
+const WEBHOOK_TIMEOUT_MS = 15 * 1000;
+
+export interface DeliveryResult {
+  channel: "webhook" | "email";
+  target: string;
+  ok: boolean;
+  error?: string;
+}
+
+// POST {type: "sla.alerts", sentAt, alerts} as JSON. With a secret the raw
+// body is signed as X-Signature-256: sha256=<hex HMAC-SHA256>.
+export async function sendWebhook(
+  webhook: AlertWebhook,
+  alerts: SlaAlert[],
+  now: Date
+): Promise<DeliveryResult> {
+  const body = JSON.stringify({ type: "sla.alerts", sentAt: now.toISOString(), alerts });
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (webhook.secret) {
+    headers["X-Signature-256"] =
+      "sha256=" + createHmac("sha256", webhook.secret).update(body).digest("hex");
+  }
+
+  try {
+    const res = await fetch(webhook.url, {
+      method: "POST",
+      headers,
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      return { channel: "webhook", target: webhook.url, ok: false, error: `HTTP ${res.status}` };
+    }
+    return { channel: "webhook", target: webhook.url, ok: true };
+  } catch (error) {
+    return {
+      channel: "webhook",
+      target: webhook.url,
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// One email to every recipient through the SMTP_* server
+export async function sendAlertEmail(
+  to: string[],
+  alerts: SlaAlert[],
+  options: { dashboardUrl?: string; timeZone: string; now: Date }
+): Promise<DeliveryResult> {
+  const target = to.join(", ");
+  const smtp = getSmtpConfig();
+  if (!smtp) {
+    return { channel: "email", target, ok: false, error: "SMTP_HOST is not configured" };
+  }
+
+  try {
+    await sendMail(smtp, { to, ...renderAlertEmail(alerts, options) });
+    return { channel: "email", target, ok: true };
+  } catch (error) {
+    return {
+      channel: "email",
+      target,
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
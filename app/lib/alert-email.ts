@@ -0,0 +1,126 @@
+// app/lib/alert-email.ts
+import { readFileSync } from "fs";
+import path from "path";
+import type { SlaAlert } from "./alert-rules";
+import type { SlaTierColor } from "./sla-policy";
+import type { MailMessage } from "./smtp";
+import { formatDuration } from "./utils";
+import { formatInTimeZone } from "./timezone";
+
+const TEMPLATE_PATH = path.join(process.cwd(), "app", "templates", "sla-alert.html");
+
+const TIER_HEX: Record<SlaTierColor, string> = {
+  emerald: "#10b981",
+  yellow: "#eab308",
+  orange: "#f97316",
+  red: "#dc3545",
+};
+
+let template: string | undefined;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// {{name}} is replaced HTML-escaped, {{{name}}} as-is; unknown names render
+// empty
+export function renderTemplate(source: string, values: Record<string, string>): string {
+  return source
+    .replace(/\{\{\{\s*(\w+)\s*\}\}\}/g, (_, name) => values[name] ?? "")
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name) => escapeHtml(values[name] ?? ""));
+}
+
+type TierAlert = Extract<SlaAlert, { kind: "tier" }>;
+
+function describeWait(alert: TierAlert): string {
+  const wait = formatDuration(alert.waitingHours * 60 * 60 * 1000);
+  return alert.businessHours ? `${wait} business` : wait;
+}
+
+function chatTable(alerts: TierAlert[]): string {
+  if (alerts.length === 0) return "";
+  const cell = "padding: 8px; border-bottom: 1px solid #e9ecef; font-size: 14px; color: #333;";
+  const rows = alerts
+    .map(
+      (alert) => `
+                <tr>
+                    <td style="${cell}">${escapeHtml(alert.chatName)}<br><span style="color: #6c757d; font-size: 12px;">${escapeHtml(alert.assignedTo ?? "Unassigned")}</span></td>
+                    <td style="${cell}"><span style="color: ${TIER_HEX[alert.tier.color]}; font-weight: bold;">${escapeHtml(alert.tier.label)}</span><br><span style="color: #6c757d; font-size: 12px;">${escapeHtml(alert.policyName)}</span></td>
+                    <td style="${cell} text-align: right;">${escapeHtml(describeWait(alert))}</td>
+                </tr>`
+    )
+    .join("");
+  return `<table style="width: 100%; border-collapse: collapse; margin: 20px 0;">
+                <tr>
+                    <th style="padding: 8px; text-align: left; font-size: 12px; color: #6c757d;">Chat</th>
+                    <th style="padding: 8px; text-align: left; font-size: 12px; color: #6c757d;">Urgency</th>
+                    <th style="padding: 8px; text-align: right; font-size: 12px; color: #6c757d;">Waiting</th>
+                </tr>${rows}
+            </table>`;
+}
+
+function countBlock(count: number, threshold: number): string {
+  return `<div style="background: #f8f9fa; border-radius: 8px; padding: 20px; margin: 20px 0; text-align: center; border: 2px solid #e9ecef;">
+                <div style="color: #6c757d; font-size: 14px; margin-bottom: 5px;">
+                    Overdue Chats
+                </div>
+                <div style="color: #dc3545; font-size: 28px; font-weight: bold;">
+                    ${count}
+                </div>
+                <div style="color: #6c757d; font-size: 12px; margin-top: 5px;">
+                    Alert threshold: ${threshold}
+                </div>
+            </div>`;
+}
+
+// Subject, HTML (app/templates/sla-alert.html) and plain-text body for one
+// run's alerts
+export function renderAlertEmail(
+  alerts: SlaAlert[],
+  options: { dashboardUrl?: string; timeZone: string; now: Date }
+): Omit<MailMessage, "to"> {
+  template ??= readFileSync(TEMPLATE_PATH, "utf8");
+
+  const tierAlerts = alerts.filter((alert): alert is TierAlert => alert.kind === "tier");
+  const countAlert = alerts.find((alert) => alert.kind === "overdue-count");
+
+  const parts: string[] = [];
+  if (tierAlerts.length) parts.push(`${tierAlerts.length} chat(s) reached a new SLA urgency tier`);
+  if (countAlert?.kind === "overdue-count") {
+    parts.push(`${countAlert.count} chats are overdue (threshold ${countAlert.threshold})`);
+  }
+  const summary = `${parts.join(" and ")}.`;
+  const subject = `SLA alert: ${parts.join(", ")}`;
+  const generatedAt = formatInTimeZone(options.now, options.timeZone);
+
+  const html = renderTemplate(template, {
+    subject,
+    summary,
+    generatedAt,
+    dashboardUrl: options.dashboardUrl ?? "",
+    countBlock:
+      countAlert?.kind === "overdue-count"
+        ? countBlock(countAlert.count, countAlert.threshold)
+        : "",
+    chatTable: chatTable(tierAlerts),
+  });
+
+  const text = [
+    summary,
+    "",
+    ...tierAlerts.map(
+      (alert) =>
+        `- ${alert.chatName}: ${alert.tier.label} (${alert.policyName}), waiting ${describeWait(alert)}, ${alert.assignedTo ?? "unassigned"}`
+    ),
+    "",
+    options.dashboardUrl ? `Open Chat Analytics: ${options.dashboardUrl}` : "",
+    `Generated ${generatedAt}`,
+  ].join("\n");
+
+  return { subject, html, text };
+}
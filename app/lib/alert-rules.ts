@@ -0,0 +1,194 @@
+// app/lib/alert-rules.ts
+import type { Chat } from "./types/periskope";
+import { CHAT_TYPES } from "./chat-filters";
+import type { SlaEvaluation, SlaPolicyConfig, UrgencyTier } from "./sla-policy";
+import { checkJsonFields } from "./utils";
+
+export interface AlertWebhook {
+  url: string;
+  // Signs the body as X-Signature-256: sha256=<hex HMAC> when set
+  secret?: string;
+}
+
+export interface AlertConfig {
+  enabled: boolean;
+  // Periskope account to watch; the default account when omitted
+  account?: string;
+  chatTypes: Chat["chat_type"][];
+  // Alert when an overdue chat enters one of these tier ids; every tier
+  // when empty
+  tierIds: string[];
+  // Alert when more chats than this are overdue; off when null
+  overdueCountThreshold: number | null;
+  // Repeat an alert that is still true after this many hours; 0 = once
+  renotifyHours: number;
+  webhooks: AlertWebhook[];
+  emailTo: string[];
+  // Linked from alert emails
+  dashboardUrl?: string;
+}
+
+// What has already been alerted, so repeat runs stay quiet
+export interface AlertState {
+  // Per overdue chat: the tier last alerted and when
+  chats: Record<string, { tierId: string; notifiedAt: string }>;
+  overdueCount: { above: boolean; notifiedAt: string | null };
+  lastRunAt: string | null;
+  // Per channel ("email" or "webhook:<url>"): alerts it has not received
+  // yet because its last delivery failed
+  pending?: Record<string, SlaAlert[]>;
+}
+
+export interface OverdueChat {
+  chat: Chat;
+  sla: SlaEvaluation;
+}
+
+export type SlaAlert =
+  | {
+      kind: "tier";
+      chatId: string;
+      chatName: string;
+      chatType: Chat["chat_type"];
+      orgPhone: string;
+      assignedTo: string | null;
+      policyName: string;
+      tier: UrgencyTier;
+      previousTierId: string | null;
+      waitingHours: number;
+      businessHours: boolean;
+    }
+  | { kind: "overdue-count"; count: number; threshold: number };
+
+export const DEFAULT_ALERT_CONFIG: AlertConfig = {
+  enabled: false,
+  chatTypes: [...CHAT_TYPES],
+  tierIds: [],
+  overdueCountThreshold: null,
+  renotifyHours: 0,
+  webhooks: [],
+  emailTo: [],
+};
+
+export const EMPTY_ALERT_STATE: AlertState = {
+  chats: {},
+  overdueCount: { above: false, notifiedAt: null },
+  lastRunAt: null,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function tierRank(policies: SlaPolicyConfig, sla: SlaEvaluation, tierId: string): number {
+  const policy = policies.policies.find((p) => p.id === sla.policyId);
+  return policy?.tiers.findIndex((tier) => tier.id === tierId) ?? -1;
+}
+
+// Compare this run's overdue chats with what was alerted before. A chat alerts
+// when it first becomes overdue or moves up a tier (optionally only into
+// `tierIds`); chats that are no longer overdue are forgotten so a new breach
+// alerts again. The overdue count alerts when it rises above the threshold.
+// With renotifyHours, alerts that are still true repeat after that long.
+export function detectAlerts(
+  overdue: OverdueChat[],
+  previous: AlertState,
+  config: AlertConfig,
+  policies: SlaPolicyConfig,
+  now: Date
+): { alerts: SlaAlert[]; state: AlertState } {
+  const alerts: SlaAlert[] = [];
+  const nowISO = now.toISOString();
+  const renotifyDue = (notifiedAt: string | null) =>
+    config.renotifyHours > 0 &&
+    !!notifiedAt &&
+    now.getTime() - new Date(notifiedAt).getTime() >= config.renotifyHours * HOUR_MS;
+
+  const chats: AlertState["chats"] = {};
+  for (const { chat, sla } of overdue) {
+    if (!sla.tier) continue;
+    const seen = previous.chats[chat.chat_id];
+    const wanted = config.tierIds.length === 0 || config.tierIds.includes(sla.tier.id);
+    const rose = !seen || tierRank(policies, sla, sla.tier.id) > tierRank(policies, sla, seen.tierId);
+    const repeat = seen?.tierId === sla.tier.id && renotifyDue(seen.notifiedAt);
+
+    if (wanted && (rose || repeat)) {
+      alerts.push({
+        kind: "tier",
+        chatId: chat.chat_id,
+        chatName: chat.chat_name,
+        chatType: chat.chat_type,
+        orgPhone: chat.org_phone,
+        assignedTo: chat.assigned_to,
+        policyName: sla.policyName,
+        tier: sla.tier,
+        previousTierId: seen?.tierId ?? null,
+        waitingHours: sla.waitingHours ?? 0,
+        businessHours: sla.businessHours,
+      });
+      chats[chat.chat_id] = { tierId: sla.tier.id, notifiedAt: nowISO };
+    } else {
+      // Tiers we don't alert on are still remembered, so a later drop in
+      // rank (e.g. a policy change) does not look like a new breach
+      chats[chat.chat_id] = seen && !rose ? seen : { tierId: sla.tier.id, notifiedAt: nowISO };
+    }
+  }
+
+  let overdueCount = previous.overdueCount;
+  const threshold = config.overdueCountThreshold;
+  if (threshold === null || overdue.length <= threshold) {
+    overdueCount = { above: false, notifiedAt: null };
+  } else if (!previous.overdueCount.above || renotifyDue(previous.overdueCount.notifiedAt)) {
+    alerts.push({ kind: "overdue-count", count: overdue.length, threshold });
+    overdueCount = { above: true, notifiedAt: nowISO };
+  }
+
+  return { alerts, state: { chats, overdueCount, lastRunAt: nowISO } };
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Type problems in an alert config sent by the dashboard, before it is
+// normalized
+export function checkAlertInput(body: unknown): string[] {
+  const problems = checkJsonFields(body, "Alert config", {
+    account: "string",
+    chatTypes: "strings",
+    tierIds: "strings",
+    webhooks: "list",
+    emailTo: "strings",
+    dashboardUrl: "string",
+  });
+  if (problems.length > 0) return problems;
+
+  ((body as { webhooks?: unknown[] }).webhooks ?? []).forEach((webhook, index) =>
+    problems.push(...checkJsonFields(webhook, `webhooks[${index}]`, { url: "string", secret: "string" }))
+  );
+  return problems;
+}
+
+export function validateAlertConfig(config: AlertConfig): string[] {
+  const problems: string[] = [];
+
+  config.chatTypes.forEach((type) => {
+    if (!CHAT_TYPES.includes(type)) problems.push(`Unknown chat type "${type}"`);
+  });
+  if (
+    config.overdueCountThreshold !== null &&
+    (!Number.isInteger(config.overdueCountThreshold) || config.overdueCountThreshold < 0)
+  ) {
+    problems.push("overdueCountThreshold must be a whole number ≥ 0, or null");
+  }
+  if (!Number.isFinite(config.renotifyHours) || config.renotifyHours < 0) {
+    problems.push("renotifyHours must be a number ≥ 0");
+  }
+  config.webhooks.forEach((webhook) => {
+    if (!/^https?:\/\/\S+$/.test(webhook.url)) problems.push(`Invalid webhook URL "${webhook.url}"`);
+  });
+  config.emailTo.forEach((email) => {
+    if (!EMAIL_PATTERN.test(email)) problems.push(`Invalid email "${email}"`);
+  });
+  if (config.enabled && config.webhooks.length === 0 && config.emailTo.length === 0) {
+    problems.push("Enabled alerts need at least one webhook or email recipient");
+  }
+
+  return problems;
+}
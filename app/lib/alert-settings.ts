@@ -0,0 +1,36 @@
+// app/lib/alert-settings.ts
+import {
+  DEFAULT_ALERT_CONFIG,
+  EMPTY_ALERT_STATE,
+  type AlertConfig,
+  type AlertState,
+} from "./alert-rules";
+import { getSettingsStore } from "./settings-store";
+
+const CONFIG_KEY = "alertConfig";
+const STATE_KEY = "alertState";
+
+// The saved alert config, or alerts switched off when nothing has been saved
+// or the settings store cannot be reached
+export async function getAlertConfig(): Promise<AlertConfig> {
+  try {
+    const saved = await getSettingsStore().get<AlertConfig>(CONFIG_KEY);
+    return saved ?? DEFAULT_ALERT_CONFIG;
+  } catch (error) {
+    console.error("[alerts] failed to load config, alerts are off:", error);
+    return DEFAULT_ALERT_CONFIG;
+  }
+}
+
+export async function saveAlertConfig(config: AlertConfig): Promise<void> {
+  await getSettingsStore().set(CONFIG_KEY, config);
+}
+
+// Errors propagate: running without the previous state would repeat alerts
+export async function getAlertState(): Promise<AlertState> {
+  return (await getSettingsStore().get<AlertState>(STATE_KEY)) ?? EMPTY_ALERT_STATE;
+}
+
+export async function saveAlertState(state: AlertState): Promise<void> {
+  await getSettingsStore().set(STATE_KEY, state);
+}
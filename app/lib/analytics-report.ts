@@ -0,0 +1,153 @@
+// app/lib/analytics-report.ts
+import type { ChatMetrics } from "./types/periskope";
+import type { ReportPeriod, ReportSchedule } from "./report-schedules";
+import { getMessagesForOrgPhones } from "./message-sync";
+import { mergeOrgPhoneMessages } from "./org-phone-merge";
+import { summarizeMessages, type MessageSummary } from "./message-aggregates";
+import { loadChatMetrics } from "./chat-metrics";
+import { getBusinessCalendarFor } from "./business-calendar-settings";
+import { resolveReplyTargets } from "./reply-times";
+import { getAgentRoster } from "./agent-roster-settings";
+import { agentDisplayName, type AgentRoster } from "./agent-roster";
+import { resolvePeriskopeAccount, type PeriskopeAccount } from "./periskope-accounts";
+import { formatDuration } from "./utils";
+
+// Overdue chats listed in a report, longest wait first
+const TOP_OVERDUE = 10;
+
+export interface ReportOverdueChat {
+  chatName: string;
+  agent: string;
+  urgency: string;
+  hoursWaiting: number;
+}
+
+// Everything a report renders, for one schedule and period
+export interface AnalyticsReport {
+  title: string;
+  account: Pick<PeriskopeAccount, "id" | "label" | "timeZone">;
+  orgPhones: string[];
+  period: ReportPeriod;
+  generatedAt: Date;
+  // Message stats for the period, with heatmaps
+  summary: MessageSummary;
+  // Open chats as of generatedAt
+  openChats: number;
+  overdueChats: number;
+  topOverdue: ReportOverdueChat[];
+  // False when part of the period could not be fetched
+  complete: boolean;
+}
+
+function topOverdue(metrics: ChatMetrics, roster: AgentRoster): ReportOverdueChat[] {
+  return metrics.delayedResponseDetails.slice(0, TOP_OVERDUE).map((chat) => ({
+    chatName: chat.chatName,
+    agent: agentDisplayName(roster, chat.agentPhone),
+    urgency: chat.sla?.tier?.label ?? chat.urgencyLevel ?? "",
+    hoursWaiting: chat.hoursWithoutResponse,
+  }));
+}
+
+export interface ReportStat {
+  label: string;
+  value: string;
+  note: string;
+}
+
+// The dashboard's stat cards, as label / value / note
+export function reportStats(report: AnalyticsReport): ReportStat[] {
+  const { summary } = report;
+  const peak = summary.peaks.all;
+  return [
+    { label: "Total Messages", value: summary.totalCount.toLocaleString("en-US"), note: report.period.label },
+    { label: "Agent Sent", value: summary.agentCount.toLocaleString("en-US"), note: "from our numbers" },
+    { label: "Customer Received", value: summary.customerCount.toLocaleString("en-US"), note: "from customers" },
+    { label: "Avg Messages/Day", value: summary.averagePerDay.toLocaleString("en-US"), note: "all messages" },
+    { label: "Peak Activity", value: peak.hourRange, note: `on ${peak.day}` },
+    {
+      label: "Median Reply Delay",
+      value: formatDuration(summary.replyDistribution.absolute.median),
+      note: `P90 ${formatDuration(summary.replyDistribution.absolute.p90)}`,
+    },
+    { label: "Open Chats", value: report.openChats.toLocaleString("en-US"), note: "right now" },
+    { label: "Overdue Chats", value: report.overdueChats.toLocaleString("en-US"), note: "awaiting our reply" },
+  ];
+}
+
+// Reply-time percentiles and the share of replies within each target
+export function replyTimeRows(report: AnalyticsReport): [string, string][] {
+  const { absolute, business } = report.summary.replyDistribution;
+  return [
+    ["Replies", report.summary.replyDistribution.count.toLocaleString("en-US")],
+    ["Median", `${formatDuration(absolute.median)} (${formatDuration(business.median)} business)`],
+    ["P75", formatDuration(absolute.p75)],
+    ["P90", formatDuration(absolute.p90)],
+    ["P95", formatDuration(absolute.p95)],
+    ["Max", formatDuration(absolute.max)],
+    ...report.summary.replyDistribution.targets.map(
+      (target): [string, string] => [`Within ${target.label}`, `${Math.round(target.share * 100)}%`]
+    ),
+  ];
+}
+
+// Heatmap cell colour from white to blue by share of the busiest hour, as
+// [r, g, b] 0-255; emails and PDFs need solid colours
+export function heatmapShade(value: number, max: number): [number, number, number] {
+  const share = max > 0 ? value / max : 0;
+  const blend = (to: number) => Math.round(255 + (to - 255) * share);
+  return [blend(59), blend(130), blend(246)];
+}
+
+// Gather the message summary for the period and the current open chats for
+// the schedule's account, org phones and chat types
+export async function buildAnalyticsReport(
+  schedule: ReportSchedule,
+  period: ReportPeriod,
+  now: Date = new Date()
+): Promise<AnalyticsReport> {
+  const account = resolvePeriskopeAccount(schedule.account);
+  const { orgPhones } = schedule;
+  const calendar = await getBusinessCalendarFor(
+    { orgPhone: orgPhones.length === 1 ? orgPhones[0] : undefined },
+    account.timeZone
+  );
+
+  const result = await getMessagesForOrgPhones(
+    period.start.toISOString(),
+    period.end.toISOString(),
+    { account: account.id, ...(orgPhones.length === 1 && { orgPhone: orgPhones[0] }) },
+    orgPhones
+  );
+  const { messages } = mergeOrgPhoneMessages(result.messages, orgPhones);
+  const summary = summarizeMessages(
+    messages,
+    { startDate: period.start, endDate: period.end },
+    {
+      includeHeatmaps: true,
+      timeZone: account.timeZone,
+      calendar,
+      replyTargets: resolveReplyTargets(null, calendar),
+    }
+  );
+
+  const metrics = await loadChatMetrics(
+    { orgPhones, chatTypes: schedule.chatTypes, agents: [], labels: [], excludeLabels: [], properties: [] },
+    account
+  );
+  const roster = await getAgentRoster();
+
+  console.log(`[reports] ${schedule.id}: ${summary.totalCount} messages, ${metrics.totalOpenChats} open chats for ${period.label}`);
+
+  return {
+    title: schedule.name,
+    account: { id: account.id, label: account.label, timeZone: account.timeZone },
+    orgPhones,
+    period,
+    generatedAt: now,
+    summary,
+    openChats: metrics.totalOpenChats,
+    overdueChats: metrics.chatsWithDelayedResponse,
+    topOverdue: topOverdue(metrics, roster),
+    complete: result.completeness.complete,
+  };
+}
@@ -0,0 +1,27 @@
+// app/lib/auth-client.ts
+import { auth } from "./firebase";
+
+// fetch() with the signed-in user's Firebase ID token attached, for the
+// dashboard's own API routes
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const token = await auth.currentUser?.getIdToken();
+  const headers = new Headers(init.headers);
+  if (token) headers.set("Authorization", `Bearer ${token}`);
+  return fetch(input, { ...init, headers });
+}
+
+// Fetch a file from one of our API routes and save it, named by the
+// response's Content-Disposition when it gives one
+export async function authDownload(input: string, fallbackName: string): Promise<void> {
+  const res = await authFetch(input);
+  if (!res.ok) throw new Error(`API ${res.status}`);
+
+  const disposition = res.headers.get("Content-Disposition") ?? "";
+  const name = /filename="([^"]+)"/.exec(disposition)?.[1] ?? fallbackName;
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
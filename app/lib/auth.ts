@@ -0,0 +1,159 @@
+// app/lib/auth.ts
+import { NextRequest, NextResponse } from "next/server";
+import { FirebaseAuthError, type DecodedIdToken } from "firebase-admin/auth";
+import {
+  findRosterAgent,
+  isAgentActive,
+  type AgentRole,
+  type AgentRoster,
+  type RosterAgent,
+} from "./agent-roster";
+import { getAgentRoster } from "./agent-roster-settings";
+import { getAdminAuth } from "./firebase-admin";
+import type { MessagesQuery } from "./messages-query";
+import { DEFAULT_TIMEZONE, formatZonedDate } from "./timezone";
+
+// What a signed-in user may see. Admins are unrestricted (scope null); leads
+// see their team and agents only themselves.
+export interface AccessScope {
+  // assigned_to values of the visible chats
+  agentEmails: string[];
+  // sender_phone values of the visible messages
+  whatsappIds: string[];
+}
+
+export interface Session {
+  uid: string;
+  email: string | null;
+  role: AgentRole;
+  agent?: RosterAgent;
+  team?: string;
+  scope: AccessScope | null;
+}
+
+// Admins who may sign in before they are on the roster (AUTH_ADMIN_EMAILS)
+function bootstrapAdmins(): string[] {
+  return (process.env.AUTH_ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function scopeFor(agents: RosterAgent[]): AccessScope {
+  return {
+    agentEmails: agents
+      .map((agent) => agent.email?.toLowerCase())
+      .filter((email): email is string => !!email),
+    whatsappIds: agents.flatMap((agent) => agent.whatsappIds),
+  };
+}
+
+// Role and scope for verified token claims, or null when the user is not an
+// active roster member. Only a verified email counts: email/password sign-up
+// and some providers issue tokens for addresses nobody has confirmed.
+export function resolveSession(claims: DecodedIdToken, roster: AgentRoster): Session | null {
+  const email = claims.email_verified === true ? claims.email?.toLowerCase() ?? null : null;
+  const agent = email ? findRosterAgent(roster, email) : undefined;
+  const today = formatZonedDate(new Date(), DEFAULT_TIMEZONE);
+
+  if (!agent || !isAgentActive(agent, today)) {
+    if (email && bootstrapAdmins().includes(email)) {
+      return { uid: claims.sub, email, role: "admin", scope: null };
+    }
+    return null;
+  }
+
+  const session: Session = {
+    uid: claims.sub,
+    email,
+    role: agent.role,
+    agent,
+    team: agent.team,
+    scope: null,
+  };
+  if (agent.role === "lead" && agent.team) {
+    session.scope = scopeFor(roster.agents.filter((member) => member.team === agent.team));
+  } else if (agent.role !== "admin") {
+    session.scope = scopeFor([agent]);
+  }
+  return session;
+}
+
+// Everyone is an admin when AUTH_DISABLED=true (local development only)
+const ANONYMOUS_SESSION: Session = {
+  uid: "anonymous",
+  email: null,
+  role: "admin",
+  scope: null,
+};
+
+// Verify the request's `Authorization: Bearer <Firebase ID token>` and return
+// the caller's session, or the 401/403 response to send instead.
+export async function requireSession(
+  request: NextRequest,
+  allowedRoles?: AgentRole[]
+): Promise<Session | NextResponse> {
+  if (process.env.AUTH_DISABLED === "true") return ANONYMOUS_SESSION;
+
+  const token = request.headers.get("authorization")?.match(/^Bearer (.+)$/i)?.[1];
+  if (!token) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  // Signature, project, lifetime and revocation are checked by the Admin SDK
+  let claims: DecodedIdToken;
+  try {
+    claims = await getAdminAuth().verifyIdToken(token, true);
+  } catch (error) {
+    if (!(error instanceof FirebaseAuthError)) throw error;
+    console.log(`[auth] rejected token: ${error.message}`);
+    return NextResponse.json(
+      { error: "Invalid ID token", details: error.message },
+      { status: 401 }
+    );
+  }
+
+  const session = resolveSession(claims, await getAgentRoster());
+  if (!session) {
+    return NextResponse.json(
+      {
+        error: "Not an active member of the agent roster",
+        details:
+          claims.email && claims.email_verified !== true
+            ? `${claims.email} is not verified`
+            : claims.email ?? claims.sub,
+      },
+      { status: 403 }
+    );
+  }
+  if (allowedRoles && !allowedRoles.includes(session.role)) {
+    return NextResponse.json(
+      { error: "Insufficient role", details: `requires ${allowedRoles.join(" or ")}` },
+      { status: 403 }
+    );
+  }
+  return session;
+}
+
+// Narrow a requested filter list to what the scope allows. Empty `requested`
+// means "everything visible". Returns null when nothing requested is visible.
+export function narrowToScope(requested: string[], allowed: string[] | undefined): string[] | null {
+  if (!allowed) return requested;
+  if (allowed.length === 0) return null;
+  if (requested.length === 0) return allowed;
+  const visible = requested.filter((value) => allowed.includes(value));
+  return visible.length ? visible : null;
+}
+
+export function outOfScopeResponse(): NextResponse {
+  return NextResponse.json(
+    { error: "Outside your access scope", details: "Only your own or your team's data is visible" },
+    { status: 403 }
+  );
+}
+
+// Restrict a messages query to the numbers the session may see
+export function scopeMessagesQuery(query: MessagesQuery, session: Session): MessagesQuery | null {
+  const agents = narrowToScope(query.agents, session.scope?.whatsappIds);
+  return agents ? { ...query, agents } : null;
+}
@@ -0,0 +1,37 @@
+// app/lib/business-calendar-settings.ts
+import {
+  DEFAULT_CALENDAR_CONFIG,
+  resolveBusinessCalendar,
+  type BusinessCalendarConfig,
+  type ResolvedCalendar,
+} from "./business-calendar";
+import { getSettingsStore } from "./settings-store";
+import { DEFAULT_TIMEZONE } from "./timezone";
+
+const SETTINGS_KEY = "businessCalendars";
+
+// The saved calendar config, or the standard Mon–Fri 09:00–17:00 calendar when
+// nothing has been configured or the settings store cannot be reached
+export async function getBusinessCalendarConfig(): Promise<BusinessCalendarConfig> {
+  try {
+    const saved = await getSettingsStore().get<BusinessCalendarConfig>(SETTINGS_KEY);
+    return saved ?? DEFAULT_CALENDAR_CONFIG;
+  } catch (error) {
+    console.error("[business-calendar] failed to load calendars, using default:", error);
+    return DEFAULT_CALENDAR_CONFIG;
+  }
+}
+
+export async function saveBusinessCalendarConfig(
+  config: BusinessCalendarConfig
+): Promise<void> {
+  await getSettingsStore().set(SETTINGS_KEY, config);
+}
+
+export async function getBusinessCalendarFor(
+  target: { orgPhone?: string; team?: string },
+  fallbackTimeZone: string = DEFAULT_TIMEZONE
+): Promise<ResolvedCalendar> {
+  const config = await getBusinessCalendarConfig();
+  return resolveBusinessCalendar(config, target, fallbackTimeZone);
+}
@@ -0,0 +1,325 @@
+// app/lib/business-calendar.ts
+import {
+  DEFAULT_TIMEZONE,
+  formatZonedDate,
+  getZonedParts,
+  isValidTimeZone,
+  zonedTimeToDate,
+} from "./timezone";
+import { checkJsonFields } from "./utils";
+
+export const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+// Wall-clock interval within one day, "HH:MM" to "HH:MM" ("24:00" ends at midnight)
+export interface TimeInterval {
+  start: string;
+  end: string;
+}
+
+// Working intervals per weekday; missing days are closed
+export type WeeklySchedule = Partial<Record<Weekday, TimeInterval[]>>;
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD in the calendar's timezone
+  name?: string;
+}
+
+export interface HolidayList {
+  id: string;
+  name: string;
+  holidays: Holiday[];
+}
+
+export interface BusinessCalendar {
+  id: string;
+  name: string;
+  // Zone the schedule is defined in; defaults to the dashboard's timezone
+  timeZone?: string;
+  weekly: WeeklySchedule;
+  holidayListIds?: string[];
+}
+
+export interface BusinessCalendarConfig {
+  calendars: BusinessCalendar[];
+  holidayLists: HolidayList[];
+  defaultCalendarId: string;
+  // Which calendar applies to whom; org phone assignments win over teams
+  assignments: {
+    orgPhones: Record<string, string>;
+    teams: Record<string, string>;
+  };
+}
+
+// A calendar with its holiday lists flattened, ready for calculations
+export interface ResolvedCalendar {
+  id: string;
+  name: string;
+  timeZone: string;
+  weekly: WeeklySchedule;
+  holidays: Set<string>;
+}
+
+const WEEKDAY_HOURS: TimeInterval[] = [{ start: "09:00", end: "17:00" }];
+
+// The schedule the dashboard used before calendars were configurable
+export const STANDARD_CALENDAR: BusinessCalendar = {
+  id: "standard",
+  name: "Mon–Fri 09:00–17:00",
+  weekly: {
+    monday: WEEKDAY_HOURS,
+    tuesday: WEEKDAY_HOURS,
+    wednesday: WEEKDAY_HOURS,
+    thursday: WEEKDAY_HOURS,
+    friday: WEEKDAY_HOURS,
+  },
+};
+
+export const DEFAULT_CALENDAR_CONFIG: BusinessCalendarConfig = {
+  calendars: [STANDARD_CALENDAR],
+  holidayLists: [],
+  defaultCalendarId: STANDARD_CALENDAR.id,
+  assignments: { orgPhones: {}, teams: {} },
+};
+
+function resolve(
+  calendar: BusinessCalendar,
+  holidayLists: HolidayList[],
+  fallbackTimeZone: string
+): ResolvedCalendar {
+  const holidays = new Set<string>();
+  holidayLists
+    .filter((list) => calendar.holidayListIds?.includes(list.id))
+    .forEach((list) => list.holidays.forEach((h) => holidays.add(h.date)));
+
+  return {
+    id: calendar.id,
+    name: calendar.name,
+    timeZone: calendar.timeZone || fallbackTimeZone,
+    weekly: calendar.weekly,
+    holidays,
+  };
+}
+
+export function defaultBusinessCalendar(
+  timeZone: string = DEFAULT_TIMEZONE
+): ResolvedCalendar {
+  return resolve(STANDARD_CALENDAR, [], timeZone);
+}
+
+// Pick the calendar for an org phone or team, falling back to the default
+export function resolveBusinessCalendar(
+  config: BusinessCalendarConfig,
+  target: { orgPhone?: string; team?: string } = {},
+  fallbackTimeZone: string = DEFAULT_TIMEZONE
+): ResolvedCalendar {
+  const id =
+    (target.orgPhone && config.assignments.orgPhones[target.orgPhone]) ||
+    (target.team && config.assignments.teams[target.team]) ||
+    config.defaultCalendarId;
+
+  const calendar =
+    config.calendars.find((c) => c.id === id) ??
+    config.calendars.find((c) => c.id === config.defaultCalendarId) ??
+    STANDARD_CALENDAR;
+
+  return resolve(calendar, config.holidayLists, fallbackTimeZone);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Time between two instants that falls inside the calendar's working
+// intervals, skipping holidays
+export function businessTimeBetween(
+  start: Date,
+  end: Date,
+  calendar: ResolvedCalendar
+): number {
+  if (end <= start) return 0;
+
+  const { timeZone } = calendar;
+  const first = getZonedParts(start, timeZone);
+  let total = 0;
+
+  // walk zoned calendar days starting at the day containing `start`
+  for (let offset = 0; ; offset++) {
+    const day = zonedTimeToDate(timeZone, first.year, first.month, first.day + offset);
+    if (day >= end) break;
+    if (calendar.holidays.has(formatZonedDate(day, timeZone))) continue;
+
+    const { weekday, year, month, day: date } = getZonedParts(day, timeZone);
+    for (const interval of calendar.weekly[WEEKDAYS[weekday]] ?? []) {
+      const open = zonedTimeToDate(timeZone, year, month, date, 0, toMinutes(interval.start));
+      const close = zonedTimeToDate(timeZone, year, month, date, 0, toMinutes(interval.end));
+
+      const sliceStart = start > open ? start : open;
+      const sliceEnd = end < close ? end : close;
+      if (sliceEnd > sliceStart) {
+        total += sliceEnd.getTime() - sliceStart.getTime();
+      }
+    }
+  }
+  return total;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Type problems in a calendar config sent by the dashboard, before it is
+// validated
+export function checkCalendarInput(body: unknown): string[] {
+  const problems = checkJsonFields(body, "Calendar config", {
+    calendars: "list",
+    holidayLists: "list",
+    defaultCalendarId: "string",
+    assignments: "object",
+  });
+  if (problems.length > 0) return problems;
+
+  const { calendars, holidayLists, assignments } = body as {
+    calendars?: unknown[];
+    holidayLists?: unknown[];
+    assignments?: unknown;
+  };
+  if (assignments) {
+    problems.push(
+      ...checkJsonFields(assignments, "assignments", { orgPhones: "object", teams: "object" })
+    );
+  }
+
+  (calendars ?? []).forEach((calendar, index) => {
+    const label = `calendars[${index}]`;
+    const calendarProblems = checkJsonFields(calendar, label, {
+      id: "string",
+      name: "string",
+      timeZone: "string",
+      weekly: "object",
+      holidayListIds: "strings",
+    });
+    problems.push(...calendarProblems);
+    if (calendarProblems.length > 0) return;
+    const { weekly } = calendar as { weekly?: Record<string, unknown> };
+    if (!weekly) return;
+
+    const weeklyProblems = checkJsonFields(
+      weekly,
+      `${label}.weekly`,
+      Object.fromEntries(Object.keys(weekly).map((weekday) => [weekday, "list" as const]))
+    );
+    problems.push(...weeklyProblems);
+    if (weeklyProblems.length > 0) return;
+    Object.entries(weekly).forEach(([weekday, intervals]) =>
+      ((intervals as unknown[] | null) ?? []).forEach((interval, intervalIndex) =>
+        problems.push(
+          ...checkJsonFields(interval, `${label}.weekly.${weekday}[${intervalIndex}]`, {
+            start: "string",
+            end: "string",
+          })
+        )
+      )
+    );
+  });
+
+  (holidayLists ?? []).forEach((list, index) => {
+    const label = `holidayLists[${index}]`;
+    const listProblems = checkJsonFields(list, label, {
+      id: "string",
+      name: "string",
+      holidays: "list",
+    });
+    problems.push(...listProblems);
+    if (listProblems.length > 0) return;
+    ((list as { holidays?: unknown[] }).holidays ?? []).forEach((holiday, holidayIndex) =>
+      problems.push(
+        ...checkJsonFields(holiday, `${label}.holidays[${holidayIndex}]`, {
+          date: "string",
+          name: "string",
+        })
+      )
+    );
+  });
+  return problems;
+}
+
+// Returns a list of problems; an empty list means the config can be saved
+export function validateCalendarConfig(config: BusinessCalendarConfig): string[] {
+  const errors: string[] = [];
+  const calendars = Array.isArray(config.calendars) ? config.calendars : [];
+  const holidayLists = Array.isArray(config.holidayLists) ? config.holidayLists : [];
+  const calendarIds = new Set(calendars.map((c) => c.id));
+  const holidayListIds = new Set(holidayLists.map((l) => l.id));
+
+  if (calendars.length === 0) {
+    errors.push("at least one calendar is required");
+  }
+  if (!Array.isArray(config.holidayLists)) {
+    errors.push("holidayLists must be a list");
+  }
+  if (!calendarIds.has(config.defaultCalendarId)) {
+    errors.push(`defaultCalendarId "${config.defaultCalendarId}" is not a calendar`);
+  }
+
+  calendars.forEach((calendar) => {
+    const label = `calendar "${calendar.id}"`;
+    if (calendar.timeZone && !isValidTimeZone(calendar.timeZone)) {
+      errors.push(`${label}: unknown timezone "${calendar.timeZone}"`);
+    }
+    Object.entries(calendar.weekly ?? {}).forEach(([weekday, intervals]) => {
+      if (!WEEKDAYS.includes(weekday as Weekday)) {
+        errors.push(`${label}: unknown weekday "${weekday}"`);
+        return;
+      }
+      if (!Array.isArray(intervals)) {
+        errors.push(`${label}: ${weekday} must be a list of intervals`);
+        return;
+      }
+      intervals.forEach(({ start, end }) => {
+        if (!TIME_PATTERN.test(start) || !TIME_PATTERN.test(end)) {
+          errors.push(`${label}: ${weekday} interval ${start}–${end} must use HH:MM`);
+        } else if (toMinutes(start) >= toMinutes(end)) {
+          errors.push(`${label}: ${weekday} interval ${start}–${end} ends before it starts`);
+        }
+      });
+    });
+    (Array.isArray(calendar.holidayListIds) ? calendar.holidayListIds : []).forEach((id) => {
+      if (!holidayListIds.has(id)) {
+        errors.push(`${label}: unknown holiday list "${id}"`);
+      }
+    });
+  });
+
+  holidayLists.forEach((list) => {
+    if (!Array.isArray(list.holidays)) {
+      errors.push(`holiday list "${list.id}": holidays must be a list`);
+      return;
+    }
+    list.holidays.forEach(({ date }) => {
+      if (!DATE_PATTERN.test(date)) {
+        errors.push(`holiday list "${list.id}": date "${date}" must use YYYY-MM-DD`);
+      }
+    });
+  });
+
+  Object.entries({
+    ...config.assignments?.orgPhones,
+    ...config.assignments?.teams,
+  }).forEach(([target, id]) => {
+    if (!calendarIds.has(id)) {
+      errors.push(`assignment "${target}": unknown calendar "${id}"`);
+    }
+  });
+
+  return errors;
+}
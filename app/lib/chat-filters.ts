@@ -0,0 +1,134 @@
+// app/lib/chat-filters.ts
+import type { Chat } from "./types/periskope";
+import {
+  describePropertyFilters,
+  matchesPropertyFilters,
+  parsePropertyFilters,
+  type PropertyFilter,
+} from "./custom-properties";
+import { chatHasLabel } from "./chat-labels";
+
+export const CHAT_TYPES: Chat["chat_type"][] = ["user", "group", "business"];
+
+// Chat types fetched when the request names none; chat analytics has always
+// been about group chats
+export const DEFAULT_CHAT_TYPES: Chat["chat_type"][] = ["group"];
+
+// Matches chats with no assigned_to in the agent filter
+export const UNASSIGNED_AGENT = "unassigned";
+
+// WhatsApp IDs as Periskope reports them, e.g. 918527014950@c.us
+export const WHATSAPP_ID_PATTERN = /^\d{8,15}@c\.us$/;
+
+// Effective chat filter. Empty lists mean "no restriction", except chatTypes,
+// which always holds the types that were fetched.
+export interface ChatFilters {
+  orgPhones: string[];
+  chatTypes: Chat["chat_type"][];
+  agents: string[];
+  // Chats must carry one of `labels` and none of `excludeLabels`;
+  // NO_LABEL stands for chats without labels
+  labels: string[];
+  excludeLabels: string[];
+  // Custom property filters; see custom-properties
+  properties: PropertyFilter[];
+}
+
+// Values may be repeated (?orgPhone=a&orgPhone=b) or comma-separated
+export function readList(params: URLSearchParams, name: string): string[] {
+  const values = params
+    .getAll(name)
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+  return Array.from(new Set(values));
+}
+
+// Read orgPhone, chatType, agent, label, excludeLabel and property params. Invalid values are
+// reported in `errors` rather than silently dropped.
+export function parseChatFilters(
+  params: URLSearchParams,
+  defaultChatTypes: Chat["chat_type"][] = DEFAULT_CHAT_TYPES
+): {
+  filters: ChatFilters;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  const orgPhones = readList(params, "orgPhone");
+  orgPhones
+    .filter((phone) => !WHATSAPP_ID_PATTERN.test(phone))
+    .forEach((phone) =>
+      errors.push(`orgPhone "${phone}" must look like 918527014950@c.us`)
+    );
+
+  const chatTypes = readList(params, "chatType").map((type) => type.toLowerCase());
+  chatTypes
+    .filter((type) => !CHAT_TYPES.includes(type as Chat["chat_type"]))
+    .forEach((type) =>
+      errors.push(`chatType "${type}" must be one of ${CHAT_TYPES.join(", ")}`)
+    );
+
+  const labels = readList(params, "label");
+  const excludeLabels = readList(params, "excludeLabel");
+  labels
+    .filter((label) => excludeLabels.includes(label))
+    .forEach((label) => errors.push(`label "${label}" cannot be both included and excluded`));
+
+  const properties = parsePropertyFilters(params);
+  errors.push(...properties.errors);
+
+  return {
+    filters: {
+      orgPhones,
+      chatTypes: chatTypes.length
+        ? (chatTypes as Chat["chat_type"][])
+        : defaultChatTypes,
+      agents: readList(params, "agent").map((agent) => agent.toLowerCase()),
+      labels,
+      excludeLabels,
+      properties: properties.filters,
+    },
+    errors,
+  };
+}
+
+// Org phones Periskope lists for a chat; a group shared by several of our
+// numbers has more than one
+export function chatOrgPhones(chat: Chat): string[] {
+  return chat.chat_org_phones?.length ? chat.chat_org_phones : [chat.org_phone];
+}
+
+// Labels match if the chat carries any of them and none of the excluded
+// ones; org phones if any of the chat's numbers is selected; custom
+// properties if every filter matches
+export function matchesChatFilters(chat: Chat, filters: ChatFilters): boolean {
+  if (
+    filters.orgPhones.length &&
+    !chatOrgPhones(chat).some((orgPhone) => filters.orgPhones.includes(orgPhone))
+  ) {
+    return false;
+  }
+  if (!filters.chatTypes.includes(chat.chat_type)) return false;
+  if (filters.agents.length) {
+    const agent = chat.assigned_to?.toLowerCase() || UNASSIGNED_AGENT;
+    if (!filters.agents.includes(agent)) return false;
+  }
+  if (filters.labels.length && !filters.labels.some((label) => chatHasLabel(chat, label))) {
+    return false;
+  }
+  if (filters.excludeLabels.some((label) => chatHasLabel(chat, label))) return false;
+  return matchesPropertyFilters(chat, filters.properties);
+}
+
+// One-line summary for logs and the debug block
+export function describeChatFilters(filters: ChatFilters): string {
+  return [
+    `orgPhone: ${filters.orgPhones.join(", ") || "all"}`,
+    `chatType: ${filters.chatTypes.join(", ")}`,
+    `agent: ${filters.agents.join(", ") || "any"}`,
+    `label: ${filters.labels.join(", ") || "any"}`,
+    ...(filters.excludeLabels.length ? [`excluding label: ${filters.excludeLabels.join(", ")}`] : []),
+    `property: ${describePropertyFilters(filters.properties) || "any"}`,
+  ].join(" • ");
+}
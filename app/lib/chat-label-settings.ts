@@ -0,0 +1,21 @@
+// app/lib/chat-label-settings.ts
+import { DEFAULT_CHAT_LABEL_CONFIG, type ChatLabelConfig } from "./chat-labels";
+import { getSettingsStore } from "./settings-store";
+
+const SETTINGS_KEY = "chatLabels";
+
+// The saved label names, or none when nothing has been saved or the settings
+// store cannot be reached; labels then show their ids
+export async function getChatLabelConfig(): Promise<ChatLabelConfig> {
+  try {
+    const saved = await getSettingsStore().get<ChatLabelConfig>(SETTINGS_KEY);
+    return saved ?? DEFAULT_CHAT_LABEL_CONFIG;
+  } catch (error) {
+    console.error("[chat-labels] failed to load labels, using ids:", error);
+    return DEFAULT_CHAT_LABEL_CONFIG;
+  }
+}
+
+export async function saveChatLabelConfig(config: ChatLabelConfig): Promise<void> {
+  await getSettingsStore().set(SETTINGS_KEY, config);
+}
@@ -0,0 +1,121 @@
+// app/lib/chat-labels.ts
+import type { Chat } from "./types/periskope";
+import { checkJsonFields } from "./utils";
+
+// Periskope only sends label ids with chats; their names come from this
+// directory, which admins keep in settings
+export interface ChatLabel {
+  id: string;
+  name: string;
+}
+
+export interface ChatLabelConfig {
+  labels: ChatLabel[];
+}
+
+export const DEFAULT_CHAT_LABEL_CONFIG: ChatLabelConfig = { labels: [] };
+
+// Matches chats that carry no label, in the label filters and breakdown
+export const NO_LABEL = "unlabelled";
+
+// A label offered as a filter choice, with how many chats carry it
+export interface LabelOption extends ChatLabel {
+  chats: number;
+}
+
+// Open chats carrying one label
+export interface LabelTotals {
+  labelId: string;
+  name: string;
+  open: number;
+  overdue: number;
+  averageAgeInHours: number;
+}
+
+export function chatLabelIds(chat: Pick<Chat, "label_ids">): string[] {
+  return Object.keys(chat.label_ids ?? {}).filter((id) => chat.label_ids[id]);
+}
+
+// NO_LABEL matches chats without any label
+export function chatHasLabel(chat: Pick<Chat, "label_ids">, label: string): boolean {
+  return label === NO_LABEL ? chatLabelIds(chat).length === 0 : !!chat.label_ids?.[label];
+}
+
+// The directory name, or the id itself for labels nobody has named yet
+export function labelName(config: ChatLabelConfig, id: string): string {
+  if (id === NO_LABEL) return "No label";
+  return config.labels.find((label) => label.id === id)?.name ?? id;
+}
+
+// Type problems in label names sent by the dashboard, before they are trimmed
+export function checkChatLabelInput(body: unknown): string[] {
+  const problems = checkJsonFields(body, "labels", { labels: "list" });
+  if (problems.length > 0) return problems;
+
+  ((body as { labels?: unknown[] }).labels ?? []).forEach((label, index) =>
+    problems.push(...checkJsonFields(label, `labels[${index}]`, { id: "string", name: "string" }))
+  );
+  return problems;
+}
+
+export function validateChatLabelConfig(config: ChatLabelConfig): string[] {
+  if (!Array.isArray(config.labels)) return ["labels must be a list"];
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  config.labels.forEach((label) => {
+    if (!label.id) errors.push(`${label.name || "label"}: id is required`);
+    else if (label.id === NO_LABEL) errors.push(`label "${label.id}": id is reserved for chats without labels`);
+    else if (ids.has(label.id)) errors.push(`label "${label.id}": duplicate id`);
+    ids.add(label.id);
+
+    if (!label.name?.trim()) errors.push(`label "${label.id}": name is required`);
+  });
+  return errors;
+}
+
+// Every label in the directory or on `chats`, most common first
+export function listChatLabels(
+  config: ChatLabelConfig,
+  chats: Pick<Chat, "label_ids">[]
+): LabelOption[] {
+  const counts = new Map<string, number>(config.labels.map((label) => [label.id, 0]));
+  chats.forEach((chat) =>
+    chatLabelIds(chat).forEach((id) => counts.set(id, (counts.get(id) ?? 0) + 1))
+  );
+
+  return Array.from(counts, ([id, count]) => ({ id, name: labelName(config, id), chats: count })).sort(
+    (a, b) => b.chats - a.chats || a.name.localeCompare(b.name)
+  );
+}
+
+// Open and overdue chats and their average age per label. A chat with several
+// labels counts towards each, and one without any towards NO_LABEL. Labels
+// with the most open chats come first.
+export function totalsByLabel(
+  chats: { chat: Pick<Chat, "label_ids">; overdue: boolean; ageMs: number }[],
+  config: ChatLabelConfig
+): LabelTotals[] {
+  const totals = new Map<string, { open: number; overdue: number; ageMs: number; aged: number }>();
+  chats.forEach(({ chat, overdue, ageMs }) => {
+    const ids = chatLabelIds(chat);
+    (ids.length ? ids : [NO_LABEL]).forEach((id) => {
+      const sum = totals.get(id) ?? { open: 0, overdue: 0, ageMs: 0, aged: 0 };
+      sum.open++;
+      if (overdue) sum.overdue++;
+      if (ageMs >= 0) {
+        sum.ageMs += ageMs;
+        sum.aged++;
+      }
+      totals.set(id, sum);
+    });
+  });
+
+  return Array.from(totals, ([labelId, sum]) => ({
+    labelId,
+    name: labelName(config, labelId),
+    open: sum.open,
+    overdue: sum.overdue,
+    averageAgeInHours: sum.aged > 0 ? Math.round((sum.ageMs / sum.aged / (1000 * 60 * 60)) * 100) / 100 : 0,
+  })).sort((a, b) => b.open - a.open || a.name.localeCompare(b.name));
+}
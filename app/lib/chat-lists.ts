@@ -0,0 +1,122 @@
+// app/lib/chat-lists.ts
+import type { ChatMetrics } from "./types/periskope";
+import type { CellValue } from "./csv";
+import { agentDisplayName, type AgentRoster } from "./agent-roster";
+import { formatInTimeZone } from "./timezone";
+
+export type OpenChatDetail = ChatMetrics["openChatDetails"][number];
+export type OverdueChatDetail = ChatMetrics["delayedResponseDetails"][number];
+
+export const CHAT_LISTS = ["open", "overdue"] as const;
+
+export type ChatList = (typeof CHAT_LISTS)[number];
+
+// The Chats tab search: name, id, type, or the assigned agent's number or
+// roster name, case-insensitive
+export function matchesChatSearch(
+  chat: OpenChatDetail | OverdueChatDetail,
+  search: string,
+  roster: AgentRoster | null
+): boolean {
+  const term = search.trim().toLowerCase();
+  if (!term) return true;
+  return (
+    chat.chatName.toLowerCase().includes(term) ||
+    chat.chatId.toLowerCase().includes(term) ||
+    (!!chat.agentPhone && chat.agentPhone.toLowerCase().includes(term)) ||
+    agentDisplayName(roster, chat.agentPhone).toLowerCase().includes(term) ||
+    (!!chat.chatType && chat.chatType.toLowerCase().includes(term))
+  );
+}
+
+export interface ChatTable {
+  header: string[];
+  rows: CellValue[][];
+}
+
+const urgency = (chat: OpenChatDetail | OverdueChatDetail) =>
+  chat.sla?.tier?.label ?? (chat.sla?.overdue === false ? "" : chat.urgencyLevel ?? "");
+
+// One row per chat, with timestamps in `timeZone`
+export function chatListTable(
+  list: ChatList,
+  metrics: ChatMetrics,
+  options: { search?: string; roster: AgentRoster | null; timeZone: string }
+): ChatTable {
+  const { roster, timeZone } = options;
+  const time = (value?: string) => (value ? formatInTimeZone(value, timeZone) : "");
+  // Every label on the listed chats has a row in the label breakdown
+  const labelNames = new Map(metrics.byLabel?.map((label) => [label.labelId, label.name]));
+  const labels = (chat: OpenChatDetail | OverdueChatDetail) =>
+    (chat.labelIds ?? []).map((id) => labelNames.get(id) ?? id).join(", ");
+
+  if (list === "open") {
+    return {
+      header: [
+        "Chat name",
+        "Chat ID",
+        "Type",
+        "Assigned agent",
+        "Org phone",
+        "Labels",
+        "Age (hours)",
+        "Hours waiting",
+        "Urgency",
+        "SLA policy",
+        "Last activity",
+        "Last message",
+      ],
+      rows: metrics.openChatDetails
+        .filter((chat) => matchesChatSearch(chat, options.search ?? "", roster))
+        .map((chat) => [
+          chat.chatName,
+          chat.chatId,
+          chat.chatType,
+          agentDisplayName(roster, chat.agentPhone),
+          chat.orgPhone,
+          labels(chat),
+          chat.ageInHours,
+          chat.sla?.waitingHours,
+          urgency(chat),
+          chat.sla?.policyName,
+          time(chat.lastActivity),
+          chat.lastMessageBody,
+        ]),
+    };
+  }
+
+  return {
+    header: [
+      "Chat name",
+      "Chat ID",
+      "Type",
+      "Assigned agent",
+      "Org phone",
+      "Labels",
+      "Hours waiting",
+      "Business hours waiting",
+      "Urgency",
+      "SLA policy",
+      "Target (hours)",
+      "Customer message at",
+      "Last message",
+    ],
+    rows: metrics.delayedResponseDetails
+      .filter((chat) => matchesChatSearch(chat, options.search ?? "", roster))
+      .map((chat) => [
+        chat.chatName,
+        chat.chatId,
+        chat.chatType,
+        agentDisplayName(roster, chat.agentPhone),
+        chat.orgPhone,
+        labels(chat),
+        chat.hoursWithoutResponse,
+        chat.businessHoursWithoutResponse,
+        urgency(chat),
+        chat.sla?.policyName,
+        chat.sla?.targetHours,
+        time(chat.lastMessageTime),
+        chat.lastMessageBody,
+      ]),
+  };
+}
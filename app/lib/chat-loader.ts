@@ -0,0 +1,80 @@
+// app/lib/chat-loader.ts
+import type { Chat } from "./types/periskope";
+import { getDataSource, type GetChatsOptions } from "./data-source";
+import { chatOrgPhones } from "./chat-filters";
+import { getChatStore, type ChatStore } from "./chat-store";
+import { resolvePeriskopeAccount } from "./periskope-accounts";
+
+const PAGE_SIZE = 1000;
+const MAX_CHATS = 10000; // Safety limit
+
+// How long webhook events alone keep the chat store current before the next
+// full pull, to heal any events that were missed
+const CHAT_RESYNC_MS =
+  (Number(process.env.PERISKOPE_CHAT_RESYNC_MINUTES) || 60) * 60 * 1000;
+
+// Page through every chat matching `options`, de-duplicated by chat_id.
+// The Periskope API ignores org_phone, so it is also applied client-side.
+// Accounts with webhook ingestion answer chat type and org phone queries from
+// the chat store instead.
+export async function loadAllChats(
+  options: Omit<GetChatsOptions, "offset" | "limit"> = {},
+  accountId?: string
+): Promise<Chat[]> {
+  const account = resolvePeriskopeAccount(accountId);
+  const store = getChatStore();
+  if (store && account.webhookSecret && !options.label && !options.start_time && !options.end_time) {
+    return loadStoredChats(store, account.id, options);
+  }
+  return pullChats(options, accountId);
+}
+
+async function pullChats(
+  options: Omit<GetChatsOptions, "offset" | "limit">,
+  accountId?: string
+): Promise<Chat[]> {
+  const chats = new Map<string, Chat>();
+
+  for (let offset = 0; offset < MAX_CHATS; offset += PAGE_SIZE) {
+    const response = await getDataSource(accountId).getChats({
+      ...options,
+      offset,
+      limit: PAGE_SIZE,
+    });
+    response.chats
+      .filter((chat) => !options.org_phone || chatOrgPhones(chat).includes(options.org_phone))
+      .forEach((chat) => chats.set(chat.chat_id, chat));
+
+    console.log(`[chat-loader] offset ${offset}: ${response.chats.length} chats (${chats.size} unique matches)`);
+    if (response.chats.length < PAGE_SIZE) break;
+  }
+
+  return Array.from(chats.values());
+}
+
+// Pull every chat of the account when the stored copy is missing or older
+// than CHAT_RESYNC_MS, then filter the stored chats locally
+async function loadStoredChats(
+  store: ChatStore,
+  accountId: string,
+  options: Omit<GetChatsOptions, "offset" | "limit">
+): Promise<Chat[]> {
+  const state = await store.getSyncState(accountId);
+  const age = state.lastFullSyncAt ? Date.now() - new Date(state.lastFullSyncAt).getTime() : Infinity;
+
+  if (age >= CHAT_RESYNC_MS) {
+    const syncedAt = new Date().toISOString();
+    const chats = await pullChats({}, accountId);
+    await store.upsertChats(accountId, chats);
+    await store.saveSyncState({ ...state, lastFullSyncAt: syncedAt });
+    console.log(`[chat-loader] ${accountId}: stored ${chats.length} chats from a full pull`);
+  }
+
+  const chats = (await store.listChats(accountId)).filter(
+    (chat) =>
+      (!options.chat_type || chat.chat_type === options.chat_type) &&
+      (!options.org_phone || chatOrgPhones(chat).includes(options.org_phone))
+  );
+  console.log(`[chat-loader] ${accountId}: ${chats.length} matching chats from ${store.kind} store`);
+  return chats;
+}
@@ -0,0 +1,230 @@
+// app/lib/chat-metrics.ts
+import type { Chat, ChatMetrics } from "./types/periskope";
+import { loadOpenChats } from "./open-chats";
+import { describeChatFilters, type ChatFilters } from "./chat-filters";
+import {
+  businessTimeBetween,
+  resolveBusinessCalendar,
+  type BusinessCalendarConfig,
+} from "./business-calendar";
+import { getBusinessCalendarConfig } from "./business-calendar-settings";
+import { evaluateSla, type SlaEvaluation, type SlaPolicyConfig } from "./sla-policy";
+import { getSlaPolicyConfig } from "./sla-policy-settings";
+import type { PeriskopeAccount } from "./periskope-accounts";
+import { totalsByProperty } from "./custom-properties";
+import { chatLabelIds, totalsByLabel, type ChatLabelConfig } from "./chat-labels";
+import { getChatLabelConfig } from "./chat-label-settings";
+
+// Extended interface for detailed chat info
+interface DetailedChatInfo {
+  chatId: string;
+  chatName: string;
+  ageInHours: number;
+  chatType?: string;
+  agentPhone?: string | null;
+  lastActivity?: string;
+  orgPhone?: string | null;
+  memberCount?: number;
+  isAssigned?: boolean;
+  lastMessageFromCustomer?: boolean;
+  requiresResponse?: boolean;
+  lastMessageBody?: string | null;
+  urgencyLevel?: string;
+  sla?: SlaEvaluation;
+  labelIds?: string[];
+}
+
+// Metrics for the open chats matching `filters`, as of now. `team` picks a
+// team's business calendar.
+export async function loadChatMetrics(
+  filters: ChatFilters,
+  account: PeriskopeAccount,
+  team?: string
+): Promise<ChatMetrics> {
+  const openChats = await loadOpenChats(filters, account.id);
+  console.log(`[chat-analytics] FINAL RESULT: ${openChats.length} truly open chats after timestamp filtering`);
+
+  // Business calendars turn "hours waiting" into business hours per org phone
+  const calendarConfig = await getBusinessCalendarConfig();
+  const slaConfig = await getSlaPolicyConfig();
+  const labelConfig = await getChatLabelConfig();
+
+  return processChatsToMetrics(openChats, filters, account, calendarConfig, slaConfig, labelConfig, team);
+}
+
+// Streamlined metrics processing
+function processChatsToMetrics(
+  chats: Chat[],
+  filters: ChatFilters,
+  account: PeriskopeAccount,
+  calendarConfig: BusinessCalendarConfig,
+  slaConfig: SlaPolicyConfig,
+  labelConfig: ChatLabelConfig,
+  team?: string
+): ChatMetrics {
+  const now = new Date();
+  const currentTime = now.getTime();
+
+  let totalAgeMs = 0;
+  let maxAgeMs = 0;
+  let chatsWithDelayedResponse = 0;
+  let validAgeCount = 0;
+
+  const openChatDetails: DetailedChatInfo[] = [];
+  const delayedResponseDetails: ChatMetrics["delayedResponseDetails"] = [];
+
+  const overdueChatIds = new Set<string>();
+  const labelItems: Parameters<typeof totalsByLabel>[0] = [];
+
+  chats.forEach((chat) => {
+    const calendar = resolveBusinessCalendar(calendarConfig, {
+      orgPhone: chat.org_phone ?? undefined,
+      team,
+    });
+    const { ageMs, ageInHours, lastActivityTime } = chatActivity(chat, currentTime);
+    // Overdue status and urgency tier come from the chat's SLA policy
+    const sla = evaluateSla(chat, slaConfig, now, calendar);
+    const requiresResponse = sla.overdue;
+    const urgencyLevel = sla.tier?.id ?? "low";
+    const labelIds = chatLabelIds(chat);
+    labelItems.push({ chat, overdue: requiresResponse, ageMs });
+
+    // Update aggregates
+    if (ageMs >= 0) {
+      totalAgeMs += ageMs;
+      validAgeCount++;
+      if (ageMs > maxAgeMs) {
+        maxAgeMs = ageMs;
+      }
+    }
+
+    if (requiresResponse) {
+      chatsWithDelayedResponse++;
+      overdueChatIds.add(chat.chat_id);
+      
+      // Wall-clock and business hours since the customer's last message
+      const lastMessageTime = new Date(chat.latest_message!.timestamp);
+      const hoursWithoutResponse = (currentTime - lastMessageTime.getTime()) / (1000 * 60 * 60);
+      const businessHoursWaiting =
+        Math.round((businessTimeBetween(lastMessageTime, now, calendar) / (1000 * 60 * 60)) * 100) /
+        100;
+      
+      delayedResponseDetails.push({
+        chatId: chat.chat_id,
+        chatName: chat.chat_name,
+        chatType: chat.chat_type,
+        lastMessageTime: chat.latest_message?.timestamp || chat.updated_at,
+        hoursWithoutResponse: Math.round(hoursWithoutResponse * 100) / 100,
+        businessHoursWithoutResponse: businessHoursWaiting,
+        businessCalendar: calendar.name,
+        agentPhone: chat.assigned_to,
+        lastMessageFromCustomer: chat.latest_message ? !chat.latest_message.from_me : false,
+        memberCount: chat.member_count || 0,
+        orgPhone: chat.org_phone || null,
+        urgencyLevel: urgencyLevel,
+        sla,
+        lastMessageBody: messagePreview(chat),
+        labelIds,
+      });
+    }
+
+    // Add to open chat details
+    openChatDetails.push({
+      chatId: chat.chat_id,
+      chatName: chat.chat_name,
+      ageInHours: ageInHours,
+      chatType: chat.chat_type,
+      agentPhone: chat.assigned_to,
+      lastActivity: new Date(lastActivityTime).toISOString(),
+      memberCount: chat.member_count || 0,
+      isAssigned: !!chat.assigned_to,
+      orgPhone: chat.org_phone || null,
+      lastMessageFromCustomer: chat.latest_message ? !chat.latest_message.from_me : false,
+      requiresResponse: requiresResponse,
+      lastMessageBody: messagePreview(chat),
+      urgencyLevel: urgencyLevel,
+      sla,
+      labelIds,
+    });
+  });
+
+  // Calculate averages
+  const averageAgeInHours = validAgeCount > 0 
+    ? Math.round((totalAgeMs / validAgeCount / (1000 * 60 * 60)) * 100) / 100
+    : 0;
+  const maxAgeInHours = Math.round((maxAgeMs / (1000 * 60 * 60)) * 100) / 100;
+
+  const metrics: ChatMetrics = {
+    totalOpenChats: chats.length,
+    averageAgeInHours,
+    maxAgeInHours,
+    chatsWithDelayedResponse,
+    openChatDetails: openChatDetails.sort((a, b) => b.ageInHours - a.ageInHours),
+    delayedResponseDetails: delayedResponseDetails.sort((a, b) => b.hoursWithoutResponse - a.hoursWithoutResponse),
+    slaConfig,
+    byProperty: totalsByProperty(
+      chats,
+      (chat) => chat,
+      (chat) => ({ open: 1, overdue: overdueChatIds.has(chat.chat_id) ? 1 : 0 }),
+      "open"
+    ),
+    byLabel: totalsByLabel(labelItems, labelConfig),
+    _debug: {
+      account: account.id,
+      periskopePhone: account.phone,
+      hasApiKey: !!account.apiKey,
+      totalChatsFound: chats.length,
+      validActivityChats: validAgeCount,
+      chatTypeFilter: filters.chatTypes.join(","),
+      agentPhonesChecked: filters.orgPhones,
+      chatTypeDistribution: Object.fromEntries(
+        filters.chatTypes.map((type) => [
+          type,
+          chats.filter((chat) => chat.chat_type === type).length,
+        ])
+      ),
+      filters,
+      filterApplied: `${describeChatFilters(filters)}; timestamp-based filtering: latest_message.timestamp > closed_at = OPEN, else CLOSED`
+    },
+  };
+
+  console.log("[chat-analytics] PROCESSING COMPLETE:", {
+    totalOpenChats: metrics.totalOpenChats,
+    averageAgeInHours: metrics.averageAgeInHours,
+    maxAgeInHours: metrics.maxAgeInHours,
+    chatsWithDelayedResponse: metrics.chatsWithDelayedResponse,
+    overdueBreakdown: delayedResponseDetails.reduce((acc: Record<string, number>, chat) => {
+      const level = chat.urgencyLevel ?? "low";
+      acc[level] = (acc[level] ?? 0) + 1;
+      return acc;
+    }, {})
+  });
+
+  return metrics;
+}
+
+// First 100 characters of the latest message, for lists and exports
+function messagePreview(chat: Chat): string | null {
+  const body = chat.latest_message?.body;
+  if (!body) return null;
+  return body.length > 100 ? body.substring(0, 100) + "..." : body;
+}
+
+// Age of a chat from its latest activity (message, else update, else creation)
+function chatActivity(chat: Chat, currentTime: number) {
+  let lastActivityTime: number;
+  if (chat.latest_message?.timestamp) {
+    lastActivityTime = new Date(chat.latest_message.timestamp).getTime();
+  } else if (chat.updated_at) {
+    lastActivityTime = new Date(chat.updated_at).getTime();
+  } else {
+    lastActivityTime = new Date(chat.created_at).getTime();
+  }
+
+  const ageMs = currentTime - lastActivityTime;
+  return {
+    ageMs,
+    ageInHours: Math.round((ageMs / (1000 * 60 * 60)) * 100) / 100,
+    lastActivityTime,
+  };
+}
@@ -0,0 +1,41 @@
+// app/lib/chat-snapshot-job.ts
+import { loadChatMetrics } from "./chat-metrics";
+import { CHAT_TYPES } from "./chat-filters";
+import { toSnapshot, type ChatMetricsSnapshot } from "./chat-snapshots";
+import { getSnapshotStore } from "./snapshot-store";
+import { getPeriskopeAccounts } from "./periskope-accounts";
+
+export interface SnapshotRunResult {
+  takenAt: string;
+  snapshots: ChatMetricsSnapshot[];
+  // Accounts whose metrics could not be computed
+  failed: { account: string; error: string }[];
+}
+
+// Record one snapshot of every account's open-chat metrics, over all chat
+// types and without org phone or agent filters
+export async function takeChatMetricsSnapshots(now: Date = new Date()): Promise<SnapshotRunResult> {
+  const result: SnapshotRunResult = { takenAt: now.toISOString(), snapshots: [], failed: [] };
+  const store = getSnapshotStore();
+
+  for (const account of getPeriskopeAccounts()) {
+    try {
+      const metrics = await loadChatMetrics(
+        { orgPhones: [], chatTypes: [...CHAT_TYPES], agents: [], labels: [], excludeLabels: [], properties: [] },
+        account
+      );
+      const snapshot = toSnapshot(account.id, metrics, now);
+      await store.addSnapshot(snapshot);
+      result.snapshots.push(snapshot);
+    } catch (error) {
+      console.error(`[snapshots] ${account.id} failed:`, error);
+      result.failed.push({
+        account: account.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  console.log(`[snapshots] recorded ${result.snapshots.length} snapshot(s), ${result.failed.length} failed`);
+  return result;
+}
@@ -0,0 +1,160 @@
+// app/lib/chat-snapshots.ts
+import type { Chat, ChatMetrics } from "./types/periskope";
+import { CHAT_TYPES } from "./chat-filters";
+import { getZonedParts, startOfZonedDay, zonedTimeToDate } from "./timezone";
+
+// The backlog figures a snapshot records
+export interface SnapshotValues {
+  totalOpenChats: number;
+  averageAgeInHours: number;
+  maxAgeInHours: number;
+  chatsWithDelayedResponse: number;
+  // Overdue chats per SLA tier id
+  urgencyCounts: Record<string, number>;
+}
+
+// Account-wide chat metrics at one moment, overall and per chat type
+export interface ChatMetricsSnapshot extends SnapshotValues {
+  account: string;
+  takenAt: string;
+  byChatType: Partial<Record<Chat["chat_type"], SnapshotValues>>;
+}
+
+export type SnapshotBucket = "raw" | "hour" | "day" | "week";
+
+export const SNAPSHOT_BUCKETS: SnapshotBucket[] = ["raw", "hour", "day", "week"];
+
+export interface SnapshotPoint extends SnapshotValues {
+  // Start of the bucket, or the snapshot time for "raw"
+  at: string;
+  // Snapshots averaged into this point
+  samples: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function summarize(details: ChatMetrics["openChatDetails"]): SnapshotValues {
+  const urgencyCounts: Record<string, number> = {};
+  let totalAge = 0;
+  let maxAge = 0;
+  let overdue = 0;
+
+  details.forEach((chat) => {
+    totalAge += chat.ageInHours;
+    maxAge = Math.max(maxAge, chat.ageInHours);
+    if (chat.sla?.overdue) {
+      overdue++;
+      const tierId = chat.sla.tier?.id ?? "none";
+      urgencyCounts[tierId] = (urgencyCounts[tierId] ?? 0) + 1;
+    }
+  });
+
+  return {
+    totalOpenChats: details.length,
+    averageAgeInHours: details.length ? round2(totalAge / details.length) : 0,
+    maxAgeInHours: round2(maxAge),
+    chatsWithDelayedResponse: overdue,
+    urgencyCounts,
+  };
+}
+
+// Snapshot of metrics computed over every chat type
+export function toSnapshot(account: string, metrics: ChatMetrics, takenAt: Date): ChatMetricsSnapshot {
+  const byChatType: ChatMetricsSnapshot["byChatType"] = {};
+  CHAT_TYPES.forEach((type) => {
+    byChatType[type] = summarize(metrics.openChatDetails.filter((chat) => chat.chatType === type));
+  });
+
+  return {
+    account,
+    takenAt: takenAt.toISOString(),
+    ...summarize(metrics.openChatDetails),
+    byChatType,
+  };
+}
+
+// Add up several chat types' values; the average age is weighted by chats
+function combineValues(parts: SnapshotValues[]): SnapshotValues {
+  const total = parts.reduce((sum, part) => sum + part.totalOpenChats, 0);
+  const urgencyCounts: Record<string, number> = {};
+  parts.forEach((part) =>
+    Object.entries(part.urgencyCounts).forEach(([tierId, count]) => {
+      urgencyCounts[tierId] = (urgencyCounts[tierId] ?? 0) + count;
+    })
+  );
+
+  return {
+    totalOpenChats: total,
+    averageAgeInHours: total
+      ? round2(parts.reduce((sum, part) => sum + part.averageAgeInHours * part.totalOpenChats, 0) / total)
+      : 0,
+    maxAgeInHours: Math.max(0, ...parts.map((part) => part.maxAgeInHours)),
+    chatsWithDelayedResponse: parts.reduce((sum, part) => sum + part.chatsWithDelayedResponse, 0),
+    urgencyCounts,
+  };
+}
+
+// A snapshot's values for some chat types; every type when `chatTypes` is empty
+export function snapshotValues(
+  snapshot: ChatMetricsSnapshot,
+  chatTypes: Chat["chat_type"][]
+): SnapshotValues {
+  if (chatTypes.length === 0) return snapshot;
+  return combineValues(
+    chatTypes.map((type) => snapshot.byChatType[type]).filter((v): v is SnapshotValues => !!v)
+  );
+}
+
+function bucketStart(time: number, bucket: SnapshotBucket, timeZone: string): number {
+  switch (bucket) {
+    case "raw":
+      return time;
+    case "hour": {
+      const p = getZonedParts(time, timeZone);
+      return zonedTimeToDate(timeZone, p.year, p.month, p.day, p.hour).getTime();
+    }
+    case "day":
+      return startOfZonedDay(time, timeZone).getTime();
+    case "week": {
+      // Weeks start on Monday
+      const weekday = getZonedParts(time, timeZone).weekday;
+      return startOfZonedDay(time, timeZone, -((weekday + 6) % 7)).getTime();
+    }
+  }
+}
+
+// Average snapshots into hour, day or week buckets of `timeZone`; the max
+// age keeps its maximum. Counts become averages, so a day's point reads as
+// "typical backlog that day".
+export function bucketSnapshots(
+  snapshots: ChatMetricsSnapshot[],
+  chatTypes: Chat["chat_type"][],
+  bucket: SnapshotBucket,
+  timeZone: string
+): SnapshotPoint[] {
+  const groups = new Map<number, SnapshotValues[]>();
+  [...snapshots]
+    .sort((a, b) => a.takenAt.localeCompare(b.takenAt))
+    .forEach((snapshot) => {
+      const key = bucketStart(new Date(snapshot.takenAt).getTime(), bucket, timeZone);
+      groups.set(key, [...(groups.get(key) ?? []), snapshotValues(snapshot, chatTypes)]);
+    });
+
+  return Array.from(groups, ([start, values]) => {
+    const mean = (pick: (v: SnapshotValues) => number) =>
+      round2(values.reduce((sum, v) => sum + pick(v), 0) / values.length);
+    const tierIds = new Set(values.flatMap((v) => Object.keys(v.urgencyCounts)));
+
+    return {
+      at: new Date(start).toISOString(),
+      samples: values.length,
+      totalOpenChats: mean((v) => v.totalOpenChats),
+      averageAgeInHours: mean((v) => v.averageAgeInHours),
+      maxAgeInHours: Math.max(...values.map((v) => v.maxAgeInHours)),
+      chatsWithDelayedResponse: mean((v) => v.chatsWithDelayedResponse),
+      urgencyCounts: Object.fromEntries(
+        Array.from(tierIds, (tierId) => [tierId, mean((v) => v.urgencyCounts[tierId] ?? 0)])
+      ),
+    };
+  });
+}
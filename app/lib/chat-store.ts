@@ -0,0 +1,59 @@
+// app/lib/chat-store.ts
+import type { Chat } from "./types/periskope";
+import { getMessageStore, toStoredMessage, type MessageStoreKind } from "./message-store";
+import { createFirestoreChatStore } from "./chat-stores/firestore-chat-store";
+import { createMemoryChatStore } from "./chat-stores/memory-chat-store";
+
+// Sync bookkeeping for one account's chats
+export interface ChatSyncState {
+  account: string;
+  // When every chat of the account was last pulled from Periskope
+  lastFullSyncAt: string | null;
+}
+
+// Local copy of an account's Periskope chats keyed by chat_id, refreshed by a
+// full pull and kept current between pulls by webhook events
+export interface ChatStore {
+  readonly kind: MessageStoreKind;
+  getSyncState(account: string): Promise<ChatSyncState>;
+  saveSyncState(state: ChatSyncState): Promise<void>;
+  upsertChats(account: string, chats: Chat[]): Promise<void>;
+  getChat(account: string, chatId: string): Promise<Chat | null>;
+  listChats(account: string): Promise<Chat[]>;
+}
+
+export function emptyChatSyncState(account: string): ChatSyncState {
+  return { account, lastFullSyncAt: null };
+}
+
+// Members and the latest message's raw payload are dropped for the same
+// reasons as in toStoredMessage
+export function toStoredChat(chat: Chat): Chat {
+  const stored: Chat = {
+    ...chat,
+    members: undefined,
+    latest_message: chat.latest_message ? toStoredMessage(chat.latest_message) : null,
+  };
+  return JSON.parse(JSON.stringify(stored));
+}
+
+let chatStore: ChatStore | null | undefined;
+
+// Chats are kept in the same backend as messages (MESSAGE_STORE), and not at
+// all when the message store is off
+export function getChatStore(): ChatStore | null {
+  if (chatStore !== undefined) return chatStore;
+
+  switch (getMessageStore()?.kind) {
+    case "firestore":
+      chatStore = createFirestoreChatStore();
+      break;
+    case "memory":
+      chatStore = createMemoryChatStore();
+      break;
+    default:
+      chatStore = null;
+  }
+
+  return chatStore;
+}
@@ -0,0 +1,62 @@
+// app/lib/chat-stores/firestore-chat-store.ts
+import { getAdminFirestore } from "@/app/lib/firebase-admin";
+import {
+  emptyChatSyncState,
+  toStoredChat,
+  type ChatStore,
+  type ChatSyncState,
+} from "@/app/lib/chat-store";
+import type { Chat } from "@/app/lib/types/periskope";
+
+// Layout:
+//   chatStore/{account}                -> ChatSyncState
+//   chatStore/{account}/chats/{chatId} -> Chat
+const ROOT_COLLECTION = "chatStore";
+const BATCH_LIMIT = 500; // Firestore's maximum writes per batch
+
+function accountDoc(account: string) {
+  return getAdminFirestore().collection(ROOT_COLLECTION).doc(account);
+}
+
+function chatsCollection(account: string) {
+  return accountDoc(account).collection("chats");
+}
+
+// Persistent store in Firestore, through the Admin SDK in app/lib/firebase-admin.ts
+export function createFirestoreChatStore(): ChatStore {
+  return {
+    kind: "firestore",
+
+    async getSyncState(account: string): Promise<ChatSyncState> {
+      const snapshot = await accountDoc(account).get();
+      if (!snapshot.exists) return emptyChatSyncState(account);
+
+      const data = snapshot.data() as Partial<ChatSyncState>;
+      return { account, lastFullSyncAt: data.lastFullSyncAt ?? null };
+    },
+
+    async saveSyncState(state: ChatSyncState): Promise<void> {
+      await accountDoc(state.account).set(state);
+    },
+
+    async upsertChats(account: string, chats: Chat[]): Promise<void> {
+      for (let i = 0; i < chats.length; i += BATCH_LIMIT) {
+        const batch = getAdminFirestore().batch();
+        chats.slice(i, i + BATCH_LIMIT).forEach((chat) => {
+          batch.set(chatsCollection(account).doc(chat.chat_id), toStoredChat(chat));
+        });
+        await batch.commit();
+      }
+    },
+
+    async getChat(account: string, chatId: string): Promise<Chat | null> {
+      const snapshot = await chatsCollection(account).doc(chatId).get();
+      return snapshot.exists ? (snapshot.data() as Chat) : null;
+    },
+
+    async listChats(account: string): Promise<Chat[]> {
+      const snapshot = await chatsCollection(account).get();
+      return snapshot.docs.map((d) => d.data() as Chat);
+    },
+  };
+}
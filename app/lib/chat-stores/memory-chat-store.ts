@@ -0,0 +1,61 @@
+// app/lib/chat-stores/memory-chat-store.ts
+import {
+  emptyChatSyncState,
+  toStoredChat,
+  type ChatStore,
+  type ChatSyncState,
+} from "@/app/lib/chat-store";
+import type { Chat } from "@/app/lib/types/periskope";
+
+interface AccountData {
+  state: ChatSyncState;
+  chats: Map<string, Chat>;
+}
+
+// Kept on globalThis so the cache survives dev-server hot reloads
+const globalForStore = globalThis as unknown as {
+  memoryChatStore?: Map<string, AccountData>;
+};
+
+// Process-local store for offline development and tests. Contents are lost
+// when the server restarts.
+export function createMemoryChatStore(): ChatStore {
+  const accounts = (globalForStore.memoryChatStore ??= new Map());
+
+  const getAccount = (account: string): AccountData => {
+    let data = accounts.get(account);
+    if (!data) {
+      data = { state: emptyChatSyncState(account), chats: new Map() };
+      accounts.set(account, data);
+    }
+    return data;
+  };
+
+  return {
+    kind: "memory",
+
+    async getSyncState(account: string): Promise<ChatSyncState> {
+      return structuredClone(getAccount(account).state);
+    },
+
+    async saveSyncState(state: ChatSyncState): Promise<void> {
+      getAccount(state.account).state = structuredClone(state);
+    },
+
+    async upsertChats(account: string, chats: Chat[]): Promise<void> {
+      const data = getAccount(account);
+      chats.forEach((chat) => {
+        data.chats.set(chat.chat_id, toStoredChat(chat));
+      });
+    },
+
+    async getChat(account: string, chatId: string): Promise<Chat | null> {
+      const chat = getAccount(account).chats.get(chatId);
+      return chat ? structuredClone(chat) : null;
+    },
+
+    async listChats(account: string): Promise<Chat[]> {
+      return Array.from(getAccount(account).chats.values(), (chat) => structuredClone(chat));
+    },
+  };
+}
@@ -0,0 +1,48 @@
+// app/lib/cron.ts
+// Shared plumbing for scheduled jobs (SLA alerts, chat metric snapshots).
+// Serverless deployments call each job's run route from a cron; long-running
+// servers can run them in-process from instrumentation.ts instead.
+import { timingSafeEqual } from "crypto";
+import type { NextRequest } from "next/server";
+
+// `Authorization: Bearer $CRON_SECRET`, the header Vercel Cron sends
+export function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const token = request.headers.get("authorization")?.match(/^Bearer (.+)$/i)?.[1];
+  if (!secret || !token) return false;
+  const expected = Buffer.from(secret);
+  const given = Buffer.from(token);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+const timers = globalThis as typeof globalThis & {
+  cronTimers?: Map<string, ReturnType<typeof setInterval>>;
+};
+
+// Run `job` every `intervalMinutes` in this process. Started once per name;
+// a slow run is never overlapped by the next.
+export function startInterval(
+  name: string,
+  intervalMinutes: number,
+  job: () => Promise<unknown>
+): void {
+  const running = (timers.cronTimers ??= new Map());
+  if (running.has(name) || !(intervalMinutes > 0)) return;
+
+  let busy = false;
+  running.set(
+    name,
+    setInterval(async () => {
+      if (busy) return;
+      busy = true;
+      try {
+        await job();
+      } catch (error) {
+        console.error(`[cron] ${name} failed:`, error);
+      } finally {
+        busy = false;
+      }
+    }, intervalMinutes * 60 * 1000)
+  );
+  console.log(`[cron] running ${name} every ${intervalMinutes} minute(s)`);
+}
@@ -0,0 +1,191 @@
+// app/lib/custom-properties.ts
+import type { Chat } from "./types/periskope";
+
+// Chats match a filter when one of their values for the property is listed.
+// Filters on different properties must all match, e.g. plan is Growth or
+// Enterprise, and country is India.
+export interface PropertyFilter {
+  id: string;
+  values: string[];
+}
+
+// A property found on chats, with its values by number of chats
+export interface PropertyFacet {
+  id: string;
+  label: string;
+  values: { value: string; chats: number }[];
+  // Distinct values left out beyond MAX_FACET_VALUES
+  moreValues: number;
+}
+
+// Totals for each value of one property; `T` holds the counts
+export interface PropertyTotals<T> {
+  id: string;
+  label: string;
+  values: ({ value: string } & T)[];
+}
+
+// Breakdown row for chats that do not carry the property
+export const UNSET_PROPERTY_VALUE = "(not set)";
+
+// Free-text properties can have a value per chat; only the most common are
+// offered as filter choices
+const MAX_FACET_VALUES = 100;
+
+// ?property=<id>:<value>, e.g. property=plan:Growth
+const PROPERTY_PARAM = "property";
+
+// primary_kam → Primary Kam
+export function propertyLabel(id: string): string {
+  return id
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .split(/[\s_-]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+// A chat's values for a property as strings; multi-select properties hold
+// arrays. Empty values count as not set.
+export function chatPropertyValues(chat: Pick<Chat, "custom_properties">, id: string): string[] {
+  const raw = chat.custom_properties?.[id];
+  const values = Array.isArray(raw) ? raw : [raw];
+  return values
+    .filter((value) => value !== null && value !== undefined && typeof value !== "object")
+    .map((value) => String(value).trim())
+    .filter(Boolean);
+}
+
+export function matchesPropertyFilters(
+  chat: Pick<Chat, "custom_properties">,
+  filters: PropertyFilter[]
+): boolean {
+  return filters.every((filter) =>
+    chatPropertyValues(chat, filter.id).some((value) => filter.values.includes(value))
+  );
+}
+
+// Read repeated `property=<id>:<value>` params; values of the same property
+// are alternatives. The older customPropertyId/customPropertyValue pair is
+// read as one more filter.
+export function parsePropertyFilters(params: URLSearchParams): {
+  filters: PropertyFilter[];
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const pairs: [string, string][] = [];
+
+  params.getAll(PROPERTY_PARAM).forEach((param) => {
+    const separator = param.indexOf(":");
+    const id = param.slice(0, separator).trim();
+    const value = param.slice(separator + 1).trim();
+    if (separator < 0 || !id || !value) {
+      errors.push(`property "${param}" must look like plan:Growth`);
+    } else {
+      pairs.push([id, value]);
+    }
+  });
+
+  const legacyId = params.get("customPropertyId")?.trim();
+  const legacyValue = params.get("customPropertyValue")?.trim();
+  if (legacyId && legacyValue) {
+    pairs.push([legacyId, legacyValue]);
+  } else if (legacyId || legacyValue) {
+    errors.push("customPropertyId and customPropertyValue must be given together");
+  }
+
+  const byId = new Map<string, string[]>();
+  pairs.forEach(([id, value]) => {
+    const values = byId.get(id) ?? [];
+    if (!values.includes(value)) values.push(value);
+    byId.set(id, values);
+  });
+
+  return {
+    filters: Array.from(byId, ([id, values]) => ({ id, values })),
+    errors,
+  };
+}
+
+// The params parsePropertyFilters reads back
+export function appendPropertyFilters(params: URLSearchParams, filters: PropertyFilter[]): void {
+  filters.forEach((filter) =>
+    filter.values.forEach((value) => params.append(PROPERTY_PARAM, `${filter.id}:${value}`))
+  );
+}
+
+// One-line summary for logs and the status line
+export function describePropertyFilters(filters: PropertyFilter[]): string {
+  return filters
+    .map((filter) => `${propertyLabel(filter.id)}: ${filter.values.join(" or ")}`)
+    .join("; ");
+}
+
+// Every property set on `chats`, with its values, most common first
+export function discoverPropertyFacets(chats: Pick<Chat, "custom_properties">[]): PropertyFacet[] {
+  const counts = new Map<string, Map<string, number>>();
+  chats.forEach((chat) => {
+    Object.keys(chat.custom_properties ?? {}).forEach((id) => {
+      const values = chatPropertyValues(chat, id);
+      if (values.length === 0) return;
+      const valueCounts = counts.get(id) ?? new Map<string, number>();
+      new Set(values).forEach((value) => valueCounts.set(value, (valueCounts.get(value) ?? 0) + 1));
+      counts.set(id, valueCounts);
+    });
+  });
+
+  return Array.from(counts, ([id, valueCounts]) => {
+    const values = Array.from(valueCounts, ([value, chats]) => ({ value, chats })).sort(
+      (a, b) => b.chats - a.chats || a.value.localeCompare(b.value)
+    );
+    return {
+      id,
+      label: propertyLabel(id),
+      values: values.slice(0, MAX_FACET_VALUES),
+      moreValues: Math.max(0, values.length - MAX_FACET_VALUES),
+    };
+  }).sort((a, b) => a.label.localeCompare(b.label));
+}
+
+// Add up `items` per value of every property found on their chats. `count`
+// turns one item into the counts to add; an item whose chat has several
+// values of a property counts towards each, and one without any towards
+// UNSET_PROPERTY_VALUE. Values are ordered by `sortKey`, largest first.
+export function totalsByProperty<I, T extends Record<string, number>>(
+  items: I[],
+  chatOf: (item: I) => Pick<Chat, "custom_properties"> | undefined,
+  count: (item: I) => T,
+  sortKey: keyof T
+): PropertyTotals<T>[] {
+  const ids = new Set<string>();
+  items.forEach((item) => Object.keys(chatOf(item)?.custom_properties ?? {}).forEach((id) => ids.add(id)));
+
+  return Array.from(ids)
+    .map((id) => {
+      const totals = new Map<string, T>();
+      items.forEach((item) => {
+        const chat = chatOf(item);
+        const values = chat ? chatPropertyValues(chat, id) : [];
+        const add = count(item);
+        (values.length ? new Set(values) : [UNSET_PROPERTY_VALUE]).forEach((value) => {
+          const sum = totals.get(value);
+          totals.set(
+            value,
+            sum
+              ? (Object.fromEntries(
+                  Object.keys(add).map((key) => [key, sum[key] + add[key]])
+                ) as T)
+              : { ...add }
+          );
+        });
+      });
+      return {
+        id,
+        label: propertyLabel(id),
+        values: Array.from(totals, ([value, sums]) => ({ value, ...sums })).sort(
+          (a, b) => (b[sortKey] as number) - (a[sortKey] as number) || a.value.localeCompare(b.value)
+        ),
+      };
+    })
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
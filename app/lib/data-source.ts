@@ -0,0 +1,95 @@
+// app/lib/data-source.ts
+import type { Chat, ChatsResponse, MessageData } from "./types/periskope";
+import { createPeriskopeDataSource } from "./data-sources/periskope-data-source";
+import { createFixtureDataSource } from "./data-sources/fixture-data-source";
+import { resolvePeriskopeAccount } from "./periskope-accounts";
+
+// Query options shared by every data source. Field names follow the Periskope
+// REST API so options can be forwarded to the SDK untouched.
+export interface GetMessagesOptions {
+  start_time?: string;
+  end_time?: string;
+  org_phone?: string;
+  chat_id?: string;
+  custom_property_id?: string;
+  custom_property_value?: string;
+  offset?: number;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface GetChatsOptions {
+  chat_type?: Chat["chat_type"];
+  org_phone?: string;
+  label?: string;
+  start_time?: string;
+  end_time?: string;
+  offset?: number;
+  limit?: number;
+}
+
+export interface MessagesPage extends MessageData {
+  next_cursor?: string;
+}
+
+export type DataSourceKind = "periskope" | "fixture";
+
+// Everything the API routes need from Periskope. Routes must go through this
+// interface instead of touching the SDK client directly.
+export interface PeriskopeDataSource {
+  readonly kind: DataSourceKind;
+  getMessages(options: GetMessagesOptions): Promise<MessagesPage>;
+  getChats(options: GetChatsOptions): Promise<ChatsResponse>;
+  getChat(chatId: string): Promise<Chat | null>;
+}
+
+// Error thrown by data sources; statusCode mirrors the upstream HTTP status so
+// callers can keep their retry-on-429 logic.
+export class DataSourceError extends Error {
+  statusCode?: number;
+
+  constructor(message: string, statusCode?: number) {
+    super(message);
+    this.name = "DataSourceError";
+    this.statusCode = statusCode;
+  }
+}
+
+let fixtureSource: PeriskopeDataSource | null = null;
+const periskopeSources = new Map<string, PeriskopeDataSource>();
+
+// Resolve the configured data source for a Periskope account (see
+// app/lib/periskope-accounts.ts; the default account when omitted).
+// PERISKOPE_DATA_SOURCE=fixture serves the JSON files under fixtures/periskope
+// so the dashboard runs without credentials; fixtures are shared by every
+// account.
+export function getDataSource(accountId?: string): PeriskopeDataSource {
+  const kind = (process.env.PERISKOPE_DATA_SOURCE || "periskope").toLowerCase();
+
+  switch (kind) {
+    case "fixture":
+    case "fixtures":
+      if (!fixtureSource) {
+        fixtureSource = createFixtureDataSource({
+          dir: process.env.PERISKOPE_FIXTURES_DIR,
+          rebase: process.env.PERISKOPE_FIXTURES_REBASE !== "false",
+        });
+        console.log(`[data-source] Using ${fixtureSource.kind} data source`);
+      }
+      return fixtureSource;
+    case "periskope": {
+      const account = resolvePeriskopeAccount(accountId);
+      let source = periskopeSources.get(account.id);
+      if (!source) {
+        source = createPeriskopeDataSource(account);
+        periskopeSources.set(account.id, source);
+        console.log(`[data-source] Using ${source.kind} data source for account ${account.id}`);
+      }
+      return source;
+    }
+    default:
+      throw new Error(
+        `Unknown PERISKOPE_DATA_SOURCE "${kind}" (expected "periskope" or "fixture")`
+      );
+  }
+}
@@ -0,0 +1,170 @@
+// app/lib/data-sources/fixture-data-source.ts
+import { readFileSync } from "fs";
+import path from "path";
+import type {
+  GetChatsOptions,
+  GetMessagesOptions,
+  MessagesPage,
+  PeriskopeDataSource,
+} from "@/app/lib/data-source";
+import type { Chat, ChatsResponse, Message } from "@/app/lib/types/periskope";
+
+interface FixtureDataSourceConfig {
+  // Directory holding chats.json and messages.json
+  dir?: string;
+  // Shift every timestamp so the newest fixture message lands at "now"
+  rebase?: boolean;
+}
+
+interface FixtureData {
+  chats: Chat[];
+  messages: Message[];
+}
+
+const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), "fixtures", "periskope");
+const DEFAULT_PAGE_SIZE = 2000;
+
+function shiftTimestamp<T extends string | null | undefined>(
+  value: T,
+  offsetMs: number
+): T {
+  if (!value) return value;
+  return new Date(new Date(value).getTime() + offsetMs).toISOString() as T;
+}
+
+function shiftMessage(message: Message, offsetMs: number): Message {
+  return {
+    ...message,
+    timestamp: shiftTimestamp(message.timestamp, offsetMs),
+    updated_at: shiftTimestamp(message.updated_at, offsetMs),
+  };
+}
+
+function loadFixtures(dir: string, rebase: boolean): FixtureData {
+  const chats: Chat[] = JSON.parse(
+    readFileSync(path.join(dir, "chats.json"), "utf8")
+  );
+  const messages: Message[] = JSON.parse(
+    readFileSync(path.join(dir, "messages.json"), "utf8")
+  );
+
+  if (!rebase || messages.length === 0) {
+    return { chats, messages };
+  }
+
+  const newest = Math.max(
+    ...messages.map((m) => new Date(m.timestamp).getTime())
+  );
+  const offsetMs = Date.now() - newest;
+
+  return {
+    messages: messages.map((m) => shiftMessage(m, offsetMs)),
+    chats: chats.map((chat) => ({
+      ...chat,
+      created_at: shiftTimestamp(chat.created_at, offsetMs),
+      updated_at: shiftTimestamp(chat.updated_at, offsetMs),
+      closed_at: shiftTimestamp(chat.closed_at, offsetMs),
+      latest_message: chat.latest_message
+        ? shiftMessage(chat.latest_message, offsetMs)
+        : null,
+    })),
+  };
+}
+
+function inTimeRange(timestamp: string, start?: string, end?: string) {
+  const time = new Date(timestamp).getTime();
+  if (start && time < new Date(start).getTime()) return false;
+  if (end && time > new Date(end).getTime()) return false;
+  return true;
+}
+
+function paginate<T>(items: T[], offset = 0, limit = DEFAULT_PAGE_SIZE) {
+  const page = items.slice(offset, offset + limit);
+  return { page, from: offset, to: offset + page.length };
+}
+
+// Data source that serves Message and Chat objects from local JSON files,
+// applying the same filters and pagination as the Periskope API.
+export function createFixtureDataSource(
+  config: FixtureDataSourceConfig = {}
+): PeriskopeDataSource {
+  const dir = config.dir || DEFAULT_FIXTURES_DIR;
+  const rebase = config.rebase ?? true;
+  let fixtures: FixtureData | null = null;
+
+  const getFixtures = () => {
+    if (!fixtures) {
+      fixtures = loadFixtures(dir, rebase);
+      console.log(
+        `[fixture-data-source] Loaded ${fixtures.chats.length} chats and ${fixtures.messages.length} messages from ${dir}`
+      );
+    }
+    return fixtures;
+  };
+
+  return {
+    kind: "fixture",
+
+    async getMessages(options: GetMessagesOptions): Promise<MessagesPage> {
+      const { chats, messages } = getFixtures();
+
+      let chatIds: Set<string> | null = null;
+      if (options.custom_property_id && options.custom_property_value) {
+        chatIds = new Set(
+          chats
+            .filter(
+              (chat) =>
+                String(chat.custom_properties?.[options.custom_property_id!]) ===
+                options.custom_property_value
+            )
+            .map((chat) => chat.chat_id)
+        );
+      }
+
+      // Periskope returns messages newest first
+      const matching = messages
+        .filter(
+          (m) =>
+            inTimeRange(m.timestamp, options.start_time, options.end_time) &&
+            (!options.org_phone || m.org_phone === options.org_phone) &&
+            (!options.chat_id || m.chat_id === options.chat_id) &&
+            (!chatIds || chatIds.has(m.chat_id))
+        )
+        .sort(
+          (a, b) =>
+            new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+        );
+
+      const { page, from, to } = paginate(
+        matching,
+        options.offset,
+        options.limit
+      );
+      return { messages: page, from, to, count: matching.length };
+    },
+
+    async getChats(options: GetChatsOptions): Promise<ChatsResponse> {
+      const { chats } = getFixtures();
+
+      const matching = chats.filter(
+        (chat) =>
+          (!options.chat_type || chat.chat_type === options.chat_type) &&
+          (!options.org_phone || chat.org_phone === options.org_phone) &&
+          (!options.label || !!chat.label_ids?.[options.label]) &&
+          inTimeRange(chat.updated_at, options.start_time, options.end_time)
+      );
+
+      const { page, from, to } = paginate(
+        matching,
+        options.offset,
+        options.limit
+      );
+      return { chats: page, from, to, count: matching.length };
+    },
+
+    async getChat(chatId: string): Promise<Chat | null> {
+      const { chats } = getFixtures();
+      return chats.find((chat) => chat.chat_id === chatId) ?? null;
+    },
+  };
+}
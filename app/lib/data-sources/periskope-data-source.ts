@@ -0,0 +1,81 @@
+// app/lib/data-sources/periskope-data-source.ts
+import { getPeriskopeClient } from "@/app/lib/periskope";
+import type { PeriskopeAccount } from "@/app/lib/periskope-accounts";
+import {
+  DataSourceError,
+  type GetChatsOptions,
+  type GetMessagesOptions,
+  type MessagesPage,
+  type PeriskopeDataSource,
+} from "@/app/lib/data-source";
+import type { Chat, ChatsResponse } from "@/app/lib/types/periskope";
+
+interface SdkResponse<T> {
+  data?: T;
+  error?: { message?: string } | string | null;
+  status?: number;
+}
+
+// Unwrap an SDK response, turning `error` payloads into thrown errors
+function unwrap<T>(response: SdkResponse<T>, operation: string): T {
+  if (response.error) {
+    const message =
+      typeof response.error === "string"
+        ? response.error
+        : response.error.message || `${operation} failed`;
+    throw new DataSourceError(message, response.status);
+  }
+  if (!response.data) {
+    throw new DataSourceError(`${operation} returned no data`, response.status);
+  }
+  return response.data;
+}
+
+// Data source backed by the live Periskope API, acting as `account`
+export function createPeriskopeDataSource(account: PeriskopeAccount): PeriskopeDataSource {
+  const periskopeClient = getPeriskopeClient(account);
+
+  return {
+    kind: "periskope",
+
+    async getMessages(options: GetMessagesOptions): Promise<MessagesPage> {
+      // The SDK's query type omits some filters the API accepts (org_phone,
+      // custom properties), so options are forwarded as-is.
+      const response = (await periskopeClient.chat.getMessages(
+        options as Parameters<typeof periskopeClient.chat.getMessages>[0]
+      )) as SdkResponse<Partial<MessagesPage>>;
+      const data = unwrap(response, "getMessages");
+
+      return {
+        from: data.from ?? 0,
+        to: data.to ?? 0,
+        count: data.count ?? 0,
+        messages: Array.isArray(data.messages) ? data.messages : [],
+        next_cursor: data.next_cursor,
+      };
+    },
+
+    async getChats(options: GetChatsOptions): Promise<ChatsResponse> {
+      const response = (await periskopeClient.chat.getChats(
+        options as Parameters<typeof periskopeClient.chat.getChats>[0]
+      )) as SdkResponse<Partial<ChatsResponse>>;
+      const data = unwrap(response, "getChats");
+
+      return {
+        from: data.from ?? 0,
+        to: data.to ?? 0,
+        count: data.count ?? 0,
+        chats: Array.isArray(data.chats) ? data.chats : [],
+      };
+    },
+
+    async getChat(chatId: string): Promise<Chat | null> {
+      const response = (await periskopeClient.chat.getChatById({
+        chat_id: chatId,
+      })) as SdkResponse<Chat>;
+
+      if (response.status === 404) return null;
+      return unwrap(response, "getChat");
+    },
+  };
+}
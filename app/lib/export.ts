@@ -0,0 +1,39 @@
+// app/lib/export.ts
+import { NextResponse } from "next/server";
+import { toCsv, type CellValue } from "./csv";
+import { toXlsx } from "./xlsx";
+
+export const EXPORT_FORMATS = ["csv", "xlsx"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// `format` query parameter, default csv; null when unknown
+export function parseExportFormat(value: string | null): ExportFormat | null {
+  const format = value ?? "csv";
+  return (EXPORT_FORMATS as readonly string[]).includes(format) ? (format as ExportFormat) : null;
+}
+
+// Download of one table as `<name>.csv` or `<name>.xlsx`
+export function exportResponse(
+  format: ExportFormat,
+  name: string,
+  header: string[],
+  rows: CellValue[][]
+): Response {
+  const headers = {
+    "Content-Disposition": `attachment; filename="${name}.${format}"`,
+    "Cache-Control": "no-store",
+  };
+
+  if (format === "xlsx") {
+    return new NextResponse(new Uint8Array(toXlsx(name, header, rows)), {
+      headers: {
+        ...headers,
+        "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      },
+    });
+  }
+  return new NextResponse(toCsv(header, rows), {
+    headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+  });
+}
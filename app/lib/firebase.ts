@@ -1,7 +1,6 @@
 // app/lib/firebase.ts
 import { initializeApp, getApps, getApp } from "firebase/app";
-import { getFirestore } from "firebase/firestore";
-import { getAuth } from "firebase/auth";
+import { getAuth, connectAuthEmulator } from "firebase/auth";
 
 const firebaseConfig = {
   apiKey:
@@ -23,9 +22,17 @@ const firebaseConfig = {
     process.env.NEXT_PUBLIC_FIREBASE_MEASUREMENT_ID || "G-JLTXQNXMFS",
 };
 
-// Initialize Firebase
+// Initialize Firebase. The browser only signs in; Firestore is reached from
+// the server through app/lib/firebase-admin.ts.
 const app = getApps().length > 0 ? getApp() : initializeApp(firebaseConfig);
-const db = getFirestore(app);
 const auth = getAuth(app);
 
-export { app, db, auth };
+// Point Auth at a local emulator (e.g. "localhost:9099") when configured; the
+// server must then set FIREBASE_AUTH_EMULATOR_HOST to accept the emulator's
+// unsigned ID tokens
+const authEmulatorHost = process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST;
+if (authEmulatorHost && !auth.emulatorConfig) {
+  connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+}
+
+export { app, auth };
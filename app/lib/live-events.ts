@@ -0,0 +1,90 @@
+// app/lib/live-events.ts
+import type { Chat, Message } from "./types/periskope";
+import { chatOrgPhones } from "./chat-filters";
+import type { Session } from "./auth";
+
+// What the dashboard needs to know about a change; message bodies and chat
+// details stay on the server
+export interface LiveMessage {
+  messageId: string;
+  chatId: string;
+  orgPhone: string | null;
+  senderPhone: string;
+  fromMe: boolean;
+  timestamp: string;
+}
+
+export interface LiveChat {
+  chatId: string;
+  chatType: Chat["chat_type"];
+  orgPhones: string[];
+  assignedTo: string | null;
+  closedAt: string | null;
+}
+
+export type LiveEvent =
+  | { type: "message"; account: string; message: LiveMessage; chat: LiveChat | null }
+  | { type: "chat"; account: string; chat: LiveChat };
+
+type Listener = (event: LiveEvent) => void;
+
+// Kept on globalThis so subscribers survive dev-server hot reloads. Events
+// only reach clients connected to the same server process that received the
+// webhook.
+const globalForEvents = globalThis as unknown as {
+  liveEventListeners?: Set<Listener>;
+};
+
+function listeners(): Set<Listener> {
+  return (globalForEvents.liveEventListeners ??= new Set());
+}
+
+export function toLiveMessage(message: Message): LiveMessage {
+  return {
+    messageId: message.message_id,
+    chatId: message.chat_id,
+    orgPhone: message.org_phone ?? null,
+    senderPhone: message.sender_phone,
+    fromMe: message.from_me,
+    timestamp: message.timestamp,
+  };
+}
+
+export function toLiveChat(chat: Chat): LiveChat {
+  return {
+    chatId: chat.chat_id,
+    chatType: chat.chat_type,
+    orgPhones: chatOrgPhones(chat),
+    assignedTo: chat.assigned_to,
+    closedAt: chat.closed_at,
+  };
+}
+
+export function publishLiveEvent(event: LiveEvent): void {
+  listeners().forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error("[live-events] listener failed:", error);
+    }
+  });
+}
+
+// Returns the unsubscribe function
+export function subscribeLiveEvents(listener: Listener): () => void {
+  listeners().add(listener);
+  return () => listeners().delete(listener);
+}
+
+// Agents and leads only hear about chats assigned within their scope, or
+// messages sent from their numbers
+export function isVisibleTo(event: LiveEvent, session: Session): boolean {
+  if (!session.scope) return true;
+  const assignedTo = event.chat?.assignedTo?.toLowerCase();
+  if (assignedTo && session.scope.agentEmails.includes(assignedTo)) return true;
+  return (
+    event.type === "message" &&
+    event.message.fromMe &&
+    session.scope.whatsappIds.includes(event.message.senderPhone)
+  );
+}
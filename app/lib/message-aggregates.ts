@@ -0,0 +1,212 @@
+// app/lib/message-aggregates.ts
+import type { Chat, Message } from "./types/periskope";
+import {
+  calculateAveragePerDay,
+  formatHourRange,
+  getMostActiveDay,
+  getPeakHour,
+  groupMessagesByDayAndHour,
+} from "./utils";
+import { DEFAULT_TIMEZONE } from "./timezone";
+import { defaultBusinessCalendar, type ResolvedCalendar } from "./business-calendar";
+import {
+  computeReplyTimes,
+  type ReplyDelayStats,
+  type ReplyDistribution,
+  type ReplyTarget,
+} from "./reply-times";
+import type { OrgPhoneMessages } from "./org-phone-merge";
+import { aggregateDailyVolume, type VolumePoint } from "./message-volume";
+import { totalsByProperty, type PropertyTotals } from "./custom-properties";
+
+export type HeatmapView = "all" | "agent" | "customer";
+
+// Day × hour message counts, e.g. matrix["Monday"]["14"]
+export type HeatmapMatrix = Record<string, Record<string, number>>;
+
+export type HeatmapSet = Record<HeatmapView, HeatmapMatrix>;
+
+export interface PeakActivity {
+  hour: string;
+  hourRange: string;
+  day: string;
+}
+
+export interface MessageSummary {
+  totalCount: number;
+  agentCount: number;
+  customerCount: number;
+  averagePerDay: number;
+  peaks: Record<HeatmapView, PeakActivity>;
+  // IANA zone used for day/hour bucketing and business hours
+  timeZone: string;
+  // Name of the business calendar avgBusinessMs was measured against
+  businessCalendar: string;
+  // Waits are paired per chat; see reply-times.ts
+  replyDelay: ReplyDelayStats;
+  replyDelayByAgent: (ReplyDelayStats & { agent: string })[];
+  replyDistribution: ReplyDistribution;
+  // Present when the caller asked for include=heatmap
+  heatmaps?: HeatmapSet;
+  // Present when the caller asked for include=numbers
+  byNumber?: NumberBreakdown[];
+  // Messages per day, present when the caller asked for include=volume
+  volume?: VolumePoint[];
+  // Totals per custom property value, present when the caller asked for
+  // include=properties
+  byProperty?: MessagePropertyTotals[];
+}
+
+export type MessagePropertyTotals = PropertyTotals<{
+  chats: number;
+  totalCount: number;
+  agentCount: number;
+  customerCount: number;
+}>;
+
+// One org phone's row in the cross-number view. Chats shared with another
+// selected number count here and there, but only once in the combined totals.
+export interface NumberBreakdown {
+  orgPhone: string;
+  totalCount: number;
+  agentCount: number;
+  customerCount: number;
+  averagePerDay: number;
+  chatCount: number;
+  sharedChatCount: number;
+  medianReplyMs: number;
+  heatmaps: HeatmapSet;
+}
+
+// Messages sent from the given numbers (sender_phone); all messages when empty
+export function filterByAgent(messages: Message[], agents: string[] = []): Message[] {
+  return agents.length ? messages.filter((m) => agents.includes(m.sender_phone)) : messages;
+}
+
+export function aggregateHeatmaps(
+  messages: Message[],
+  timeZone: string = DEFAULT_TIMEZONE
+): HeatmapSet {
+  return {
+    all: groupMessagesByDayAndHour(messages, timeZone),
+    agent: groupMessagesByDayAndHour(messages.filter((m) => m.from_me), timeZone),
+    customer: groupMessagesByDayAndHour(messages.filter((m) => !m.from_me), timeZone),
+  };
+}
+
+function peakActivity(matrix: HeatmapMatrix): PeakActivity {
+  const { hour } = getPeakHour(matrix);
+  const { day } = getMostActiveDay(matrix);
+  return {
+    hour,
+    hourRange: hour ? formatHourRange(hour) : "--",
+    day: day || "--",
+  };
+}
+
+// Everything the Message Analytics cards show, computed from raw messages.
+// With `agents`, counts and heatmaps only include messages sent from those
+// numbers and reply delays only their replies.
+export function summarizeMessages(
+  allMessages: Message[],
+  dateRange: { startDate: Date; endDate: Date },
+  options: {
+    includeHeatmaps?: boolean;
+    includeVolume?: boolean;
+    timeZone?: string;
+    // Working hours for the business-hours reply delay
+    calendar?: ResolvedCalendar;
+    agents?: string[];
+    replyTargets?: ReplyTarget[];
+    // Each org phone's own messages, for the per-number breakdown
+    byOrgPhone?: OrgPhoneMessages[];
+    // The account's chats by chat_id, for the per-property breakdown
+    chats?: Map<string, Chat>;
+  } = {}
+): MessageSummary {
+  const timeZone = options.timeZone ?? DEFAULT_TIMEZONE;
+  const calendar = options.calendar ?? defaultBusinessCalendar(timeZone);
+  const messages = filterByAgent(allMessages, options.agents);
+  const heatmaps = aggregateHeatmaps(messages, timeZone);
+  const replyTimes = computeReplyTimes(allMessages, {
+    calendar,
+    agents: options.agents,
+    targets: options.replyTargets,
+  });
+  const agentCount = messages.filter((m) => m.from_me).length;
+
+  return {
+    totalCount: messages.length,
+    agentCount,
+    customerCount: messages.length - agentCount,
+    averagePerDay: calculateAveragePerDay(messages, dateRange),
+    peaks: {
+      all: peakActivity(heatmaps.all),
+      agent: peakActivity(heatmaps.agent),
+      customer: peakActivity(heatmaps.customer),
+    },
+    timeZone,
+    businessCalendar: calendar.name,
+    replyDelay: replyTimes.overall,
+    replyDelayByAgent: replyTimes.byAgent,
+    replyDistribution: replyTimes.distribution,
+    ...(options.includeHeatmaps && { heatmaps }),
+    ...(options.includeVolume && {
+      volume: aggregateDailyVolume(messages, dateRange, timeZone),
+    }),
+    ...(options.byOrgPhone && {
+      byNumber: options.byOrgPhone.map((number) =>
+        summarizeNumber(number, dateRange, { ...options, timeZone, calendar })
+      ),
+    }),
+    ...(options.chats && { byProperty: messageTotalsByProperty(messages, options.chats) }),
+  };
+}
+
+// Chats with messages, and their message counts, per value of each custom
+// property. Messages of chats missing from `chats` count as not set.
+export function messageTotalsByProperty(
+  messages: Message[],
+  chats: Map<string, Chat>
+): MessagePropertyTotals[] {
+  const perChat = new Map<string, { chats: number; totalCount: number; agentCount: number; customerCount: number }>();
+  messages.forEach((m) => {
+    const counts = perChat.get(m.chat_id) ?? { chats: 1, totalCount: 0, agentCount: 0, customerCount: 0 };
+    counts.totalCount++;
+    if (m.from_me) counts.agentCount++;
+    else counts.customerCount++;
+    perChat.set(m.chat_id, counts);
+  });
+
+  return totalsByProperty(
+    Array.from(perChat),
+    ([chatId]) => chats.get(chatId),
+    ([, counts]) => counts,
+    "totalCount"
+  );
+}
+
+function summarizeNumber(
+  { orgPhone, messages: allMessages, chatCount, sharedChatCount }: OrgPhoneMessages,
+  dateRange: { startDate: Date; endDate: Date },
+  options: { timeZone: string; calendar: ResolvedCalendar; agents?: string[] }
+): NumberBreakdown {
+  const messages = filterByAgent(allMessages, options.agents);
+  const agentCount = messages.filter((m) => m.from_me).length;
+  const replyTimes = computeReplyTimes(allMessages, {
+    calendar: options.calendar,
+    agents: options.agents,
+  });
+
+  return {
+    orgPhone,
+    totalCount: messages.length,
+    agentCount,
+    customerCount: messages.length - agentCount,
+    averagePerDay: calculateAveragePerDay(messages, dateRange),
+    chatCount,
+    sharedChatCount,
+    medianReplyMs: replyTimes.distribution.absolute.median,
+    heatmaps: aggregateHeatmaps(messages, options.timeZone),
+  };
+}
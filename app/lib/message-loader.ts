@@ -0,0 +1,291 @@
+// app/lib/message-loader.ts
+import {
+  getDataSource,
+  type GetMessagesOptions,
+  type MessagesPage,
+} from "./data-source";
+import type { Message } from "./types/periskope";
+import type { PropertyFilter } from "./custom-properties";
+
+export interface MessageFilters {
+  // Periskope account id (see periskope-accounts); the default when omitted
+  account?: string;
+  orgPhone?: string;
+  // Only messages of chats matching every filter; applied by message-sync
+  // from the account's chats, not by the loader
+  properties?: PropertyFilter[];
+}
+
+export interface LoadProgress {
+  chunk: number; // 1-based index of the chunk being fetched
+  totalChunks: number;
+  pagesFetched: number;
+  messagesSoFar: number;
+  window: { start: string; end: string };
+}
+
+export interface LoadOptions {
+  // Callbacks for callers that stream results as they arrive
+  onProgress?: (progress: LoadProgress) => void;
+  onMessages?: (messages: Message[]) => void;
+  // Chunk length; retries of truncated windows use smaller chunks
+  chunkDays?: number;
+}
+
+// What was (and was not) fetched for a request, so totals are never silently
+// undercounted.
+export interface CompletenessReport {
+  complete: boolean;
+  pagesFetched: number;
+  // Attempts beyond the first, across all pages
+  retries: number;
+  // attempts is set when fetching a page failed, not for later errors such as
+  // a store write
+  failedIntervals: { start: string; end: string; error: string; attempts?: number }[];
+  // Intervals that hit MAX_PAGES and may be missing older messages
+  truncatedIntervals: { start: string; end: string; pagesFetched: number }[];
+}
+
+export interface RangeLoadResult {
+  messages: Message[];
+  truncated: boolean;
+}
+
+const PAGE_SIZE = 1000; // Use 1000 per page for pagination
+const MAX_PAGES = 50; // Safety limit to prevent infinite loops
+const MAX_ATTEMPTS = 3;
+export const CHUNK_DAYS = 7; // Ranges longer than this are fetched in weekly chunks
+export const RETRY_CHUNK_DAYS = 1;
+const CHUNK_DELAY_MS = 500;
+
+// Thrown once every attempt to fetch a page has failed
+export class MessageFetchError extends Error {
+  attempts: number;
+
+  constructor(message: string, attempts: number) {
+    super(message);
+    this.name = "MessageFetchError";
+    this.attempts = attempts;
+  }
+}
+
+export function createCompletenessReport(): CompletenessReport {
+  return {
+    complete: true,
+    pagesFetched: 0,
+    retries: 0,
+    failedIntervals: [],
+    truncatedIntervals: [],
+  };
+}
+
+export function recordFailedInterval(
+  report: CompletenessReport,
+  start: string,
+  end: string,
+  err: unknown
+) {
+  report.complete = false;
+  report.failedIntervals.push({
+    start,
+    end,
+    error: err instanceof Error ? err.message : String(err),
+    ...(err instanceof MessageFetchError && { attempts: err.attempts }),
+  });
+}
+
+function buildBaseOptions(filters: MessageFilters): GetMessagesOptions {
+  return {
+    limit: PAGE_SIZE,
+    ...(filters.orgPhone && { org_phone: filters.orgPhone }),
+  };
+}
+
+// Fetch messages with pagination and proper error handling. Pages and retries
+// are tallied into `report`; hitting MAX_PAGES is recorded as truncation.
+export async function loadAllMessagesInTimeRange(
+  sISO: string,
+  eISO: string,
+  filters: MessageFilters = {},
+  report: CompletenessReport = createCompletenessReport(),
+  onPage?: (pageMessages: Message[]) => void
+): Promise<RangeLoadResult> {
+  const dataSource = getDataSource(filters.account);
+  const baseOptions = buildBaseOptions(filters);
+  const allMessages: Message[] = [];
+  let offset = 0;
+  let hasMore = true;
+  let pageCount = 0;
+
+  while (hasMore && pageCount < MAX_PAGES) {
+    pageCount++;
+    console.log(`[message-loader] fetching page ${pageCount} (offset: ${offset})`);
+
+    let response: MessagesPage | undefined;
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      if (attempt > 1) report.retries++;
+      try {
+        response = await dataSource.getMessages({
+          ...baseOptions,
+          start_time: sISO,
+          end_time: eISO,
+          offset: offset,
+        });
+        break; // Success
+      } catch (err: any) {
+        console.error(`[message-loader] attempt ${attempt} failed:`, err);
+
+        if (err.statusCode === 429 && attempt < MAX_ATTEMPTS) {
+          const backoff = 1000 * 2 ** (attempt - 1);
+          console.warn(`[message-loader] 429 rate limit, retrying in ${backoff}ms`);
+          await new Promise((r) => setTimeout(r, backoff));
+          continue;
+        }
+
+        if (attempt === MAX_ATTEMPTS) {
+          // Final attempt failed
+          throw new MessageFetchError(err instanceof Error ? err.message : String(err), attempt);
+        }
+      }
+    }
+
+    const pageMessages = response?.messages ?? [];
+
+    console.log(`[message-loader] page ${pageCount} returned ${pageMessages.length} messages`);
+
+    report.pagesFetched++;
+    allMessages.push(...pageMessages);
+    onPage?.(pageMessages);
+
+    // Check if we should continue pagination
+    if (pageMessages.length < PAGE_SIZE) {
+      hasMore = false;
+      console.log(`[message-loader] reached end of messages (${pageMessages.length} < ${PAGE_SIZE})`);
+    } else {
+      offset += PAGE_SIZE;
+    }
+
+    // Check for cursor-based pagination if available
+    const nextCursor = response?.next_cursor;
+
+    if (nextCursor) {
+      baseOptions.cursor = nextCursor;
+      delete baseOptions.offset; // Use cursor instead of offset
+    } else if (!hasMore) {
+      break;
+    }
+  }
+
+  const truncated = hasMore && pageCount >= MAX_PAGES;
+  if (truncated) {
+    console.warn(`[message-loader] hit ${MAX_PAGES} page limit for ${sISO} → ${eISO}; results truncated`);
+    report.complete = false;
+    report.truncatedIntervals.push({ start: sISO, end: eISO, pagesFetched: pageCount });
+  }
+
+  console.log(`[message-loader] total messages collected: ${allMessages.length} from ${pageCount} pages`);
+  return { messages: allMessages, truncated };
+}
+
+// Split a range into consecutive chunks of at most CHUNK_DAYS days
+export function splitIntoChunks(
+  startTimeISO: string,
+  endTimeISO: string,
+  chunkDays = CHUNK_DAYS
+): { sISO: string; eISO: string }[] {
+  const startDate = new Date(startTimeISO);
+  const endDate = new Date(endTimeISO);
+  const intervals: { sISO: string; eISO: string }[] = [];
+
+  for (
+    let current = new Date(startDate);
+    current < endDate;
+    current.setDate(current.getDate() + chunkDays)
+  ) {
+    const chunkStart = new Date(current);
+    const chunkEnd = new Date(current);
+    chunkEnd.setDate(chunkEnd.getDate() + chunkDays);
+
+    if (chunkEnd > endDate) {
+      chunkEnd.setTime(endDate.getTime());
+    }
+
+    intervals.push({
+      sISO: chunkStart.toISOString(),
+      eISO: chunkEnd.toISOString(),
+    });
+  }
+
+  return intervals;
+}
+
+// Load every message in a range, breaking long ranges into weekly chunks to
+// avoid timeouts. A failing chunk is skipped and recorded in the report.
+export async function loadMessagesInRange(
+  startTimeISO: string,
+  endTimeISO: string,
+  filters: MessageFilters = {},
+  options: LoadOptions = {}
+): Promise<{ messages: Message[]; completeness: CompletenessReport }> {
+  const chunkDays = options.chunkDays ?? CHUNK_DAYS;
+  const report = createCompletenessReport();
+  const startDate = new Date(startTimeISO);
+  const endDate = new Date(endTimeISO);
+  const totalDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
+
+  console.log(`[message-loader] fetching messages for ${totalDays} days from ${startTimeISO} to ${endTimeISO}`);
+
+  // For smaller time ranges (up to one chunk), fetch all at once
+  const intervals =
+    totalDays <= chunkDays
+      ? [{ sISO: startTimeISO, eISO: endTimeISO }]
+      : splitIntoChunks(startTimeISO, endTimeISO, chunkDays);
+
+  console.log(`[message-loader] processing ${intervals.length} chunks of ${chunkDays} days each`);
+
+  // Process chunks sequentially to avoid overwhelming the API
+  const allResults: Message[] = [];
+  for (let i = 0; i < intervals.length; i++) {
+    const { sISO, eISO } = intervals[i];
+    console.log(`[message-loader] processing chunk ${i + 1}/${intervals.length}: ${sISO} → ${eISO}`);
+
+    const reportProgress = (messagesSoFar: number) =>
+      options.onProgress?.({
+        chunk: i + 1,
+        totalChunks: intervals.length,
+        pagesFetched: report.pagesFetched,
+        messagesSoFar,
+        window: { start: sISO, end: eISO },
+      });
+
+    try {
+      let chunkSoFar = 0;
+      reportProgress(allResults.length);
+      const { messages: chunkMessages } = await loadAllMessagesInTimeRange(
+        sISO,
+        eISO,
+        filters,
+        report,
+        (pageMessages) => {
+          chunkSoFar += pageMessages.length;
+          reportProgress(allResults.length + chunkSoFar);
+        }
+      );
+      console.log(`[message-loader] chunk ${i + 1} returned ${chunkMessages.length} messages`);
+      allResults.push(...chunkMessages);
+      options.onMessages?.(chunkMessages);
+
+      // Small delay between chunks to be respectful to the API
+      if (i < intervals.length - 1) {
+        await new Promise((resolve) => setTimeout(resolve, CHUNK_DELAY_MS));
+      }
+    } catch (err) {
+      console.error(`[message-loader] chunk ${i + 1} failed:`, err);
+      // Continue with other chunks even if one fails
+      recordFailedInterval(report, sISO, eISO, err);
+    }
+  }
+
+  console.log(`[message-loader] all chunks complete: ${allResults.length} total messages`);
+  return { messages: allResults, completeness: report };
+}
@@ -0,0 +1,76 @@
+// app/lib/message-store.ts
+import type { Message } from "./types/periskope";
+import type { TimeWindow } from "./time-windows";
+import { getDataSource } from "./data-source";
+import { createFirestoreMessageStore } from "./message-stores/firestore-message-store";
+import { createMemoryMessageStore } from "./message-stores/memory-message-store";
+
+// Sync bookkeeping for one scope (an org phone, or "all")
+export interface SyncState {
+  scope: string;
+  // Time windows whose messages are fully present in the store
+  coveredWindows: TimeWindow[];
+  // When the store last pulled anything from Periskope for this scope
+  lastSyncedAt: string | null;
+}
+
+export type MessageStoreKind = "firestore" | "memory";
+
+// Local cache of Periskope messages keyed by message_id
+export interface MessageStore {
+  readonly kind: MessageStoreKind;
+  getSyncState(scope: string): Promise<SyncState>;
+  saveSyncState(state: SyncState): Promise<void>;
+  upsertMessages(scope: string, messages: Message[]): Promise<void>;
+  getMessage(scope: string, messageId: string): Promise<Message | null>;
+  queryMessages(scope: string, window: TimeWindow): Promise<Message[]>;
+}
+
+export function emptySyncState(scope: string): SyncState {
+  return { scope, coveredWindows: [], lastSyncedAt: null };
+}
+
+// Strip fields analytics never reads and that are too large or too irregular
+// to persist (raw_data may hold nested arrays, thumbnails are base64 blobs).
+export function toStoredMessage(message: Message): Message {
+  const stored: Message = { ...message, raw_data: null };
+  if (stored.media?.thumbnail) {
+    stored.media = { ...stored.media, thumbnail: undefined };
+  }
+  // Drop undefined values, which Firestore rejects
+  return JSON.parse(JSON.stringify(stored));
+}
+
+let messageStore: MessageStore | null | undefined;
+
+// Resolve the configured store. MESSAGE_STORE=firestore|memory|off; defaults
+// to Firestore, or to memory when serving fixtures so offline runs stay offline.
+// Returns null when the store is disabled.
+export function getMessageStore(): MessageStore | null {
+  if (messageStore !== undefined) return messageStore;
+
+  const kind = (
+    process.env.MESSAGE_STORE ||
+    (getDataSource().kind === "fixture" ? "memory" : "firestore")
+  ).toLowerCase();
+
+  switch (kind) {
+    case "firestore":
+      messageStore = createFirestoreMessageStore();
+      break;
+    case "memory":
+      messageStore = createMemoryMessageStore();
+      break;
+    case "off":
+    case "none":
+      messageStore = null;
+      break;
+    default:
+      throw new Error(
+        `Unknown MESSAGE_STORE "${kind}" (expected "firestore", "memory" or "off")`
+      );
+  }
+
+  console.log(`[message-store] Using ${messageStore?.kind ?? "no"} message store`);
+  return messageStore;
+}
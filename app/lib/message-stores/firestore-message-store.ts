@@ -0,0 +1,82 @@
+// app/lib/message-stores/firestore-message-store.ts
+import { getAdminFirestore } from "@/app/lib/firebase-admin";
+import {
+  emptySyncState,
+  toStoredMessage,
+  type MessageStore,
+  type SyncState,
+} from "@/app/lib/message-store";
+import type { TimeWindow } from "@/app/lib/time-windows";
+import { withoutKey } from "@/app/lib/utils";
+import type { Message } from "@/app/lib/types/periskope";
+
+// Layout:
+//   messageStore/{scope}                      -> SyncState
+//   messageStore/{scope}/messages/{messageId} -> Message + timestampMs
+const ROOT_COLLECTION = "messageStore";
+const BATCH_LIMIT = 500; // Firestore's maximum writes per batch
+
+interface StoredMessage extends Message {
+  timestampMs: number;
+}
+
+function scopeDoc(scope: string) {
+  return getAdminFirestore().collection(ROOT_COLLECTION).doc(scope);
+}
+
+function messagesCollection(scope: string) {
+  return scopeDoc(scope).collection("messages");
+}
+
+// Persistent store in Firestore, through the Admin SDK in app/lib/firebase-admin.ts
+export function createFirestoreMessageStore(): MessageStore {
+  return {
+    kind: "firestore",
+
+    async getSyncState(scope: string): Promise<SyncState> {
+      const snapshot = await scopeDoc(scope).get();
+      if (!snapshot.exists) return emptySyncState(scope);
+
+      const data = snapshot.data() as Partial<SyncState>;
+      return {
+        scope,
+        coveredWindows: data.coveredWindows ?? [],
+        lastSyncedAt: data.lastSyncedAt ?? null,
+      };
+    },
+
+    async saveSyncState(state: SyncState): Promise<void> {
+      await scopeDoc(state.scope).set(state);
+    },
+
+    async upsertMessages(scope: string, messages: Message[]): Promise<void> {
+      for (let i = 0; i < messages.length; i += BATCH_LIMIT) {
+        const batch = getAdminFirestore().batch();
+        messages.slice(i, i + BATCH_LIMIT).forEach((message) => {
+          const stored: StoredMessage = {
+            ...toStoredMessage(message),
+            timestampMs: new Date(message.timestamp).getTime(),
+          };
+          batch.set(messagesCollection(scope).doc(message.message_id), stored);
+        });
+        await batch.commit();
+      }
+    },
+
+    async getMessage(scope: string, messageId: string): Promise<Message | null> {
+      const snapshot = await messagesCollection(scope).doc(messageId).get();
+      if (!snapshot.exists) return null;
+      return withoutKey(snapshot.data() as StoredMessage, "timestampMs");
+    },
+
+    async queryMessages(scope: string, window: TimeWindow): Promise<Message[]> {
+      const snapshot = await messagesCollection(scope)
+        .where("timestampMs", ">=", window.start)
+        .where("timestampMs", "<", window.end)
+        .orderBy("timestampMs")
+        .get();
+
+      return snapshot.docs.map((d) => withoutKey(d.data() as StoredMessage, "timestampMs"));
+    },
+  };
+}
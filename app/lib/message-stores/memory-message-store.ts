@@ -0,0 +1,65 @@
+// app/lib/message-stores/memory-message-store.ts
+import {
+  emptySyncState,
+  toStoredMessage,
+  type MessageStore,
+  type SyncState,
+} from "@/app/lib/message-store";
+import type { TimeWindow } from "@/app/lib/time-windows";
+import type { Message } from "@/app/lib/types/periskope";
+
+interface ScopeData {
+  state: SyncState;
+  messages: Map<string, Message>;
+}
+
+// Kept on globalThis so the cache survives dev-server hot reloads
+const globalForStore = globalThis as unknown as {
+  memoryMessageStore?: Map<string, ScopeData>;
+};
+
+// Process-local store for offline development and tests. Contents are lost
+// when the server restarts.
+export function createMemoryMessageStore(): MessageStore {
+  const scopes = (globalForStore.memoryMessageStore ??= new Map());
+
+  const getScope = (scope: string): ScopeData => {
+    let data = scopes.get(scope);
+    if (!data) {
+      data = { state: emptySyncState(scope), messages: new Map() };
+      scopes.set(scope, data);
+    }
+    return data;
+  };
+
+  return {
+    kind: "memory",
+
+    async getSyncState(scope: string): Promise<SyncState> {
+      return structuredClone(getScope(scope).state);
+    },
+
+    async saveSyncState(state: SyncState): Promise<void> {
+      getScope(state.scope).state = structuredClone(state);
+    },
+
+    async upsertMessages(scope: string, messages: Message[]): Promise<void> {
+      const data = getScope(scope);
+      messages.forEach((message) => {
+        data.messages.set(message.message_id, toStoredMessage(message));
+      });
+    },
+
+    async getMessage(scope: string, messageId: string): Promise<Message | null> {
+      const message = getScope(scope).messages.get(messageId);
+      return message ? structuredClone(message) : null;
+    },
+
+    async queryMessages(scope: string, window: TimeWindow): Promise<Message[]> {
+      return Array.from(getScope(scope).messages.values()).filter((message) => {
+        const time = new Date(message.timestamp).getTime();
+        return time >= window.start && time < window.end;
+      });
+    },
+  };
+}
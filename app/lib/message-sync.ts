@@ -0,0 +1,303 @@
+// app/lib/message-sync.ts
+import type { Message } from "./types/periskope";
+import {
+  CHUNK_DAYS,
+  createCompletenessReport,
+  loadAllMessagesInTimeRange,
+  loadMessagesInRange,
+  recordFailedInterval,
+  splitIntoChunks,
+  type CompletenessReport,
+  type LoadOptions,
+  type MessageFilters,
+} from "./message-loader";
+import { getMessageStore, type MessageStoreKind } from "./message-store";
+import { loadAllChats } from "./chat-loader";
+import { matchesPropertyFilters, type PropertyFilter } from "./custom-properties";
+import {
+  mergeWindows,
+  subtractWindows,
+  windowToISO,
+  type TimeWindow,
+} from "./time-windows";
+
+// The newest few minutes are never marked as synced, so messages that reach
+// Periskope late are picked up by the next request.
+const SYNC_SAFETY_MARGIN_MS = 5 * 60 * 1000;
+const CHUNK_DELAY_MS = 500;
+
+export interface DataFreshness {
+  // "store" when answered from the local store, "live" when fetched directly
+  source: "store" | "live";
+  store: MessageStoreKind | null;
+  scope: string | null;
+  lastSyncedAt: string | null;
+  // End of the newest synced window for this scope
+  syncedThrough: string | null;
+  // Windows that had to be pulled from Periskope for this request
+  fetchedWindows: { start: string; end: string }[];
+}
+
+export interface MessagesResult {
+  messages: Message[];
+  freshness: DataFreshness;
+  completeness: CompletenessReport;
+}
+
+// One scope per account and org phone, e.g. "default/all"
+export function storeScope(account?: string, orgPhone?: string): string {
+  return [account, orgPhone || "all"].filter(Boolean).join("/");
+}
+
+// Answer a range query, pulling only the windows the store does not cover yet.
+// Custom property filters are ignored here; see getMessagesForOrgPhones.
+// When an onMessages callback is given, already-stored
+// messages are emitted first and every fetched chunk follows as it arrives.
+// Failed or truncated chunks stay unsynced, so asking for the same range
+// again retries just those gaps.
+export async function getMessagesForRange(
+  startTimeISO: string,
+  endTimeISO: string,
+  filters: MessageFilters = {},
+  options: LoadOptions = {}
+): Promise<MessagesResult> {
+  const store = getMessageStore();
+
+  if (!store) {
+    const { messages, completeness } = await loadMessagesInRange(
+      startTimeISO,
+      endTimeISO,
+      filters,
+      options
+    );
+    return {
+      messages,
+      completeness,
+      freshness: {
+        source: "live",
+        store: null,
+        scope: null,
+        lastSyncedAt: new Date().toISOString(),
+        syncedThrough: endTimeISO,
+        fetchedWindows: [{ start: startTimeISO, end: endTimeISO }],
+      },
+    };
+  }
+
+  const scope = storeScope(filters.account, filters.orgPhone);
+  // The API range is inclusive of endTime; store windows are half-open
+  const range: TimeWindow = {
+    start: new Date(startTimeISO).getTime(),
+    end: new Date(endTimeISO).getTime() + 1,
+  };
+
+  const state = await store.getSyncState(scope);
+  const missing = subtractWindows(range, state.coveredWindows);
+  const fetchedWindows: { start: string; end: string }[] = [];
+
+  console.log(
+    `[message-sync] scope ${scope}: ${missing.length} missing window(s) for ${startTimeISO} → ${endTimeISO}`
+  );
+
+  const chunks = missing.flatMap((window) => {
+    const { start, end } = windowToISO(window);
+    return splitIntoChunks(start, end, options.chunkDays ?? CHUNK_DAYS);
+  });
+
+  const report = createCompletenessReport();
+  let messagesSoFar = 0;
+  if (options.onMessages) {
+    const cached = await store.queryMessages(scope, range);
+    messagesSoFar = cached.length;
+    options.onMessages(cached);
+  }
+
+  for (let i = 0; i < chunks.length; i++) {
+    const { sISO, eISO } = chunks[i];
+    console.log(`[message-sync] syncing chunk ${i + 1}/${chunks.length}: ${sISO} → ${eISO}`);
+
+    const reportProgress = (count: number) =>
+      options.onProgress?.({
+        chunk: i + 1,
+        totalChunks: chunks.length,
+        pagesFetched: report.pagesFetched,
+        messagesSoFar: count,
+        window: { start: sISO, end: eISO },
+      });
+
+    try {
+      let chunkSoFar = 0;
+      reportProgress(messagesSoFar);
+      const { messages: chunkMessages, truncated } =
+        await loadAllMessagesInTimeRange(
+          sISO,
+          eISO,
+          filters,
+          report,
+          (pageMessages) => {
+            chunkSoFar += pageMessages.length;
+            reportProgress(messagesSoFar + chunkSoFar);
+          }
+        );
+      await store.upsertMessages(scope, chunkMessages);
+      messagesSoFar += chunkMessages.length;
+      options.onMessages?.(chunkMessages);
+      fetchedWindows.push({ start: sISO, end: eISO });
+
+      // A truncated chunk is kept but left unsynced so a retry refetches it
+      if (truncated) continue;
+
+      const covered: TimeWindow = {
+        start: new Date(sISO).getTime(),
+        end: Math.min(new Date(eISO).getTime(), Date.now() - SYNC_SAFETY_MARGIN_MS),
+      };
+      state.coveredWindows = mergeWindows([...state.coveredWindows, covered]);
+      state.lastSyncedAt = new Date().toISOString();
+      await store.saveSyncState(state);
+    } catch (err) {
+      console.error(`[message-sync] chunk ${i + 1} failed:`, err);
+      // Leave the window uncovered so the next request retries it
+      recordFailedInterval(report, sISO, eISO, err);
+    } finally {
+      // Small delay between chunks to be respectful to the API
+      if (i < chunks.length - 1) {
+        await new Promise((resolve) => setTimeout(resolve, CHUNK_DELAY_MS));
+      }
+    }
+  }
+
+  const messages = await store.queryMessages(scope, range);
+  const newestCovered = state.coveredWindows[state.coveredWindows.length - 1];
+
+  console.log(`[message-sync] scope ${scope}: answered ${messages.length} messages from ${store.kind} store`);
+
+  return {
+    messages,
+    completeness: report,
+    freshness: {
+      source: "store",
+      store: store.kind,
+      scope,
+      lastSyncedAt: state.lastSyncedAt,
+      syncedThrough: newestCovered
+        ? new Date(newestCovered.end).toISOString()
+        : null,
+      fetchedWindows,
+    },
+  };
+}
+
+// Write messages pushed by Periskope webhooks into the account's "all" scope
+// and their org phone's scope. Synced windows are left alone: a webhook can
+// arrive late, twice or not at all, so only range syncs mark time as covered.
+export async function ingestMessages(account: string, messages: Message[]): Promise<void> {
+  const store = getMessageStore();
+  if (!store || messages.length === 0) return;
+
+  const byScope = new Map<string, Message[]>();
+  messages.forEach((message) => {
+    const scopes = [storeScope(account)];
+    if (message.org_phone) scopes.push(storeScope(account, message.org_phone));
+    scopes.forEach((scope) => byScope.set(scope, [...(byScope.get(scope) ?? []), message]));
+  });
+
+  for (const [scope, scopeMessages] of byScope) {
+    await store.upsertMessages(scope, scopeMessages);
+  }
+}
+
+// Answer a range query for several org phones, one store scope per number.
+// The returned messages are not de-duplicated across numbers; see
+// mergeOrgPhoneMessages. With zero or one number this is getMessagesForRange.
+// Custom property filters pick chats, so they are applied by chat_id to what
+// the store returns; the store itself keeps every message of each scope.
+// Deleted messages stay in the store, flagged, and are left out here.
+export async function getMessagesForOrgPhones(
+  startTimeISO: string,
+  endTimeISO: string,
+  filters: MessageFilters,
+  orgPhones: string[],
+  options: LoadOptions = {}
+): Promise<MessagesResult> {
+  const { properties, ...scopeFilters } = filters;
+  const chatIds = properties?.length
+    ? await chatIdsWithProperties(properties, filters.account)
+    : null;
+  const keep = (messages: Message[]) =>
+    messages.filter((m) => !m.is_deleted && (!chatIds || chatIds.has(m.chat_id)));
+  const { onMessages } = options;
+  const result = await getMessagesForScopes(startTimeISO, endTimeISO, scopeFilters, orgPhones, {
+    ...options,
+    ...(onMessages && { onMessages: (chunkMessages: Message[]) => onMessages(keep(chunkMessages)) }),
+  });
+  if (chatIds) console.log(`[message-sync] ${chatIds.size} chat(s) match the property filters`);
+  return { ...result, messages: keep(result.messages) };
+}
+
+async function chatIdsWithProperties(
+  properties: PropertyFilter[],
+  account?: string
+): Promise<Set<string>> {
+  const chats = await loadAllChats({}, account);
+  return new Set(
+    chats.filter((chat) => matchesPropertyFilters(chat, properties)).map((chat) => chat.chat_id)
+  );
+}
+
+async function getMessagesForScopes(
+  startTimeISO: string,
+  endTimeISO: string,
+  filters: MessageFilters,
+  orgPhones: string[],
+  options: LoadOptions
+): Promise<MessagesResult> {
+  if (orgPhones.length <= 1) {
+    return getMessagesForRange(
+      startTimeISO,
+      endTimeISO,
+      { ...filters, orgPhone: orgPhones[0] ?? filters.orgPhone },
+      options
+    );
+  }
+
+  const results: MessagesResult[] = [];
+  for (const orgPhone of orgPhones) {
+    results.push(
+      await getMessagesForRange(startTimeISO, endTimeISO, { ...filters, orgPhone }, options)
+    );
+  }
+  console.log(`[message-sync] merged ${orgPhones.length} org phones`);
+
+  return {
+    messages: results.flatMap((result) => result.messages),
+    completeness: mergeCompleteness(results.map((result) => result.completeness)),
+    freshness: mergeFreshness(results.map((result) => result.freshness)),
+  };
+}
+
+function mergeCompleteness(reports: CompletenessReport[]): CompletenessReport {
+  return {
+    complete: reports.every((report) => report.complete),
+    pagesFetched: reports.reduce((sum, report) => sum + report.pagesFetched, 0),
+    retries: reports.reduce((sum, report) => sum + report.retries, 0),
+    failedIntervals: reports.flatMap((report) => report.failedIntervals),
+    truncatedIntervals: reports.flatMap((report) => report.truncatedIntervals),
+  };
+}
+
+// The combined data is only as fresh as its stalest number
+function mergeFreshness(parts: DataFreshness[]): DataFreshness {
+  const oldest = (values: (string | null)[]) =>
+    values.some((value) => value === null)
+      ? null
+      : values.reduce((a, b) => (a! < b! ? a : b), values[0]);
+
+  return {
+    source: parts.every((part) => part.source === "store") ? "store" : "live",
+    store: parts[0].store,
+    scope: parts.map((part) => part.scope).filter(Boolean).join(", ") || null,
+    lastSyncedAt: oldest(parts.map((part) => part.lastSyncedAt)),
+    syncedThrough: oldest(parts.map((part) => part.syncedThrough)),
+    fetchedWindows: parts.flatMap((part) => part.fetchedWindows),
+  };
+}
@@ -0,0 +1,96 @@
+// app/lib/message-volume.ts
+import type { Message } from "./types/periskope";
+import { formatZonedDate } from "./timezone";
+
+export type VolumeGranularity = "day" | "week" | "month";
+
+export const VOLUME_GRANULARITIES: VolumeGranularity[] = ["day", "week", "month"];
+
+// Messages sent and received in one period, which starts on `period`
+// ("YYYY-MM-DD" in the query's timezone)
+export interface VolumePoint {
+  period: string;
+  agent: number;
+  customer: number;
+  total: number;
+  // Mean total of this and the preceding periods; see withRollingAverage
+  rollingAverage?: number;
+}
+
+// Periods averaged by the rolling line: a week of days, a month of weeks,
+// a quarter of months
+export const ROLLING_WINDOWS: Record<VolumeGranularity, number> = {
+  day: 7,
+  week: 4,
+  month: 3,
+};
+
+// "YYYY-MM-DD" dates are calendar days, so date arithmetic runs in UTC
+function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function periodStart(date: string, granularity: VolumeGranularity): string {
+  switch (granularity) {
+    case "day":
+      return date;
+    case "week": {
+      // Weeks start on Monday
+      const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+      return shiftDate(date, -((weekday + 6) % 7));
+    }
+    case "month":
+      return `${date.slice(0, 7)}-01`;
+  }
+}
+
+// Agent (from_me) and customer messages per day of `timeZone`, with a zero
+// row for every quiet day of the range so gaps show on the chart
+export function aggregateDailyVolume(
+  messages: Message[],
+  dateRange: { startDate: Date; endDate: Date },
+  timeZone: string
+): VolumePoint[] {
+  const days = new Map<string, VolumePoint>();
+  const last = formatZonedDate(dateRange.endDate, timeZone);
+  for (let date = formatZonedDate(dateRange.startDate, timeZone); date <= last; date = shiftDate(date, 1)) {
+    days.set(date, { period: date, agent: 0, customer: 0, total: 0 });
+  }
+
+  messages.forEach((message) => {
+    if (!message.timestamp) return;
+    const point = days.get(formatZonedDate(new Date(message.timestamp), timeZone));
+    if (!point) return;
+    if (message.from_me) point.agent++;
+    else point.customer++;
+    point.total++;
+  });
+
+  return Array.from(days.values());
+}
+
+// Add daily points up into weeks or months. The first and last period may
+// only be partly inside the range.
+export function groupVolume(daily: VolumePoint[], granularity: VolumeGranularity): VolumePoint[] {
+  const periods = new Map<string, VolumePoint>();
+  daily.forEach((day) => {
+    const period = periodStart(day.period, granularity);
+    const point = periods.get(period) ?? { period, agent: 0, customer: 0, total: 0 };
+    point.agent += day.agent;
+    point.customer += day.customer;
+    point.total += day.total;
+    periods.set(period, point);
+  });
+  return Array.from(periods.values());
+}
+
+// Trailing mean of `total` over `window` periods; the first few average
+// whatever precedes them
+export function withRollingAverage(points: VolumePoint[], window: number): VolumePoint[] {
+  return points.map((point, i) => {
+    const slice = points.slice(Math.max(0, i - window + 1), i + 1);
+    const mean = slice.reduce((sum, p) => sum + p.total, 0) / slice.length;
+    return { ...point, rollingAverage: Math.round(mean * 10) / 10 };
+  });
+}
@@ -0,0 +1,65 @@
+// app/lib/messages-query.ts
+import {
+  RETRY_CHUNK_DAYS,
+  type LoadOptions,
+  type MessageFilters,
+} from "./message-loader";
+import { resolveTimeZone } from "./timezone";
+import { resolvePeriskopeAccount } from "./periskope-accounts";
+import { readList } from "./chat-filters";
+import { parsePropertyFilters } from "./custom-properties";
+import { parseTimeRangeParams } from "./utils";
+
+// Query parameters shared by /api/messages and its aggregation endpoints
+export interface MessagesQuery {
+  startTimeISO: string;
+  endTimeISO: string;
+  filters: MessageFilters;
+  // `orgPhone` may be repeated or comma-separated; with several numbers the
+  // aggregates merge them (filters.orgPhone is only set for a single one)
+  orgPhones: string[];
+  // Only count messages sent from these numbers (sender_phone); `agent` may
+  // be repeated or comma-separated, e.g. every number of one roster agent
+  agents: string[];
+  // IANA zone for day/hour bucketing and business hours (`tz`, else the
+  // account's default zone)
+  timeZone: string;
+  stream: boolean;
+  retry: boolean;
+  options: LoadOptions;
+}
+
+// startTime and endTime are required, and must be dates with the end after
+// the start; problems come back in `errors` for the caller's 400
+export function parseMessagesQuery(params: URLSearchParams): {
+  query: MessagesQuery;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const { start, end } = parseTimeRangeParams(params, errors);
+  const valid = errors.length === 0;
+  const account = resolvePeriskopeAccount(params.get("account"));
+  const orgPhones = readList(params, "orgPhone");
+  // Like orgPhone, malformed property params are not rejected here; they
+  // just do not filter
+  const { filters: properties } = parsePropertyFilters(params);
+  // Retrying gaps: the store only refetches what is missing, in smaller chunks
+  const retry = params.get("retry") === "1";
+
+  const query: MessagesQuery = {
+    startTimeISO: valid ? start.toISOString() : "",
+    endTimeISO: valid ? end.toISOString() : "",
+    filters: {
+      account: account.id,
+      ...(orgPhones.length === 1 && { orgPhone: orgPhones[0] }),
+      ...(properties.length > 0 && { properties }),
+    },
+    orgPhones,
+    agents: readList(params, "agent"),
+    timeZone: resolveTimeZone(params.get("tz") ?? account.timeZone),
+    stream: params.get("stream") === "1",
+    retry,
+    options: retry ? { chunkDays: RETRY_CHUNK_DAYS } : {},
+  };
+  return { query, errors };
+}
@@ -0,0 +1,59 @@
+// app/lib/ndjson.ts
+
+// Read a newline-delimited JSON response body, yielding one parsed value per line
+export async function* readNdjson<T>(response: Response): AsyncGenerator<T> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as T;
+    }
+  }
+
+  if (buffer.trim()) yield JSON.parse(buffer) as T;
+}
+
+// Build a streaming NDJSON response. `run` writes events through `send`; a
+// client disconnect only stops the writes, so work in progress still finishes.
+export function ndjsonResponse<T>(
+  run: (send: (event: T) => void) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: T) => {
+        if (cancelled) return;
+        controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      };
+
+      try {
+        await run(send);
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
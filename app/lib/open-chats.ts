@@ -0,0 +1,97 @@
+// app/lib/open-chats.ts
+import type { Chat } from "./types/periskope";
+import { loadAllChats } from "./chat-loader";
+import { matchesChatFilters, type ChatFilters } from "./chat-filters";
+
+// Fetch every chat of the requested types, then apply the org phone, agent
+// and label filters client-side
+export async function fetchFilteredChats(filters: ChatFilters, accountId: string): Promise<Chat[]> {
+  const chats: Chat[] = [];
+
+  for (const chatType of filters.chatTypes) {
+    const typeChats = await loadAllChats(
+      {
+        chat_type: chatType,
+        // Narrow the fetch when only one number is wanted
+        org_phone: filters.orgPhones.length === 1 ? filters.orgPhones[0] : undefined,
+      },
+      accountId
+    );
+    chats.push(...typeChats.filter((chat) => matchesChatFilters(chat, filters)));
+    console.log(`[chat-analytics] ${chatType}: ${typeChats.length} chats fetched`);
+  }
+
+  return chats;
+}
+
+// NEW: Timestamp-based open/closed filtering function
+export function filterForOpenChats(chats: Chat[]): Chat[] {
+  console.log(`[TIMESTAMP-FILTER] Starting timestamp-based filtering for ${chats.length} chats`);
+
+  const openChats = chats.filter((chat, index) => {
+    // Skip exited chats
+    if (chat.is_exited) {
+      if (index < 5) console.log(`[TIMESTAMP-FILTER] ✗ Exited: ${chat.chat_name}`);
+      return false;
+    }
+
+    // If there's no closed_at, the chat is considered open
+    if (!chat.closed_at) {
+      if (index < 10) console.log(`[TIMESTAMP-FILTER] ✓ No closed_at (open): ${chat.chat_name}`);
+      return true;
+    }
+
+    // If there's a closed_at, check if latest message timestamp is greater than closed_at
+    if (chat.latest_message?.timestamp) {
+      const latestMessageTime = new Date(chat.latest_message.timestamp).getTime();
+      const closedAtTime = typeof chat.closed_at === 'number' ? chat.closed_at : new Date(chat.closed_at).getTime();
+      
+      if (latestMessageTime > closedAtTime) {
+        if (index < 10) {
+          console.log(`[TIMESTAMP-FILTER] ✓ Reopened by message: ${chat.chat_name}`);
+          console.log(`  Latest message: ${new Date(latestMessageTime).toISOString()}`);
+          console.log(`  Closed at: ${new Date(closedAtTime).toISOString()}`);
+        }
+        return true; // Chat was reopened by a message after closure
+      } else {
+        if (index < 5) {
+          console.log(`[TIMESTAMP-FILTER] ✗ Closed (message before closure): ${chat.chat_name}`);
+          console.log(`  Latest message: ${new Date(latestMessageTime).toISOString()}`);
+          console.log(`  Closed at: ${new Date(closedAtTime).toISOString()}`);
+        }
+        return false; // Chat is closed and no messages after closure
+      }
+    } else {
+      // No latest message but has closed_at - consider it closed
+      if (index < 5) console.log(`[TIMESTAMP-FILTER] ✗ No messages and has closed_at: ${chat.chat_name}`);
+      return false;
+    }
+  });
+
+  console.log(`[TIMESTAMP-FILTER] RESULT: Found ${openChats.length} truly open chats based on timestamp comparison`);
+  
+  // Log some examples for debugging
+  console.log(`[TIMESTAMP-FILTER] Examples of filtering decisions:`);
+  chats.slice(0, 3).forEach(chat => {
+    const isOpen = openChats.includes(chat);
+    const hasClosedAt = !!chat.closed_at;
+    const hasLatestMessage = !!chat.latest_message?.timestamp;
+    
+    console.log(`  ${chat.chat_name}: ${isOpen ? 'OPEN' : 'CLOSED'}`);
+    console.log(`    - closed_at: ${hasClosedAt ? new Date(chat.closed_at!).toISOString() : 'null'}`);
+    console.log(`    - latest_message: ${hasLatestMessage ? new Date(chat.latest_message!.timestamp).toISOString() : 'null'}`);
+    
+    if (hasClosedAt && hasLatestMessage) {
+      const latestMessageTime = new Date(chat.latest_message!.timestamp).getTime();
+      const closedAtTime = typeof chat.closed_at === 'number' ? chat.closed_at : new Date(chat.closed_at!).getTime();
+      console.log(`    - message > closed_at: ${latestMessageTime > closedAtTime}`);
+    }
+  });
+
+  return openChats;
+}
+
+// Open chats matching `filters`, as Chat Analytics and SLA alerts see them
+export async function loadOpenChats(filters: ChatFilters, accountId: string): Promise<Chat[]> {
+  return filterForOpenChats(await fetchFilteredChats(filters, accountId));
+}
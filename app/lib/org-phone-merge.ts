@@ -0,0 +1,66 @@
+// app/lib/org-phone-merge.ts
+import type { Message } from "./types/periskope";
+
+// One org phone's own view of the range, shared chats included
+export interface OrgPhoneMessages {
+  orgPhone: string;
+  messages: Message[];
+  chatCount: number;
+  // Chats this number shares with an earlier number in the merge order
+  sharedChatCount: number;
+}
+
+export interface MergedMessages {
+  // Combined view: every chat counted once
+  messages: Message[];
+  byOrgPhone: OrgPhoneMessages[];
+}
+
+// Merge messages fetched for several org phones. When two of our numbers sit
+// in the same group, Periskope returns the chat once per number, and the copies
+// differ in message_id (from_me flips), so shared chats are de-duplicated by
+// chat_id instead: each chat is taken from the first number in `orgPhones`
+// that has it. Without `orgPhones`, numbers are ordered by their id.
+export function mergeOrgPhoneMessages(
+  messages: Message[],
+  orgPhones: string[] = []
+): MergedMessages {
+  const grouped = new Map<string, Message[]>();
+  orgPhones.forEach((orgPhone) => grouped.set(orgPhone, []));
+  const unordered = new Map<string, Message[]>();
+  messages.forEach((message) => {
+    const orgPhone = message.org_phone ?? "";
+    const target = grouped.has(orgPhone) ? grouped : unordered;
+    if (!target.has(orgPhone)) target.set(orgPhone, []);
+    target.get(orgPhone)!.push(message);
+  });
+  Array.from(unordered.keys())
+    .sort()
+    .forEach((orgPhone) => grouped.set(orgPhone, unordered.get(orgPhone)!));
+
+  // chat_id → the number whose copy of the chat is counted
+  const chatOwners = new Map<string, string>();
+  const byOrgPhone: OrgPhoneMessages[] = [];
+
+  grouped.forEach((phoneMessages, orgPhone) => {
+    const chatIds = new Set(phoneMessages.map((m) => m.chat_id));
+    let sharedChatCount = 0;
+    chatIds.forEach((chatId) => {
+      if (chatOwners.has(chatId)) sharedChatCount++;
+      else chatOwners.set(chatId, orgPhone);
+    });
+    byOrgPhone.push({
+      orgPhone,
+      messages: phoneMessages,
+      chatCount: chatIds.size,
+      sharedChatCount,
+    });
+  });
+
+  return {
+    messages: messages.filter(
+      (m) => chatOwners.get(m.chat_id) === (m.org_phone ?? "")
+    ),
+    byOrgPhone,
+  };
+}
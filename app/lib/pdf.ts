@@ -0,0 +1,152 @@
+// app/lib/pdf.ts
+import { deflateSync } from "zlib";
+
+// Just enough of PDF 1.4 to lay out reports: A4 pages of text in the
+// standard Helvetica fonts, filled rectangles and lines. Coordinates are in
+// points from the top-left corner; text is placed by its baseline.
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+// [r, g, b], 0-255
+export type PdfColor = [number, number, number];
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+}
+
+// WinAnsiEncoding matches Latin-1 except for 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "‘": 0x91, "’": 0x92,
+  "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99,
+};
+
+// The standard fonts cannot show anything outside WinAnsi, so it becomes "?"
+function encodeText(text: string): string {
+  let encoded = "";
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0x3f;
+    const byte =
+      (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)
+        ? code
+        : WIN_ANSI_EXTRAS[char] ?? 0x3f;
+    const single = String.fromCharCode(byte);
+    encoded += single === "\\" || single === "(" || single === ")" ? `\\${single}` : single;
+  }
+  return encoded;
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function colorOp(color: PdfColor, op: "rg" | "RG"): string {
+  return `${color.map((c) => num(c / 255)).join(" ")} ${op}`;
+}
+
+// Average Helvetica glyph widths, good enough to right-align and truncate
+export function textWidth(text: string, size: number, bold = false): number {
+  return [...text].length * size * (bold ? 0.56 : 0.52);
+}
+
+export class PdfDocument {
+  private pages: string[][] = [[]];
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  private draw(op: string): void {
+    this.pages[this.pages.length - 1].push(op);
+  }
+
+  text(x: number, y: number, text: string, options: TextOptions = {}): void {
+    const { size = 10, bold = false, color = [51, 51, 51] } = options;
+    this.draw(
+      `BT /${bold ? "F2" : "F1"} ${num(size)} Tf ${colorOp(color, "rg")} ` +
+        `${num(x)} ${num(PAGE_HEIGHT - y)} Td (${encodeText(text)}) Tj ET`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: PdfColor): void {
+    this.draw(
+      `${colorOp(color, "rg")} ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfColor, width = 0.5): void {
+    this.draw(
+      `${colorOp(color, "RG")} ${num(width)} w ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ` +
+        `${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  toBuffer(): Buffer {
+    // 1 catalog, 2 page tree, 3-4 fonts, then a page and its content per page
+    const pageIds = this.pages.map((_, i) => 5 + i * 2);
+    const objects: Buffer[] = [
+      Buffer.from("<< /Type /Catalog /Pages 2 0 R >>", "latin1"),
+      Buffer.from(
+        `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+        "latin1"
+      ),
+      ...["Helvetica", "Helvetica-Bold"].map((font) =>
+        Buffer.from(
+          `<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`,
+          "latin1"
+        )
+      ),
+    ];
+    this.pages.forEach((ops, i) => {
+      const stream = deflateSync(Buffer.from(ops.join("\n"), "latin1"));
+      objects.push(
+        Buffer.from(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+          "latin1"
+        ),
+        Buffer.concat([
+          Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+          stream,
+          Buffer.from("\nendstream", "latin1"),
+        ])
+      );
+    });
+
+    const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+    let length = chunks[0].length;
+    const offsets = objects.map((body, i) => {
+      const offset = length;
+      const chunk = Buffer.concat([
+        Buffer.from(`${i + 1} 0 obj\n`, "latin1"),
+        body,
+        Buffer.from("\nendobj\n", "latin1"),
+      ]);
+      chunks.push(chunk);
+      length += chunk.length;
+      return offset;
+    });
+
+    // Cross-reference entries are exactly 20 bytes each
+    const xref = [
+      "xref",
+      `0 ${objects.length + 1}`,
+      "0000000000 65535 f \n",
+      ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`),
+    ];
+    chunks.push(
+      Buffer.from(
+        `${xref.slice(0, 2).join("\n")}\n${xref.slice(2).join("")}` +
+          `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${length}\n%%EOF\n`,
+        "latin1"
+      )
+    );
+    return Buffer.concat(chunks);
+  }
+}
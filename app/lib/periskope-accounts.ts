@@ -0,0 +1,116 @@
+// app/lib/periskope-accounts.ts
+// Server-only: holds Periskope API keys. Client code gets PublicAccount.
+import { DEFAULT_TIMEZONE, isValidTimeZone } from "./timezone";
+
+export interface PeriskopeAccount {
+  id: string;
+  label: string;
+  apiKey: string;
+  // Org phone the account's requests act as, e.g. "918527014950"
+  phone: string;
+  // Default zone for dashboards on this account
+  timeZone: string;
+  // Shared secret Periskope signs webhook events with; webhook ingestion is
+  // off for the account when empty
+  webhookSecret: string;
+}
+
+// What the browser may know about an account
+export interface PublicAccount {
+  id: string;
+  label: string;
+  phone: string;
+  timeZone: string;
+  hasApiKey: boolean;
+}
+
+let accounts: PeriskopeAccount[] | undefined;
+
+// Read the registry from PERISKOPE_ACCOUNTS, a JSON list of
+// { id, label, apiKey, phone, timeZone?, webhookSecret? }. Without it, a
+// single "default" account is built from PERISKOPE_API_KEY and
+// PERISKOPE_PHONE. PERISKOPE_WEBHOOK_SECRET is the default webhookSecret.
+export function getPeriskopeAccounts(): PeriskopeAccount[] {
+  if (accounts) return accounts;
+
+  if (process.env.NEXT_PUBLIC_PERISKOPE_API_KEY) {
+    console.warn(
+      "[periskope-accounts] NEXT_PUBLIC_PERISKOPE_API_KEY is ignored because it would be shipped to the browser; use PERISKOPE_API_KEY or PERISKOPE_ACCOUNTS"
+    );
+  }
+
+  const raw = process.env.PERISKOPE_ACCOUNTS;
+  let configured: Partial<PeriskopeAccount>[];
+  if (raw) {
+    try {
+      configured = JSON.parse(raw);
+      if (!Array.isArray(configured)) throw new Error("expected a JSON array");
+    } catch (error) {
+      throw new Error(
+        `Invalid PERISKOPE_ACCOUNTS: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  } else {
+    configured = [
+      {
+        id: "default",
+        label: "Default",
+        apiKey: process.env.PERISKOPE_API_KEY,
+        phone: process.env.PERISKOPE_PHONE,
+      },
+    ];
+  }
+
+  accounts = configured.map((account, index) => {
+    const id = account.id || `account-${index + 1}`;
+    const timeZone = account.timeZone && isValidTimeZone(account.timeZone)
+      ? account.timeZone
+      : DEFAULT_TIMEZONE;
+    if (account.timeZone && timeZone !== account.timeZone) {
+      console.warn(`[periskope-accounts] ${id}: unknown timezone "${account.timeZone}", using ${timeZone}`);
+    }
+    return {
+      id,
+      label: account.label || account.phone || id,
+      apiKey: account.apiKey ?? "",
+      phone: account.phone ?? "",
+      timeZone,
+      webhookSecret: account.webhookSecret ?? process.env.PERISKOPE_WEBHOOK_SECRET ?? "",
+    };
+  });
+
+  console.log(
+    `[periskope-accounts] ${accounts.length} account(s): ${accounts.map((a) => a.id).join(", ")}`
+  );
+  return accounts;
+}
+
+// PERISKOPE_DEFAULT_ACCOUNT, else the first account in the registry
+export function getDefaultAccount(): PeriskopeAccount {
+  const all = getPeriskopeAccounts();
+  return all.find((a) => a.id === process.env.PERISKOPE_DEFAULT_ACCOUNT) ?? all[0];
+}
+
+// The account a request asked for (`account`), falling back to the default
+// with a warning when the id is unknown
+export function resolvePeriskopeAccount(id: string | null | undefined): PeriskopeAccount {
+  if (!id) return getDefaultAccount();
+
+  const account = getPeriskopeAccounts().find((a) => a.id === id);
+  if (!account) {
+    const fallback = getDefaultAccount();
+    console.warn(`[periskope-accounts] unknown account "${id}", falling back to ${fallback.id}`);
+    return fallback;
+  }
+  return account;
+}
+
+export function toPublicAccount(account: PeriskopeAccount): PublicAccount {
+  return {
+    id: account.id,
+    label: account.label,
+    phone: account.phone,
+    timeZone: account.timeZone,
+    hasApiKey: !!account.apiKey,
+  };
+}
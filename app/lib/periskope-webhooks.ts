@@ -0,0 +1,160 @@
+// app/lib/periskope-webhooks.ts
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Chat, Message } from "./types/periskope";
+import { getMessageStore } from "./message-store";
+import { getChatStore } from "./chat-store";
+import { ingestMessages, storeScope } from "./message-sync";
+import { publishLiveEvent, toLiveChat, toLiveMessage } from "./live-events";
+
+export const PERISKOPE_EVENT_TYPES = [
+  "message.created",
+  "message.updated",
+  "message.deleted",
+  "message.ack",
+  "chat.updated",
+] as const;
+
+export type PeriskopeEventType = (typeof PERISKOPE_EVENT_TYPES)[number];
+
+export interface PeriskopeEvent {
+  type: PeriskopeEventType;
+  data: Record<string, unknown>;
+}
+
+export interface IngestResult {
+  type: PeriskopeEventType;
+  id: string | null;
+  applied: boolean;
+  // Why an event was skipped
+  reason?: string;
+}
+
+// Names Periskope may send for the same event
+const EVENT_ALIASES: Record<string, PeriskopeEventType> = {
+  "message.created": "message.created",
+  "message.updated": "message.updated",
+  "message.deleted": "message.deleted",
+  "message.ack": "message.ack",
+  "message.ack.updated": "message.ack",
+  "chat.created": "chat.updated",
+  "chat.updated": "chat.updated",
+};
+
+// `signature` is the hex HMAC-SHA256 of the raw body, with or without a
+// "sha256=" prefix
+export function verifyWebhookSignature(
+  body: string,
+  signature: string | null,
+  secret: string
+): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(createHmac("sha256", secret).update(body).digest("hex"));
+  const given = Buffer.from(signature.trim().replace(/^sha256=/i, "").toLowerCase());
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+// A single event or an array of them, each { event | type, data }
+export function parseWebhookEvents(payload: unknown): {
+  events: PeriskopeEvent[];
+  errors: string[];
+} {
+  const events: PeriskopeEvent[] = [];
+  const errors: string[] = [];
+
+  (Array.isArray(payload) ? payload : [payload]).forEach((raw, index) => {
+    const item = (raw ?? {}) as { event?: unknown; type?: unknown; data?: unknown };
+    const name = String(item.event ?? item.type ?? "");
+    const type = EVENT_ALIASES[name];
+    if (!type) {
+      errors.push(`Event ${index}: unknown event type "${name}"`);
+    } else if (!item.data || typeof item.data !== "object") {
+      errors.push(`Event ${index}: missing data object`);
+    } else {
+      events.push({ type, data: item.data as Record<string, unknown> });
+    }
+  });
+
+  return { events, errors };
+}
+
+function stringField(data: Record<string, unknown>, field: string): string | null {
+  return typeof data[field] === "string" && data[field] ? (data[field] as string) : null;
+}
+
+// Upsert one event into the message and chat stores. Updates and acks are
+// merged into what is stored, so they may carry only the changed fields. A
+// deleted message is kept, flagged is_deleted, so it stops being counted.
+export async function ingestWebhookEvent(
+  accountId: string,
+  event: PeriskopeEvent
+): Promise<IngestResult> {
+  const { type, data } = event;
+  const skip = (id: string | null, reason: string): IngestResult => ({
+    type,
+    id,
+    applied: false,
+    reason,
+  });
+
+  if (type === "chat.updated") {
+    const chatId = stringField(data, "chat_id");
+    if (!chatId) return skip(null, "missing chat_id");
+    const store = getChatStore();
+    if (!store) return skip(chatId, "message store is off");
+
+    const existing = await store.getChat(accountId, chatId);
+    if (!existing && !stringField(data, "chat_type")) {
+      return skip(chatId, "partial update for a chat that is not stored");
+    }
+    const chat = { ...existing, ...data } as Chat;
+    await store.upsertChats(accountId, [chat]);
+    publishLiveEvent({ type: "chat", account: accountId, chat: toLiveChat(chat) });
+    return { type, id: chatId, applied: true };
+  }
+
+  const messageId = stringField(data, "message_id");
+  if (!messageId) return skip(null, "missing message_id");
+  const store = getMessageStore();
+  if (!store) return skip(messageId, "message store is off");
+
+  const existing = await store.getMessage(storeScope(accountId), messageId);
+  const message = {
+    ...existing,
+    ...data,
+    ...(type === "message.deleted" && { is_deleted: true }),
+  } as Message;
+  if (!message.chat_id || !message.timestamp) {
+    return skip(messageId, existing ? "invalid message" : "partial update for a message that is not stored");
+  }
+  await ingestMessages(accountId, [message]);
+
+  // Acks change nothing the dashboard shows
+  if (type !== "message.ack") {
+    const chat =
+      type === "message.created"
+        ? await updateLatestMessage(accountId, message)
+        : await getChatStore()?.getChat(accountId, message.chat_id);
+    publishLiveEvent({
+      type: "message",
+      account: accountId,
+      message: toLiveMessage(message),
+      chat: chat ? toLiveChat(chat) : null,
+    });
+  }
+  return { type, id: messageId, applied: true };
+}
+
+// Chat Analytics reads overdue status from chat.latest_message, so a new
+// message is applied to its stored chat without waiting for chat.updated.
+// Returns the stored chat, if any.
+async function updateLatestMessage(accountId: string, message: Message): Promise<Chat | null> {
+  const store = getChatStore();
+  const chat = await store?.getChat(accountId, message.chat_id);
+  if (!store || !chat) return null;
+
+  const latest = chat.latest_message ? new Date(chat.latest_message.timestamp).getTime() : 0;
+  if (new Date(message.timestamp).getTime() < latest) return chat;
+  const updated = { ...chat, latest_message: message };
+  await store.upsertChats(accountId, [updated]);
+  return updated;
+}
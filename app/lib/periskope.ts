@@ -2,28 +2,39 @@
 
 import { PeriskopeApi } from "@periskope/periskope-client";
 import type { Message, MessageData } from "./types/periskope";
+import { DEFAULT_TIMEZONE, getZonedParts } from "./timezone";
+import type { PeriskopeAccount } from "./periskope-accounts";
 
-// Get API key and phone from environment variables with fallbacks
-const apiKey = process.env.NEXT_PUBLIC_PERISKOPE_API_KEY || "";
-const phone = process.env.NEXT_PUBLIC_PERISKOPE_PHONE || "";
+// One client per account, created on first use
+const clients = new Map<string, PeriskopeApi>();
 
-// Initialize the Periskope client with proper configuration
-export const periskopeClient = new PeriskopeApi({
-  authToken: apiKey,
-  phone: phone,
-});
+export function getPeriskopeClient(account: PeriskopeAccount): PeriskopeApi {
+  let client = clients.get(account.id);
+  if (!client) {
+    client = new PeriskopeApi({
+      authToken: account.apiKey,
+      phone: account.phone,
+    });
+    clients.set(account.id, client);
 
-// Log configuration (without exposing sensitive data)
-console.log("[periskope-client] Initialized with:", {
-  hasApiKey: !!apiKey,
-  hasPhone: !!phone,
-  phonePrefix: phone ? phone.substring(0, 3) + "..." : "not set",
-});
+    // Log configuration (without exposing sensitive data)
+    console.log(`[periskope-client] Initialized ${account.id} with:`, {
+      hasApiKey: !!account.apiKey,
+      hasPhone: !!account.phone,
+      phonePrefix: account.phone ? account.phone.substring(0, 3) + "..." : "not set",
+    });
+  }
+  return client;
+}
 
 export type { Message, MessageData };
 
 // Function to parse messages into hourly data
-export function parseMessagesIntoHourlyData(messages: Message[]) {
+// Bucket by weekday and hour as seen in `timeZone`
+export function parseMessagesIntoHourlyData(
+  messages: Message[],
+  timeZone: string = DEFAULT_TIMEZONE
+) {
   const hourlyData: Record<string, Record<string, number>> = {
     Monday: {},
     Tuesday: {},
@@ -43,7 +54,7 @@ export function parseMessagesIntoHourlyData(messages: Message[]) {
 
   // Count messages
   messages.forEach((message) => {
-    const date = new Date(message.timestamp);
+    const zoned = getZonedParts(new Date(message.timestamp), timeZone);
     const day = [
       "Sunday",
       "Monday",
@@ -52,8 +63,8 @@ export function parseMessagesIntoHourlyData(messages: Message[]) {
       "Thursday",
       "Friday",
       "Saturday",
-    ][date.getDay()];
-    const hourKey = `${date.getHours()}:00`;
+    ][zoned.weekday];
+    const hourKey = `${zoned.hour}:00`;
     if (hourlyData[day] && hourlyData[day][hourKey] !== undefined) {
       hourlyData[day][hourKey]++;
     }
@@ -0,0 +1,297 @@
+// app/lib/reply-times.ts
+import type { Message } from "./types/periskope";
+import {
+  businessTimeBetween,
+  defaultBusinessCalendar,
+  type ResolvedCalendar,
+} from "./business-calendar";
+
+// One customer wait and the agent message that ended it
+export interface ReplyPair {
+  chatId: string;
+  // First unanswered customer message of the run
+  waitStartedAt: string;
+  repliedAt: string;
+  // sender_phone of the replying message (the org/agent number)
+  agent: string;
+  absoluteMs: number;
+  businessMs: number;
+}
+
+export interface ReplyDelayStats {
+  count: number;
+  avgAbsoluteMs: number;
+  avgBusinessMs: number;
+}
+
+export interface ReplyTimeReport {
+  overall: ReplyDelayStats;
+  distribution: ReplyDistribution;
+  byAgent: (ReplyDelayStats & { agent: string })[];
+  byChat: (ReplyDelayStats & { chatId: string })[];
+}
+
+// Pair customer waits with agent replies inside each chat. A run of
+// consecutive customer messages is one wait, measured from its first message
+// to the next from_me message in the same chat.
+export function pairRepliesByChat(
+  messages: Message[],
+  calendar: ResolvedCalendar = defaultBusinessCalendar()
+): ReplyPair[] {
+  const byChat = new Map<string, Message[]>();
+  messages.forEach((message) => {
+    const chatMessages = byChat.get(message.chat_id) ?? [];
+    chatMessages.push(message);
+    byChat.set(message.chat_id, chatMessages);
+  });
+
+  const pairs: ReplyPair[] = [];
+  byChat.forEach((chatMessages, chatId) => {
+    const sorted = [...chatMessages].sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+
+    let waitStart: Message | null = null;
+    for (const message of sorted) {
+      if (!message.from_me) {
+        // Later messages in the same run do not restart the wait
+        waitStart ??= message;
+        continue;
+      }
+      if (!waitStart) continue;
+
+      const customerTime = new Date(waitStart.timestamp);
+      const agentTime = new Date(message.timestamp);
+      pairs.push({
+        chatId,
+        waitStartedAt: waitStart.timestamp,
+        repliedAt: message.timestamp,
+        agent: message.sender_phone,
+        absoluteMs: agentTime.getTime() - customerTime.getTime(),
+        businessMs: businessTimeBetween(customerTime, agentTime, calendar),
+      });
+      waitStart = null;
+    }
+  });
+
+  return pairs;
+}
+
+export function summarizeReplyPairs(pairs: ReplyPair[]): ReplyDelayStats {
+  const avg = (values: number[]) =>
+    values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  return {
+    count: pairs.length,
+    avgAbsoluteMs: avg(pairs.map((p) => p.absoluteMs)),
+    avgBusinessMs: avg(pairs.map((p) => p.businessMs)),
+  };
+}
+
+function groupPairs(pairs: ReplyPair[], key: (pair: ReplyPair) => string) {
+  const groups = new Map<string, ReplyPair[]>();
+  pairs.forEach((pair) => {
+    const group = groups.get(key(pair)) ?? [];
+    group.push(pair);
+    groups.set(key(pair), group);
+  });
+  return Array.from(groups.entries());
+}
+
+// Overall, per-agent and per-chat reply delays. With `agents`, only replies
+// sent from those numbers are counted; waits are still paired against the
+// whole chat, so the customer messages must not be filtered out beforehand.
+export function computeReplyTimes(
+  messages: Message[],
+  options: {
+    calendar?: ResolvedCalendar;
+    agents?: string[];
+    targets?: ReplyTarget[];
+  } = {}
+): ReplyTimeReport {
+  const calendar = options.calendar ?? defaultBusinessCalendar();
+  const pairs = pairRepliesByChat(messages, calendar).filter(
+    (pair) => !options.agents?.length || options.agents.includes(pair.agent)
+  );
+
+  return {
+    overall: summarizeReplyPairs(pairs),
+    distribution: computeReplyDistribution(
+      pairs,
+      options.targets ?? resolveReplyTargets(null, calendar)
+    ),
+    byAgent: groupPairs(pairs, (p) => p.agent)
+      .map(([agent, group]) => ({ agent, ...summarizeReplyPairs(group) }))
+      .sort((a, b) => b.count - a.count),
+    byChat: groupPairs(pairs, (p) => p.chatId)
+      .map(([chatId, group]) => ({ chatId, ...summarizeReplyPairs(group) }))
+      .sort((a, b) => b.avgAbsoluteMs - a.avgAbsoluteMs),
+  };
+}
+
+export interface DelayPercentiles {
+  median: number;
+  p75: number;
+  p90: number;
+  p95: number;
+  max: number;
+}
+
+// A reply-time goal, e.g. "within 1 business day"
+export interface ReplyTarget {
+  label: string;
+  ms: number;
+  basis: "absolute" | "business";
+}
+
+export interface HistogramBucket {
+  label: string;
+  minMs: number;
+  maxMs: number | null; // null for the open-ended last bucket
+  absolute: number;
+  business: number;
+}
+
+export interface ReplyDistribution {
+  count: number;
+  absolute: DelayPercentiles;
+  business: DelayPercentiles;
+  targets: (ReplyTarget & { withinCount: number; share: number })[];
+  histogram: HistogramBucket[];
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Bucket edges for the reply-time histogram
+const HISTOGRAM_EDGES: { label: string; maxMs: number | null }[] = [
+  { label: "< 5m", maxMs: 5 * MINUTE },
+  { label: "5–15m", maxMs: 15 * MINUTE },
+  { label: "15–30m", maxMs: 30 * MINUTE },
+  { label: "30m–1h", maxMs: HOUR },
+  { label: "1–2h", maxMs: 2 * HOUR },
+  { label: "2–4h", maxMs: 4 * HOUR },
+  { label: "4–8h", maxMs: 8 * HOUR },
+  { label: "8–24h", maxMs: DAY },
+  { label: "1–3d", maxMs: 3 * DAY },
+  { label: "> 3d", maxMs: null },
+];
+
+// Used when neither the request nor REPLY_TARGETS names any targets
+export const DEFAULT_REPLY_TARGETS = "5m,1h,1bd";
+
+// Nearest-rank percentile of an ascending list
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1];
+}
+
+function percentiles(values: number[]): DelayPercentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    median: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    p90: percentile(sorted, 90),
+    p95: percentile(sorted, 95),
+    max: sorted.length ? sorted[sorted.length - 1] : 0,
+  };
+}
+
+// Working time in an average open day of the calendar, e.g. 8h for Mon–Fri 9–17
+export function businessDayMs(calendar: ResolvedCalendar): number {
+  const days = Object.values(calendar.weekly).filter(
+    (intervals) => intervals && intervals.length > 0
+  );
+  if (days.length === 0) return 8 * HOUR;
+
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+  };
+  const weeklyMinutes = days
+    .flat()
+    .reduce((sum, interval) => sum + toMinutes(interval!.end) - toMinutes(interval!.start), 0);
+  return (weeklyMinutes / days.length) * MINUTE;
+}
+
+// Parse a comma-separated target list such as "5m,1h,1bd". Units: m, h, d for
+// wall-clock time; bh (business hours) and bd (business days) for business time.
+// Unparseable entries are skipped.
+export function parseReplyTargets(
+  spec: string,
+  calendar: ResolvedCalendar = defaultBusinessCalendar()
+): ReplyTarget[] {
+  const units: Record<string, { ms: number; basis: ReplyTarget["basis"]; name: string }> = {
+    m: { ms: MINUTE, basis: "absolute", name: "min" },
+    h: { ms: HOUR, basis: "absolute", name: "h" },
+    d: { ms: DAY, basis: "absolute", name: "d" },
+    bh: { ms: HOUR, basis: "business", name: "business h" },
+    bd: { ms: businessDayMs(calendar), basis: "business", name: "business day" },
+  };
+
+  return spec
+    .split(",")
+    .map((part) => part.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(bh|bd|m|h|d)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, amount, unit]) => {
+      const { ms, basis, name } = units[unit];
+      const plural = unit === "bd" && Number(amount) !== 1 ? "s" : "";
+      return {
+        label: `${amount} ${name}${plural}`,
+        ms: Number(amount) * ms,
+        basis,
+      };
+    });
+}
+
+// Targets from the request, else REPLY_TARGETS, else DEFAULT_REPLY_TARGETS
+export function resolveReplyTargets(
+  spec: string | null | undefined,
+  calendar: ResolvedCalendar = defaultBusinessCalendar()
+): ReplyTarget[] {
+  return parseReplyTargets(
+    spec || process.env.REPLY_TARGETS || DEFAULT_REPLY_TARGETS,
+    calendar
+  );
+}
+
+// Percentiles, target attainment and a histogram for a set of reply pairs
+export function computeReplyDistribution(
+  pairs: ReplyPair[],
+  targets: ReplyTarget[]
+): ReplyDistribution {
+  const absolute = pairs.map((p) => p.absoluteMs);
+  const business = pairs.map((p) => p.businessMs);
+
+  let minMs = 0;
+  const histogram = HISTOGRAM_EDGES.map(({ label, maxMs }) => {
+    const inBucket = (ms: number) => ms >= minMs && (maxMs === null || ms < maxMs);
+    const bucket: HistogramBucket = {
+      label,
+      minMs,
+      maxMs,
+      absolute: absolute.filter(inBucket).length,
+      business: business.filter(inBucket).length,
+    };
+    minMs = maxMs ?? minMs;
+    return bucket;
+  });
+
+  return {
+    count: pairs.length,
+    absolute: percentiles(absolute),
+    business: percentiles(business),
+    targets: targets.map((target) => {
+      const values = target.basis === "business" ? business : absolute;
+      const withinCount = values.filter((ms) => ms <= target.ms).length;
+      return {
+        ...target,
+        withinCount,
+        share: pairs.length ? withinCount / pairs.length : 0,
+      };
+    }),
+    histogram,
+  };
+}
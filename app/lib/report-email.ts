@@ -0,0 +1,145 @@
+// app/lib/report-email.ts
+import { readFileSync } from "fs";
+import path from "path";
+import type { MailMessage } from "./smtp";
+import { escapeHtml, renderTemplate } from "./alert-email";
+import {
+  heatmapShade,
+  replyTimeRows,
+  reportStats,
+  type AnalyticsReport,
+} from "./analytics-report";
+import { findMaxValue } from "./utils";
+import { formatInTimeZone } from "./timezone";
+
+const TEMPLATE_PATH = path.join(process.cwd(), "app", "templates", "analytics-report.html");
+
+const DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+let template: string | undefined;
+
+const muted = "color: #6c757d; font-size: 12px;";
+
+function statsGrid(report: AnalyticsReport): string {
+  const cells = reportStats(report).map(
+    (stat) => `<td style="width: 25%; padding: 6px;">
+                    <div style="background: #f8f9fa; border-radius: 8px; padding: 12px; text-align: center; border: 1px solid #e9ecef;">
+                        <div style="${muted}">${escapeHtml(stat.label)}</div>
+                        <div style="color: #333; font-size: 20px; font-weight: bold; margin: 4px 0;">${escapeHtml(stat.value)}</div>
+                        <div style="${muted}">${escapeHtml(stat.note)}</div>
+                    </div>
+                </td>`
+  );
+  const rows = [cells.slice(0, 4), cells.slice(4)].map((row) => `<tr>${row.join("")}</tr>`);
+  return `<table style="width: 100%; border-collapse: collapse;">${rows.join("")}</table>`;
+}
+
+function heatmap(report: AnalyticsReport): string {
+  const matrix = report.summary.heatmaps?.all ?? {};
+  const max = findMaxValue(matrix);
+  const hourLabels = Array.from({ length: 24 }, (_, hour) =>
+    `<td style="font-size: 9px; color: #6c757d; text-align: center;">${hour % 3 === 0 ? hour : ""}</td>`
+  );
+  const rows = DAYS.map((day) => {
+    const cells = Array.from({ length: 24 }, (_, hour) => {
+      const count = matrix[day]?.[String(hour)] ?? 0;
+      const [r, g, b] = heatmapShade(count, max);
+      return `<td title="${day} ${hour}:00: ${count}" style="width: 20px; height: 16px; background: rgb(${r}, ${g}, ${b}); border: 1px solid #ffffff;"></td>`;
+    });
+    return `<tr><td style="${muted} padding-right: 6px;">${day.slice(0, 3)}</td>${cells.join("")}</tr>`;
+  });
+  return `<table style="border-collapse: collapse; margin: 0 auto;">${rows.join("")}<tr><td></td>${hourLabels.join("")}</tr></table>
+            <p style="${muted} text-align: center; margin: 6px 0 0 0;">Darker is busier • busiest hour: ${max} messages</p>`;
+}
+
+function replyTable(report: AnalyticsReport): string {
+  const cell = "padding: 6px 8px; border-bottom: 1px solid #e9ecef; font-size: 14px; color: #333;";
+  const rows = replyTimeRows(report).map(
+    ([label, value]) =>
+      `<tr><td style="${cell}">${escapeHtml(label)}</td><td style="${cell} text-align: right; font-weight: bold;">${escapeHtml(value)}</td></tr>`
+  );
+  return `<table style="width: 100%; border-collapse: collapse;">${rows.join("")}</table>`;
+}
+
+function overdueTable(report: AnalyticsReport): string {
+  if (report.topOverdue.length === 0) {
+    return `<p style="color: #28a745; font-size: 14px;">No chats are overdue.</p>`;
+  }
+  const cell = "padding: 8px; border-bottom: 1px solid #e9ecef; font-size: 14px; color: #333;";
+  const rows = report.topOverdue.map(
+    (chat) => `<tr>
+                    <td style="${cell}">${escapeHtml(chat.chatName)}<br><span style="${muted}">${escapeHtml(chat.agent)}</span></td>
+                    <td style="${cell}">${escapeHtml(chat.urgency)}</td>
+                    <td style="${cell} text-align: right;">${Math.round(chat.hoursWaiting)}h</td>
+                </tr>`
+  );
+  return `<table style="width: 100%; border-collapse: collapse;">
+                <tr>
+                    <th style="padding: 8px; text-align: left; ${muted}">Chat</th>
+                    <th style="padding: 8px; text-align: left; ${muted}">Urgency</th>
+                    <th style="padding: 8px; text-align: right; ${muted}">Waiting</th>
+                </tr>${rows.join("")}
+            </table>`;
+}
+
+// Subject line and scope, shared with the PDF
+export function reportHeading(report: AnalyticsReport): { subject: string; scope: string } {
+  return {
+    subject: `${report.title}: ${report.period.label}`,
+    scope: report.orgPhones.length
+      ? `${report.account.label} • ${report.orgPhones.join(", ")}`
+      : report.account.label,
+  };
+}
+
+// Subject, self-contained HTML (app/templates/analytics-report.html) and
+// plain-text body
+export function renderReportEmail(
+  report: AnalyticsReport,
+  options: { dashboardUrl?: string } = {}
+): Omit<MailMessage, "to"> {
+  template ??= readFileSync(TEMPLATE_PATH, "utf8");
+  const { subject, scope } = reportHeading(report);
+  const generatedAt = formatInTimeZone(report.generatedAt, report.account.timeZone);
+
+  const html = renderTemplate(template, {
+    subject,
+    title: report.title,
+    period: report.period.label,
+    scope,
+    generatedAt,
+    dashboardUrl: options.dashboardUrl ?? "",
+    incompleteBlock: report.complete
+      ? ""
+      : `<div style="background: #fff3cd; border: 1px solid #ffeaa7; border-radius: 8px; padding: 12px; margin: 0 0 20px 0; color: #856404; font-size: 14px;">
+                ⚠️ Part of this period could not be fetched, so message totals may be undercounted.
+            </div>`,
+    statsGrid: statsGrid(report),
+    heatmap: heatmap(report),
+    replyTable: replyTable(report),
+    overdueTable: overdueTable(report),
+  });
+
+  const text = [
+    subject,
+    scope,
+    report.complete ? "" : "Part of this period could not be fetched; totals may be undercounted.",
+    "",
+    ...reportStats(report).map((stat) => `${stat.label}: ${stat.value} (${stat.note})`),
+    "",
+    "Reply times",
+    ...replyTimeRows(report).map(([label, value]) => `  ${label}: ${value}`),
+    "",
+    "Longest-waiting overdue chats",
+    ...(report.topOverdue.length
+      ? report.topOverdue.map(
+          (chat) => `  - ${chat.chatName}: ${chat.urgency}, waiting ${Math.round(chat.hoursWaiting)}h, ${chat.agent}`
+        )
+      : ["  None"]),
+    "",
+    options.dashboardUrl ? `Open the dashboard: ${options.dashboardUrl}` : "",
+    `Generated ${generatedAt}`,
+  ].join("\n");
+
+  return { subject, html, text };
+}
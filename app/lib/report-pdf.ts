@@ -0,0 +1,171 @@
+// app/lib/report-pdf.ts
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, textWidth, type PdfColor } from "./pdf";
+import {
+  heatmapShade,
+  replyTimeRows,
+  reportStats,
+  type AnalyticsReport,
+} from "./analytics-report";
+import { reportHeading } from "./report-email";
+import { findMaxValue } from "./utils";
+import { formatInTimeZone } from "./timezone";
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+// The email template's palette
+const BRAND: PdfColor = [102, 126, 234];
+const MUTED: PdfColor = [108, 117, 125];
+const PANEL: PdfColor = [248, 249, 250];
+const RULE: PdfColor = [233, 236, 239];
+
+// Cut `text` with an ellipsis so it fits in `width`
+function fit(text: string, width: number, size: number, bold = false): string {
+  if (textWidth(text, size, bold) <= width) return text;
+  let chars = [...text];
+  while (chars.length > 0 && textWidth(chars.join("") + "…", size, bold) > width) {
+    chars = chars.slice(0, -1);
+  }
+  return chars.join("") + "…";
+}
+
+// The same sections as the email, laid out on A4 pages
+export function renderReportPdf(report: AnalyticsReport): Buffer {
+  const pdf = new PdfDocument();
+  const { subject, scope } = reportHeading(report);
+  let y = 0;
+
+  // Start a new page when the next `height` points do not fit
+  const reserve = (height: number) => {
+    if (y + height <= PAGE_HEIGHT - MARGIN) return;
+    pdf.addPage();
+    y = MARGIN;
+  };
+  const heading = (text: string) => {
+    reserve(60);
+    y += 28;
+    pdf.text(MARGIN, y, text, { size: 13, bold: true });
+    y += 12;
+  };
+  const rightText = (x: number, text: string, size: number, bold = false) =>
+    pdf.text(x - textWidth(text, size, bold), y, text, { size, bold });
+
+  pdf.rect(0, 0, PAGE_WIDTH, 56, BRAND);
+  pdf.text(MARGIN, 35, "WhatsApp Analytics", { size: 16, bold: true, color: [255, 255, 255] });
+  y = 92;
+  pdf.text(MARGIN, y, fit(report.title, CONTENT_WIDTH, 20, true), { size: 20, bold: true });
+  y += 18;
+  pdf.text(MARGIN, y, fit(`${report.period.label} • ${scope}`, CONTENT_WIDTH, 10), {
+    size: 10,
+    color: MUTED,
+  });
+  y += 14;
+
+  if (!report.complete) {
+    pdf.rect(MARGIN, y, CONTENT_WIDTH, 24, [255, 243, 205]);
+    pdf.text(
+      MARGIN + 10,
+      y + 15,
+      "Part of this period could not be fetched, so message totals may be undercounted.",
+      { size: 9, color: [133, 100, 4] }
+    );
+    y += 30;
+  }
+
+  // Stat cards, four to a row
+  const gap = 8;
+  const cardWidth = (CONTENT_WIDTH - gap * 3) / 4;
+  const cardHeight = 54;
+  reportStats(report).forEach((stat, i) => {
+    const x = MARGIN + (i % 4) * (cardWidth + gap);
+    const top = y + 6 + Math.floor(i / 4) * (cardHeight + gap);
+    const inner = cardWidth - 12;
+    pdf.rect(x, top, cardWidth, cardHeight, PANEL);
+    pdf.text(x + 6, top + 14, fit(stat.label, inner, 8), { size: 8, color: MUTED });
+    pdf.text(x + 6, top + 32, fit(stat.value, inner, 14, true), { size: 14, bold: true });
+    pdf.text(x + 6, top + 46, fit(stat.note, inner, 8), { size: 8, color: MUTED });
+  });
+  y += 6 + cardHeight * 2 + gap;
+
+  // Heatmap, one row per weekday and one column per hour
+  heading("Message Volume by Day & Hour");
+  const matrix = report.summary.heatmaps?.all ?? {};
+  const max = findMaxValue(matrix);
+  const labelWidth = 30;
+  const cellWidth = (CONTENT_WIDTH - labelWidth) / 24;
+  const cellHeight = 14;
+  reserve(DAYS.length * cellHeight + 30);
+  DAYS.forEach((day, row) => {
+    const top = y + row * cellHeight;
+    pdf.text(MARGIN, top + 10, day.slice(0, 3), { size: 8, color: MUTED });
+    for (let hour = 0; hour < 24; hour++) {
+      const count = matrix[day]?.[String(hour)] ?? 0;
+      pdf.rect(
+        MARGIN + labelWidth + hour * cellWidth + 0.5,
+        top + 0.5,
+        cellWidth - 1,
+        cellHeight - 1,
+        heatmapShade(count, max)
+      );
+    }
+  });
+  y += DAYS.length * cellHeight + 10;
+  for (let hour = 0; hour < 24; hour += 3) {
+    pdf.text(MARGIN + labelWidth + hour * cellWidth + 2, y, String(hour), { size: 7, color: MUTED });
+  }
+  y += 12;
+  pdf.text(MARGIN, y, `Darker is busier • busiest hour: ${max} messages`, { size: 8, color: MUTED });
+
+  // Reply times, label left and value right
+  heading("Reply Times");
+  for (const [label, value] of replyTimeRows(report)) {
+    reserve(18);
+    y += 14;
+    pdf.text(MARGIN, y, label, { size: 10 });
+    rightText(MARGIN + CONTENT_WIDTH, value, 10, true);
+    y += 4;
+    pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, RULE);
+  }
+
+  // Overdue chats
+  heading("Longest-Waiting Overdue Chats");
+  if (report.topOverdue.length === 0) {
+    y += 14;
+    pdf.text(MARGIN, y, "No chats are overdue.", { size: 10, color: [40, 167, 69] });
+  } else {
+    const urgencyX = MARGIN + CONTENT_WIDTH * 0.6;
+    y += 12;
+    pdf.text(MARGIN, y, "Chat", { size: 8, color: MUTED });
+    pdf.text(urgencyX, y, "Urgency", { size: 8, color: MUTED });
+    pdf.text(MARGIN + CONTENT_WIDTH - textWidth("Waiting", 8), y, "Waiting", { size: 8, color: MUTED });
+    for (const chat of report.topOverdue) {
+      reserve(32);
+      y += 14;
+      pdf.text(MARGIN, y, fit(chat.chatName, urgencyX - MARGIN - 10, 10), { size: 10 });
+      pdf.text(urgencyX, y, fit(chat.urgency, CONTENT_WIDTH * 0.25, 10), { size: 10 });
+      rightText(MARGIN + CONTENT_WIDTH, `${Math.round(chat.hoursWaiting)}h`, 10);
+      y += 11;
+      pdf.text(MARGIN, y, fit(chat.agent, urgencyX - MARGIN - 10, 8), { size: 8, color: MUTED });
+      y += 5;
+      pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, RULE);
+    }
+  }
+
+  reserve(30);
+  y += 30;
+  pdf.text(
+    MARGIN,
+    y,
+    fit(
+      `${subject} • Generated ${formatInTimeZone(report.generatedAt, report.account.timeZone)}`,
+      CONTENT_WIDTH,
+      8
+    ),
+    { size: 8, color: MUTED }
+  );
+  pdf.line(MARGIN, y - 12, MARGIN + CONTENT_WIDTH, y - 12, RULE);
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,200 @@
+// app/lib/report-schedules.ts
+import type { Chat } from "./types/periskope";
+import { CHAT_TYPES, DEFAULT_CHAT_TYPES, WHATSAPP_ID_PATTERN } from "./chat-filters";
+import { endOfZonedDay, getZonedParts, startOfZonedDay, zonedTimeToDate } from "./timezone";
+import { checkJsonFields } from "./utils";
+
+export const REPORT_FREQUENCIES = ["daily", "weekly", "monthly"] as const;
+
+export type ReportFrequency = (typeof REPORT_FREQUENCIES)[number];
+
+export interface ReportSchedule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  frequency: ReportFrequency;
+  // Hour of day (0-23) to send at, in the account's timezone
+  hour: number;
+  // Weekly reports: 0 = Sunday … 6 = Saturday, like Date.getDay()
+  weekday: number;
+  // Monthly reports: 1-28, so every month has the day
+  dayOfMonth: number;
+  recipients: string[];
+  // Periskope account to report on; the default account when omitted
+  account?: string;
+  // Org phones to include; every number of the account when empty
+  orgPhones: string[];
+  // Chat types for the open and overdue chat figures
+  chatTypes: Chat["chat_type"][];
+  // Attach the report as a PDF as well
+  attachPdf: boolean;
+}
+
+export interface ReportConfig {
+  schedules: ReportSchedule[];
+  // Linked from report emails
+  dashboardUrl?: string;
+}
+
+// The last slot each schedule was sent for, so each slot goes out once
+export interface ReportState {
+  sent: Record<string, { slot: string; sentAt: string }>;
+  // When each schedule that has never been sent was first seen enabled. Its
+  // slots from then on are due until one goes out.
+  activeFrom?: Record<string, string>;
+}
+
+// The completed period a report covers, [start, end]
+export interface ReportPeriod {
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+export const DEFAULT_REPORT_CONFIG: ReportConfig = { schedules: [] };
+
+export const EMPTY_REPORT_STATE: ReportState = { sent: {} };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Type problems in a report config sent by the dashboard, before its
+// schedules are normalized
+export function checkReportInput(body: unknown): string[] {
+  const problems = checkJsonFields(body, "Report config", {
+    schedules: "list",
+    dashboardUrl: "string",
+  });
+  if (problems.length > 0) return problems;
+
+  ((body as { schedules?: unknown[] }).schedules ?? []).forEach((schedule, index) =>
+    problems.push(
+      ...checkJsonFields(schedule, `schedules[${index}]`, {
+        id: "string",
+        name: "string",
+        frequency: "string",
+        recipients: "strings",
+        account: "string",
+        orgPhones: "strings",
+        chatTypes: "strings",
+      })
+    )
+  );
+  return problems;
+}
+
+// Fill optional fields of a schedule that passed checkReportInput
+export function normalizeSchedule(input: Partial<ReportSchedule>, index: number): ReportSchedule {
+  return {
+    id: input.id?.trim() || `report-${index + 1}`,
+    name: input.name?.trim() || `Report ${index + 1}`,
+    enabled: input.enabled !== false,
+    frequency: input.frequency ?? "weekly",
+    hour: Number(input.hour ?? 8),
+    weekday: Number(input.weekday ?? 1),
+    dayOfMonth: Number(input.dayOfMonth ?? 1),
+    recipients: (input.recipients ?? []).map((email) => email.trim()).filter(Boolean),
+    account: input.account?.trim() || undefined,
+    orgPhones: (input.orgPhones ?? []).map((phone) => phone.trim()).filter(Boolean),
+    chatTypes: input.chatTypes?.length ? input.chatTypes : [...DEFAULT_CHAT_TYPES],
+    attachPdf: input.attachPdf !== false,
+  };
+}
+
+export function validateReportConfig(config: ReportConfig): string[] {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+
+  config.schedules.forEach((schedule) => {
+    const name = `Schedule "${schedule.id}"`;
+    if (ids.has(schedule.id)) problems.push(`${name} is listed twice`);
+    ids.add(schedule.id);
+    if (!REPORT_FREQUENCIES.includes(schedule.frequency)) {
+      problems.push(`${name}: frequency must be one of ${REPORT_FREQUENCIES.join(", ")}`);
+    }
+    if (!Number.isInteger(schedule.hour) || schedule.hour < 0 || schedule.hour > 23) {
+      problems.push(`${name}: hour must be a whole number from 0 to 23`);
+    }
+    if (!Number.isInteger(schedule.weekday) || schedule.weekday < 0 || schedule.weekday > 6) {
+      problems.push(`${name}: weekday must be 0 (Sunday) to 6 (Saturday)`);
+    }
+    if (!Number.isInteger(schedule.dayOfMonth) || schedule.dayOfMonth < 1 || schedule.dayOfMonth > 28) {
+      problems.push(`${name}: dayOfMonth must be from 1 to 28`);
+    }
+    if (schedule.recipients.length === 0) problems.push(`${name} needs at least one recipient`);
+    schedule.recipients.forEach((email) => {
+      if (!EMAIL_PATTERN.test(email)) problems.push(`${name}: invalid email "${email}"`);
+    });
+    schedule.orgPhones.forEach((phone) => {
+      if (!WHATSAPP_ID_PATTERN.test(phone)) {
+        problems.push(`${name}: orgPhone "${phone}" must look like 918527014950@c.us`);
+      }
+    });
+    schedule.chatTypes.forEach((type) => {
+      if (!CHAT_TYPES.includes(type)) problems.push(`${name}: unknown chat type "${type}"`);
+    });
+  });
+
+  return problems;
+}
+
+// The most recent send time at or before `now`, in `timeZone`
+export function latestSlot(schedule: ReportSchedule, now: Date, timeZone: string): Date {
+  const p = getZonedParts(now, timeZone);
+  const at = (year: number, month: number, day: number) =>
+    zonedTimeToDate(timeZone, year, month, day, schedule.hour);
+
+  switch (schedule.frequency) {
+    case "daily": {
+      const today = at(p.year, p.month, p.day);
+      return today <= now ? today : at(p.year, p.month, p.day - 1);
+    }
+    case "weekly": {
+      const back = (p.weekday - schedule.weekday + 7) % 7;
+      const slot = at(p.year, p.month, p.day - back);
+      return slot <= now ? slot : at(p.year, p.month, p.day - back - 7);
+    }
+    case "monthly": {
+      const slot = at(p.year, p.month, schedule.dayOfMonth);
+      return slot <= now ? slot : at(p.year, p.month - 1, schedule.dayOfMonth);
+    }
+  }
+}
+
+// The completed day, 7 days or calendar month before `slot`
+export function reportPeriod(schedule: ReportSchedule, slot: Date, timeZone: string): ReportPeriod {
+  const dayLabel = (date: Date) =>
+    date.toLocaleDateString("en-US", { timeZone, day: "numeric", month: "short", year: "numeric" });
+
+  switch (schedule.frequency) {
+    case "daily": {
+      const start = startOfZonedDay(slot, timeZone, -1);
+      return { start, end: endOfZonedDay(slot, timeZone, -1), label: dayLabel(start) };
+    }
+    case "weekly": {
+      const start = startOfZonedDay(slot, timeZone, -7);
+      const end = endOfZonedDay(slot, timeZone, -1);
+      return { start, end, label: `${dayLabel(start)} – ${dayLabel(end)}` };
+    }
+    case "monthly": {
+      const p = getZonedParts(slot, timeZone);
+      const start = zonedTimeToDate(timeZone, p.year, p.month - 1, 1);
+      const end = new Date(zonedTimeToDate(timeZone, p.year, p.month, 1).getTime() - 1);
+      return {
+        start,
+        end,
+        label: start.toLocaleDateString("en-US", { timeZone, month: "long", year: "numeric" }),
+      };
+    }
+  }
+}
+
+// Whether `slot` still has to be sent for this schedule. A schedule that has
+// never been sent owes the slots from when it became active, so saving a new
+// schedule does not immediately mail last month's report.
+export function isSlotDue(schedule: ReportSchedule, slot: Date, state: ReportState): boolean {
+  if (!schedule.enabled) return false;
+  const sent = state.sent[schedule.id];
+  if (sent) return new Date(sent.slot).getTime() < slot.getTime();
+  const activeFrom = state.activeFrom?.[schedule.id];
+  return !!activeFrom && new Date(activeFrom).getTime() <= slot.getTime();
+}
@@ -0,0 +1,36 @@
+// app/lib/report-settings.ts
+import {
+  DEFAULT_REPORT_CONFIG,
+  EMPTY_REPORT_STATE,
+  type ReportConfig,
+  type ReportState,
+} from "./report-schedules";
+import { getSettingsStore } from "./settings-store";
+
+const CONFIG_KEY = "reportConfig";
+const STATE_KEY = "reportState";
+
+// The saved report schedules, or none when nothing has been saved or the
+// settings store cannot be reached
+export async function getReportConfig(): Promise<ReportConfig> {
+  try {
+    const saved = await getSettingsStore().get<ReportConfig>(CONFIG_KEY);
+    return saved ?? DEFAULT_REPORT_CONFIG;
+  } catch (error) {
+    console.error("[reports] failed to load config, no reports are scheduled:", error);
+    return DEFAULT_REPORT_CONFIG;
+  }
+}
+
+export async function saveReportConfig(config: ReportConfig): Promise<void> {
+  await getSettingsStore().set(CONFIG_KEY, config);
+}
+
+// Errors propagate: running without the previous state would resend reports
+export async function getReportState(): Promise<ReportState> {
+  return (await getSettingsStore().get<ReportState>(STATE_KEY)) ?? EMPTY_REPORT_STATE;
+}
+
+export async function saveReportState(state: ReportState): Promise<void> {
+  await getSettingsStore().set(STATE_KEY, state);
+}
@@ -0,0 +1,182 @@
+// app/lib/resolution-analytics.ts
+import type { Chat, Message } from "./types/periskope";
+import { pairRepliesByChat } from "./reply-times";
+
+// Periskope only keeps the latest closed_at, so the cycle a closure ends is
+// reconstructed from messages: it starts with the first customer message
+// after the chat was quiet for this long.
+export const CYCLE_IDLE_HOURS = 48;
+// How far before the range start messages are loaded to find cycle starts
+export const CYCLE_LOOKBACK_DAYS = 30;
+
+// One closed conversation cycle
+export interface ResolvedChat {
+  chatId: string;
+  chatName: string;
+  chatType: Chat["chat_type"];
+  orgPhone: string;
+  // assigned_to, else the number that replied first
+  agent: string;
+  cycleStartedAt: string;
+  firstResponseAt: string | null;
+  closedAt: string;
+  timeToFirstResponseMs: number | null;
+  timeToCloseMs: number;
+  // Customer wait → agent reply turns within the cycle
+  exchanges: number;
+  messageCount: number;
+}
+
+export interface ResolutionStats {
+  count: number;
+  // Cycles that got an agent reply before closing
+  respondedCount: number;
+  avgFirstResponseMs: number;
+  medianFirstResponseMs: number;
+  avgTimeToCloseMs: number;
+  medianTimeToCloseMs: number;
+  avgExchanges: number;
+}
+
+export interface ResolutionReport {
+  overall: ResolutionStats;
+  byAgent: (ResolutionStats & { agent: string })[];
+  byChatType: (ResolutionStats & { chatType: string })[];
+  chats: ResolvedChat[];
+}
+
+function toTime(value: string | number): number {
+  return typeof value === "number" ? value : new Date(value).getTime();
+}
+
+// Closed and not reopened by a later message (the open-chat rule inverted)
+export function isClosedChat(chat: Chat): boolean {
+  if (!chat.closed_at || chat.is_exited) return false;
+  if (!chat.latest_message?.timestamp) return true;
+  return toTime(chat.latest_message.timestamp) <= toTime(chat.closed_at);
+}
+
+// Rebuild the cycle that ended at the chat's closed_at from its messages.
+// Returns null when no customer message precedes the closure.
+export function buildConversationCycle(
+  chat: Chat,
+  chatMessages: Message[],
+  idleMs: number = CYCLE_IDLE_HOURS * 60 * 60 * 1000
+): ResolvedChat | null {
+  const closedAt = toTime(chat.closed_at!);
+  const sorted = chatMessages
+    .filter((m) => toTime(m.timestamp) <= closedAt)
+    .sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+
+  // Walk back from the closure to the last quiet gap
+  let startIndex = 0;
+  for (let i = sorted.length - 1; i > 0; i--) {
+    if (toTime(sorted[i].timestamp) - toTime(sorted[i - 1].timestamp) >= idleMs) {
+      startIndex = i;
+      break;
+    }
+  }
+
+  const cycle = sorted.slice(startIndex);
+  const firstCustomer = cycle.findIndex((m) => !m.from_me);
+  if (firstCustomer === -1) return null;
+
+  const cycleMessages = cycle.slice(firstCustomer);
+  const start = cycleMessages[0];
+  const firstResponse = cycleMessages.find((m) => m.from_me) ?? null;
+
+  return {
+    chatId: chat.chat_id,
+    chatName: chat.chat_name,
+    chatType: chat.chat_type,
+    orgPhone: chat.org_phone,
+    agent: chat.assigned_to || firstResponse?.sender_phone || "Unassigned",
+    cycleStartedAt: start.timestamp,
+    firstResponseAt: firstResponse?.timestamp ?? null,
+    closedAt: new Date(closedAt).toISOString(),
+    timeToFirstResponseMs: firstResponse
+      ? toTime(firstResponse.timestamp) - toTime(start.timestamp)
+      : null,
+    timeToCloseMs: closedAt - toTime(start.timestamp),
+    exchanges: pairRepliesByChat(cycleMessages).length,
+    messageCount: cycleMessages.length,
+  };
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function average(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+export function summarizeResolutions(resolved: ResolvedChat[]): ResolutionStats {
+  const firstResponses = resolved
+    .map((r) => r.timeToFirstResponseMs)
+    .filter((ms): ms is number => ms !== null);
+  const closeTimes = resolved.map((r) => r.timeToCloseMs);
+
+  return {
+    count: resolved.length,
+    respondedCount: firstResponses.length,
+    avgFirstResponseMs: average(firstResponses),
+    medianFirstResponseMs: median(firstResponses),
+    avgTimeToCloseMs: average(closeTimes),
+    medianTimeToCloseMs: median(closeTimes),
+    avgExchanges: average(resolved.map((r) => r.exchanges)),
+  };
+}
+
+function groupBy<K extends string>(
+  resolved: ResolvedChat[],
+  key: (r: ResolvedChat) => string,
+  name: K
+) {
+  const groups = new Map<string, ResolvedChat[]>();
+  resolved.forEach((r) => {
+    groups.set(key(r), [...(groups.get(key(r)) ?? []), r]);
+  });
+  return Array.from(groups.entries())
+    .map(([value, group]) => ({ [name]: value, ...summarizeResolutions(group) }))
+    .sort((a, b) => b.count - a.count) as (ResolutionStats & Record<K, string>)[];
+}
+
+// First-response and resolution metrics for chats closed inside [start, end]
+export function computeResolutionMetrics(
+  chats: Chat[],
+  messages: Message[],
+  range: { start: Date; end: Date },
+  options: { idleHours?: number } = {}
+): ResolutionReport {
+  const idleMs = (options.idleHours ?? CYCLE_IDLE_HOURS) * 60 * 60 * 1000;
+
+  const messagesByChat = new Map<string, Message[]>();
+  messages.forEach((m) => {
+    const chatMessages = messagesByChat.get(m.chat_id) ?? [];
+    chatMessages.push(m);
+    messagesByChat.set(m.chat_id, chatMessages);
+  });
+
+  const resolved = chats
+    .filter((chat) => {
+      if (!isClosedChat(chat)) return false;
+      const closedAt = toTime(chat.closed_at!);
+      return closedAt >= range.start.getTime() && closedAt <= range.end.getTime();
+    })
+    .map((chat) =>
+      buildConversationCycle(chat, messagesByChat.get(chat.chat_id) ?? [], idleMs)
+    )
+    .filter((r): r is ResolvedChat => r !== null)
+    .sort((a, b) => toTime(b.closedAt) - toTime(a.closedAt));
+
+  return {
+    overall: summarizeResolutions(resolved),
+    byAgent: groupBy(resolved, (r) => r.agent, "agent"),
+    byChatType: groupBy(resolved, (r) => r.chatType, "chatType"),
+    chats: resolved,
+  };
+}
@@ -0,0 +1,128 @@
+// app/lib/scheduled-reports.ts
+import type { DeliveryResult } from "./alert-channels";
+import { buildAnalyticsReport } from "./analytics-report";
+import { renderReportEmail } from "./report-email";
+import { renderReportPdf } from "./report-pdf";
+import {
+  isSlotDue,
+  latestSlot,
+  reportPeriod,
+  type ReportConfig,
+  type ReportSchedule,
+  type ReportState,
+} from "./report-schedules";
+import { getReportConfig, getReportState, saveReportState } from "./report-settings";
+import { resolvePeriskopeAccount } from "./periskope-accounts";
+import { getSmtpConfig, sendMail } from "./smtp";
+
+export interface ReportSendResult {
+  scheduleId: string;
+  slot: string;
+  period: string;
+  delivery: DeliveryResult;
+}
+
+export interface ReportRunResult {
+  ranAt: string;
+  schedules: number;
+  reports: ReportSendResult[];
+}
+
+// The period the schedule's latest slot covers
+export function latestReportPeriod(schedule: ReportSchedule, now: Date) {
+  const { timeZone } = resolvePeriskopeAccount(schedule.account);
+  const slot = latestSlot(schedule, now, timeZone);
+  return { slot, period: reportPeriod(schedule, slot, timeZone) };
+}
+
+async function sendReport(
+  schedule: ReportSchedule,
+  config: ReportConfig,
+  now: Date
+): Promise<ReportSendResult> {
+  const { slot, period } = latestReportPeriod(schedule, now);
+  const target = schedule.recipients.join(", ");
+  const result = (delivery: Omit<DeliveryResult, "channel" | "target">): ReportSendResult => ({
+    scheduleId: schedule.id,
+    slot: slot.toISOString(),
+    period: period.label,
+    delivery: { channel: "email", target, ...delivery },
+  });
+
+  const smtp = getSmtpConfig();
+  if (!smtp) return result({ ok: false, error: "SMTP_HOST is not configured" });
+
+  try {
+    const report = await buildAnalyticsReport(schedule, period, now);
+    const email = renderReportEmail(report, { dashboardUrl: config.dashboardUrl });
+    await sendMail(smtp, {
+      to: schedule.recipients,
+      ...email,
+      ...(schedule.attachPdf && {
+        attachments: [
+          {
+            filename: `${schedule.id}-${slot.toISOString().slice(0, 10)}.pdf`,
+            contentType: "application/pdf",
+            content: renderReportPdf(report),
+          },
+        ],
+      }),
+    });
+    return result({ ok: true });
+  } catch (error) {
+    return result({ ok: false, error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+// Send every schedule whose latest slot has not gone out yet, or just
+// `scheduleId` right away when given. Successful sends are remembered, so a
+// failed report is retried on the next run.
+export async function runScheduledReports(
+  now: Date = new Date(),
+  options: { scheduleId?: string } = {}
+): Promise<ReportRunResult> {
+  const config = await getReportConfig();
+  const saved = await getReportState();
+  // Schedules that have never gone out remember when they were first seen,
+  // so their first slot is retried like any other
+  const activeFrom: Record<string, string> = {};
+  let changed = false;
+  config.schedules.forEach((schedule) => {
+    if (!schedule.enabled || saved.sent[schedule.id]) return;
+    activeFrom[schedule.id] = saved.activeFrom?.[schedule.id] ?? now.toISOString();
+    if (!saved.activeFrom?.[schedule.id]) changed = true;
+  });
+  const state: ReportState = { sent: { ...saved.sent }, activeFrom };
+  const result: ReportRunResult = {
+    ranAt: now.toISOString(),
+    schedules: config.schedules.length,
+    reports: [],
+  };
+
+  const pending = options.scheduleId
+    ? config.schedules.filter((schedule) => schedule.id === options.scheduleId)
+    : config.schedules.filter((schedule) =>
+        isSlotDue(schedule, latestReportPeriod(schedule, now).slot, state)
+      );
+
+  for (const schedule of pending) {
+    const sent = await sendReport(schedule, config, now);
+    result.reports.push(sent);
+    if (sent.delivery.ok) {
+      state.sent[schedule.id] = { slot: sent.slot, sentAt: now.toISOString() };
+      delete activeFrom[schedule.id];
+      changed = true;
+    } else {
+      console.error(`[reports] ${schedule.id} to ${sent.delivery.target} failed: ${sent.delivery.error}`);
+    }
+  }
+
+  if (changed) {
+    await saveReportState(state);
+  }
+  console.log(
+    `[reports] ${result.reports.filter((report) => report.delivery.ok).length}/${pending.length} report(s) sent`
+  );
+
+  return result;
+}
@@ -0,0 +1,43 @@
+// app/lib/settings-store.ts
+import { getDataSource } from "./data-source";
+import { createFirestoreSettingsStore } from "./settings-stores/firestore-settings-store";
+import { createMemorySettingsStore } from "./settings-stores/memory-settings-store";
+
+export type SettingsStoreKind = "firestore" | "memory";
+
+// Small JSON documents the dashboard is configured with (business calendars
+// and the like), one document per key
+export interface SettingsStore {
+  readonly kind: SettingsStoreKind;
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T): Promise<void>;
+}
+
+let settingsStore: SettingsStore | undefined;
+
+// Resolve the configured store. SETTINGS_STORE=firestore|memory; defaults to
+// Firestore, or to memory when serving fixtures so offline runs stay offline.
+export function getSettingsStore(): SettingsStore {
+  if (settingsStore) return settingsStore;
+
+  const kind = (
+    process.env.SETTINGS_STORE ||
+    (getDataSource().kind === "fixture" ? "memory" : "firestore")
+  ).toLowerCase();
+
+  switch (kind) {
+    case "firestore":
+      settingsStore = createFirestoreSettingsStore();
+      break;
+    case "memory":
+      settingsStore = createMemorySettingsStore();
+      break;
+    default:
+      throw new Error(
+        `Unknown SETTINGS_STORE "${kind}" (expected "firestore" or "memory")`
+      );
+  }
+
+  console.log(`[settings-store] Using ${settingsStore.kind} settings store`);
+  return settingsStore;
+}
@@ -0,0 +1,36 @@
+// app/lib/settings-stores/firestore-settings-store.ts
+import { getAdminFirestore } from "@/app/lib/firebase-admin";
+import type { SettingsStore } from "@/app/lib/settings-store";
+
+// Layout:
+//   settings/{key} -> { value, updatedAt }
+const ROOT_COLLECTION = "settings";
+
+interface SettingsDocument<T> {
+  value: T;
+  updatedAt: string;
+}
+
+// Persistent store in Firestore, through the Admin SDK in app/lib/firebase-admin.ts
+export function createFirestoreSettingsStore(): SettingsStore {
+  const settings = () => getAdminFirestore().collection(ROOT_COLLECTION);
+
+  return {
+    kind: "firestore",
+
+    async get<T>(key: string): Promise<T | null> {
+      const snapshot = await settings().doc(key).get();
+      if (!snapshot.exists) return null;
+      return (snapshot.data() as SettingsDocument<T>).value ?? null;
+    },
+
+    async set<T>(key: string, value: T): Promise<void> {
+      const document: SettingsDocument<T> = {
+        // Drop undefined values, which Firestore rejects
+        value: JSON.parse(JSON.stringify(value)),
+        updatedAt: new Date().toISOString(),
+      };
+      await settings().doc(key).set(document);
+    },
+  };
+}
@@ -0,0 +1,26 @@
+// app/lib/settings-stores/memory-settings-store.ts
+import type { SettingsStore } from "@/app/lib/settings-store";
+
+// Kept on globalThis so settings survive dev-server hot reloads
+const globalForStore = globalThis as unknown as {
+  memorySettingsStore?: Map<string, unknown>;
+};
+
+// Process-local store for offline development. Contents are lost when the
+// server restarts.
+export function createMemorySettingsStore(): SettingsStore {
+  const documents = (globalForStore.memorySettingsStore ??= new Map());
+
+  return {
+    kind: "memory",
+
+    async get<T>(key: string): Promise<T | null> {
+      const value = documents.get(key);
+      return value === undefined ? null : (structuredClone(value) as T);
+    },
+
+    async set<T>(key: string, value: T): Promise<void> {
+      documents.set(key, structuredClone(value));
+    },
+  };
+}
@@ -0,0 +1,112 @@
+// app/lib/sla-alerts.ts
+import { detectAlerts, type AlertState, type OverdueChat, type SlaAlert } from "./alert-rules";
+import { getAlertConfig, getAlertState, saveAlertState } from "./alert-settings";
+import { sendAlertEmail, sendWebhook, type DeliveryResult } from "./alert-channels";
+import { loadOpenChats } from "./open-chats";
+import { evaluateSla } from "./sla-policy";
+import { getSlaPolicyConfig } from "./sla-policy-settings";
+import { resolveBusinessCalendar } from "./business-calendar";
+import { getBusinessCalendarConfig } from "./business-calendar-settings";
+import { resolvePeriskopeAccount } from "./periskope-accounts";
+
+export interface AlertRunResult {
+  ranAt: string;
+  enabled: boolean;
+  openChats: number;
+  overdueChats: number;
+  alerts: SlaAlert[];
+  deliveries: DeliveryResult[];
+}
+
+// Evaluate open chats against their SLA policies, send whatever is new since
+// the last run and remember it. A channel whose delivery fails keeps its
+// alerts pending and is sent them again on the next run.
+export async function runSlaAlerts(now: Date = new Date()): Promise<AlertRunResult> {
+  const config = await getAlertConfig();
+  const result: AlertRunResult = {
+    ranAt: now.toISOString(),
+    enabled: config.enabled,
+    openChats: 0,
+    overdueChats: 0,
+    alerts: [],
+    deliveries: [],
+  };
+  if (!config.enabled) return result;
+
+  const account = resolvePeriskopeAccount(config.account);
+  const openChats = await loadOpenChats(
+    { orgPhones: [], chatTypes: config.chatTypes, agents: [], labels: [], excludeLabels: [], properties: [] },
+    account.id
+  );
+  const calendarConfig = await getBusinessCalendarConfig();
+  const slaConfig = await getSlaPolicyConfig();
+
+  const overdue: OverdueChat[] = [];
+  for (const chat of openChats) {
+    const calendar = resolveBusinessCalendar(calendarConfig, {
+      orgPhone: chat.org_phone ?? undefined,
+    });
+    const sla = evaluateSla(chat, slaConfig, now, calendar);
+    if (sla.overdue) overdue.push({ chat, sla });
+  }
+
+  const previous = await getAlertState();
+  const { alerts, state } = detectAlerts(overdue, previous, config, slaConfig, now);
+  result.openChats = openChats.length;
+  result.overdueChats = overdue.length;
+  result.alerts = alerts;
+
+  // Each channel gets this run's alerts plus whatever it missed before, and
+  // only stops owing them once its own delivery succeeds
+  const pending: Record<string, SlaAlert[]> = {};
+  const sends: Promise<DeliveryResult>[] = [];
+  const deliver = (key: string, send: (alerts: SlaAlert[]) => Promise<DeliveryResult>) => {
+    const owed = stillDue(previous.pending?.[key] ?? [], alerts, state);
+    if (owed.length === 0) return;
+    sends.push(
+      send(owed).then((delivery) => {
+        if (!delivery.ok) pending[key] = owed;
+        return delivery;
+      })
+    );
+  };
+  config.webhooks.forEach((webhook) =>
+    deliver(`webhook:${webhook.url}`, (owed) => sendWebhook(webhook, owed, now))
+  );
+  if (config.emailTo.length > 0) {
+    deliver("email", (owed) =>
+      sendAlertEmail(config.emailTo, owed, {
+        dashboardUrl: config.dashboardUrl,
+        timeZone: account.timeZone,
+        now,
+      })
+    );
+  }
+  result.deliveries = await Promise.all(sends);
+  result.deliveries
+    .filter((delivery) => !delivery.ok)
+    .forEach((delivery) =>
+      console.error(`[alerts] ${delivery.channel} to ${delivery.target} failed: ${delivery.error}`)
+    );
+
+  await saveAlertState({ ...state, pending });
+  console.log(
+    `[alerts] ${overdue.length}/${openChats.length} open chats overdue, ${alerts.length} alert(s) sent`
+  );
+
+  return result;
+}
+
+// A channel's missed alerts that still hold, followed by this run's. Missed
+// chat alerts are dropped once the chat is no longer overdue or has a newer
+// alert; the missed count alert once the count is back under the threshold
+// or alerts again.
+function stillDue(missed: SlaAlert[], alerts: SlaAlert[], state: AlertState): SlaAlert[] {
+  const kept = missed.filter((alert) =>
+    alert.kind === "tier"
+      ? alert.chatId in state.chats &&
+        !alerts.some((next) => next.kind === "tier" && next.chatId === alert.chatId)
+      : state.overdueCount.above && !alerts.some((next) => next.kind === "overdue-count")
+  );
+  return [...kept, ...alerts];
+}
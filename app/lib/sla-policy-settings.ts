@@ -0,0 +1,21 @@
+// app/lib/sla-policy-settings.ts
+import { DEFAULT_SLA_CONFIG, type SlaPolicyConfig } from "./sla-policy";
+import { getSettingsStore } from "./settings-store";
+
+const SETTINGS_KEY = "slaPolicies";
+
+// The saved SLA policies, or the built-in default policy when nothing has been
+// saved or the settings store cannot be reached
+export async function getSlaPolicyConfig(): Promise<SlaPolicyConfig> {
+  try {
+    const saved = await getSettingsStore().get<SlaPolicyConfig>(SETTINGS_KEY);
+    return saved ?? DEFAULT_SLA_CONFIG;
+  } catch (error) {
+    console.error("[sla-policy] failed to load policies, using default:", error);
+    return DEFAULT_SLA_CONFIG;
+  }
+}
+
+export async function saveSlaPolicyConfig(config: SlaPolicyConfig): Promise<void> {
+  await getSettingsStore().set(SETTINGS_KEY, config);
+}
@@ -0,0 +1,248 @@
+// app/lib/sla-policy.ts
+import type { Chat } from "./types/periskope";
+import { CHAT_TYPES, chatOrgPhones } from "./chat-filters";
+import { businessTimeBetween, type ResolvedCalendar } from "./business-calendar";
+import { checkJsonFields } from "./utils";
+
+export const SLA_TIER_COLORS = ["emerald", "yellow", "orange", "red"] as const;
+
+export type SlaTierColor = (typeof SLA_TIER_COLORS)[number];
+
+// A chat is in the last tier whose `afterHours` its wait exceeds
+export interface UrgencyTier {
+  id: string;
+  label: string;
+  afterHours: number;
+  color: SlaTierColor;
+}
+
+// Which chats a policy covers. Every condition given must hold; a list
+// matches if the chat has any of its values. No conditions = every chat.
+export interface SlaMatch {
+  chatTypes?: Chat["chat_type"][];
+  labels?: string[];
+  orgPhones?: string[];
+  customProperty?: { id: string; value: string };
+}
+
+export interface SlaPolicy {
+  id: string;
+  name: string;
+  match: SlaMatch;
+  // A chat whose customer spoke last is overdue once the wait exceeds this
+  responseTargetHours: number;
+  // Measure the wait (target and tiers) in business hours of the chat's
+  // calendar instead of wall-clock hours
+  businessHours: boolean;
+  tiers: UrgencyTier[];
+}
+
+// Policies are tried in order; the first match applies
+export interface SlaPolicyConfig {
+  policies: SlaPolicy[];
+}
+
+export interface SlaEvaluation {
+  policyId: string;
+  policyName: string;
+  businessHours: boolean;
+  targetHours: number;
+  // Hours the customer has waited for a reply, in the policy's basis; null
+  // when we spoke last
+  waitingHours: number | null;
+  overdue: boolean;
+  // Set for overdue chats only
+  tier: UrgencyTier | null;
+}
+
+export const DEFAULT_URGENCY_TIERS: UrgencyTier[] = [
+  { id: "low", label: "Low", afterHours: 0, color: "emerald" },
+  { id: "medium", label: "Medium", afterHours: 48, color: "yellow" },
+  { id: "high", label: "High", afterHours: 72, color: "orange" },
+  { id: "critical", label: "Critical", afterHours: 168, color: "red" },
+];
+
+// Any chat whose customer spoke last is overdue, in wall-clock hours
+export const DEFAULT_SLA_POLICY: SlaPolicy = {
+  id: "default",
+  name: "Default",
+  match: {},
+  responseTargetHours: 0,
+  businessHours: false,
+  tiers: DEFAULT_URGENCY_TIERS,
+};
+
+export const DEFAULT_SLA_CONFIG: SlaPolicyConfig = {
+  policies: [DEFAULT_SLA_POLICY],
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function matchesSlaPolicy(chat: Chat, { match }: SlaPolicy): boolean {
+  if (match.chatTypes?.length && !match.chatTypes.includes(chat.chat_type)) return false;
+  if (match.labels?.length && !match.labels.some((label) => chat.label_ids?.[label])) {
+    return false;
+  }
+  if (
+    match.orgPhones?.length &&
+    !chatOrgPhones(chat).some((phone) => match.orgPhones!.includes(phone))
+  ) {
+    return false;
+  }
+  if (
+    match.customProperty &&
+    String(chat.custom_properties?.[match.customProperty.id]) !== match.customProperty.value
+  ) {
+    return false;
+  }
+  return true;
+}
+
+// The first matching policy, else the built-in default
+export function selectSlaPolicy(config: SlaPolicyConfig, chat: Chat): SlaPolicy {
+  return config.policies.find((policy) => matchesSlaPolicy(chat, policy)) ?? DEFAULT_SLA_POLICY;
+}
+
+// The policy for chats no narrower policy matches: the first catch-all
+export function fallbackSlaPolicy(config: SlaPolicyConfig): SlaPolicy {
+  return config.policies.find((policy) => matchesEverything(policy.match)) ?? DEFAULT_SLA_POLICY;
+}
+
+function matchesEverything(match: SlaMatch): boolean {
+  return (
+    !match.chatTypes?.length &&
+    !match.labels?.length &&
+    !match.orgPhones?.length &&
+    !match.customProperty
+  );
+}
+
+// Tier for a wait of `hours`; the first tier when no threshold is exceeded
+export function tierForWait(tiers: UrgencyTier[], hours: number): UrgencyTier {
+  return tiers.reduce(
+    (current, tier) => (hours > tier.afterHours ? tier : current),
+    tiers[0]
+  );
+}
+
+// Classify one chat: overdue when the customer spoke last and has waited past
+// the policy's target. Waits are wall-clock or business hours per the policy.
+export function evaluateSla(
+  chat: Chat,
+  config: SlaPolicyConfig,
+  now: Date,
+  calendar: ResolvedCalendar
+): SlaEvaluation {
+  const policy = selectSlaPolicy(config, chat);
+  const base = {
+    policyId: policy.id,
+    policyName: policy.name,
+    businessHours: policy.businessHours,
+    targetHours: policy.responseTargetHours,
+  };
+
+  const latest = chat.latest_message;
+  if (!latest || latest.from_me !== false) {
+    return { ...base, waitingHours: null, overdue: false, tier: null };
+  }
+
+  const since = new Date(latest.timestamp);
+  const waitedMs = policy.businessHours
+    ? businessTimeBetween(since, now, calendar)
+    : now.getTime() - since.getTime();
+  const waitingHours = Math.round((waitedMs / HOUR_MS) * 100) / 100;
+  const overdue = waitedMs >= policy.responseTargetHours * HOUR_MS;
+
+  return {
+    ...base,
+    waitingHours,
+    overdue,
+    tier: overdue ? tierForWait(policy.tiers, waitingHours) : null,
+  };
+}
+
+// Type problems in policies sent by the dashboard, before they are normalized
+export function checkSlaPolicyInput(body: unknown): string[] {
+  const problems = checkJsonFields(body, "SLA policies", { policies: "list" });
+  if (problems.length > 0) return problems;
+
+  ((body as { policies?: unknown[] }).policies ?? []).forEach((policy, index) => {
+    const label = `policies[${index}]`;
+    const policyProblems = checkJsonFields(policy, label, {
+      id: "string",
+      name: "string",
+      match: "object",
+      tiers: "list",
+    });
+    problems.push(...policyProblems);
+    if (policyProblems.length > 0) return;
+
+    const { match, tiers } = policy as { match?: unknown; tiers?: unknown[] };
+    if (match) {
+      problems.push(
+        ...checkJsonFields(match, `${label}.match`, {
+          chatTypes: "strings",
+          labels: "strings",
+          orgPhones: "strings",
+          customProperty: "object",
+        })
+      );
+    }
+    (tiers ?? []).forEach((tier, tierIndex) =>
+      problems.push(
+        ...checkJsonFields(tier, `${label}.tiers[${tierIndex}]`, {
+          id: "string",
+          label: "string",
+          color: "string",
+        })
+      )
+    );
+  });
+  return problems;
+}
+
+export function validateSlaConfig(config: SlaPolicyConfig): string[] {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+
+  if (config.policies.length === 0) problems.push("At least one policy is required");
+
+  config.policies.forEach((policy, index) => {
+    const name = policy.name || policy.id || `#${index + 1}`;
+    if (!policy.id) problems.push(`Policy ${name}: id is required`);
+    else if (ids.has(policy.id)) problems.push(`Duplicate policy id "${policy.id}"`);
+    ids.add(policy.id);
+    if (!policy.name) problems.push(`Policy ${name}: name is required`);
+
+    if (!Number.isFinite(policy.responseTargetHours) || policy.responseTargetHours < 0) {
+      problems.push(`Policy ${name}: responseTargetHours must be a number ≥ 0`);
+    }
+
+    const { match } = policy;
+    match.chatTypes?.forEach((type) => {
+      if (!CHAT_TYPES.includes(type)) problems.push(`Policy ${name}: unknown chat type "${type}"`);
+    });
+    if (match.customProperty && (!match.customProperty.id || !match.customProperty.value)) {
+      problems.push(`Policy ${name}: customProperty needs both id and value`);
+    }
+
+    if (policy.tiers.length === 0) problems.push(`Policy ${name}: at least one tier is required`);
+    policy.tiers.forEach((tier, tierIndex) => {
+      if (!tier.id || !tier.label) {
+        problems.push(`Policy ${name}: tier ${tierIndex + 1} needs an id and a label`);
+      }
+      if (!SLA_TIER_COLORS.includes(tier.color)) {
+        problems.push(`Policy ${name}: tier "${tier.id}" has unknown color "${tier.color}"`);
+      }
+      if (!Number.isFinite(tier.afterHours) || tier.afterHours < 0) {
+        problems.push(`Policy ${name}: tier "${tier.id}" afterHours must be a number ≥ 0`);
+      }
+      const previous = policy.tiers[tierIndex - 1];
+      if (previous && tier.afterHours <= previous.afterHours) {
+        problems.push(`Policy ${name}: tiers must be in increasing afterHours order`);
+      }
+    });
+  });
+
+  return problems;
+}
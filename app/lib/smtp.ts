@@ -0,0 +1,87 @@
+// app/lib/smtp.ts
+// Alert and report emails, sent with nodemailer: one multipart/alternative
+// message (multipart/mixed when it has attachments) per connection. Works
+// against local catchers such as Mailpit or MailHog (SMTP_HOST=localhost
+// SMTP_PORT=1025).
+import os from "os";
+import nodemailer from "nodemailer";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS (port 465); otherwise STARTTLS is used when offered
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  // Header form, e.g. "Periskope <alerts@example.com>"; the envelope sender is
+  // the address alone
+  from: string;
+  // Allow logging in without TLS, for servers that offer no STARTTLS
+  insecure: boolean;
+}
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+const TIMEOUT_MS = 30 * 1000;
+
+// From SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, SMTP_FROM and
+// SMTP_INSECURE; null when SMTP_HOST is not set
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) return null;
+  const secure = process.env.SMTP_SECURE === "true";
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    from: process.env.SMTP_FROM || `alerts@${os.hostname()}`,
+    insecure: process.env.SMTP_INSECURE === "true",
+  };
+}
+
+// Deliver one message; rejects when the server refuses it. Credentials only
+// travel over TLS: without implicit TLS, a server that does not offer
+// STARTTLS is refused before AUTH unless `insecure` is set.
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    requireTLS: !config.secure && !!config.user && !config.insecure,
+    auth: config.user ? { user: config.user, pass: config.pass ?? "" } : undefined,
+    connectionTimeout: TIMEOUT_MS,
+    greetingTimeout: TIMEOUT_MS,
+    socketTimeout: TIMEOUT_MS,
+  });
+
+  try {
+    await transport.sendMail({
+      from: config.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachments: message.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        content: attachment.content,
+      })),
+    });
+  } finally {
+    transport.close();
+  }
+}
@@ -0,0 +1,27 @@
+// app/lib/snapshot-store.ts
+import type { ChatMetricsSnapshot } from "./chat-snapshots";
+import type { TimeWindow } from "./time-windows";
+import { getSettingsStore, type SettingsStoreKind } from "./settings-store";
+import { createFirestoreSnapshotStore } from "./snapshot-stores/firestore-snapshot-store";
+import { createMemorySnapshotStore } from "./snapshot-stores/memory-snapshot-store";
+
+// Time series of chat metric snapshots, per account
+export interface SnapshotStore {
+  readonly kind: SettingsStoreKind;
+  addSnapshot(snapshot: ChatMetricsSnapshot): Promise<void>;
+  // Snapshots taken within `window`, oldest first
+  querySnapshots(account: string, window: TimeWindow): Promise<ChatMetricsSnapshot[]>;
+}
+
+let snapshotStore: SnapshotStore | undefined;
+
+// Snapshots are kept in the same backend as settings (SETTINGS_STORE)
+export function getSnapshotStore(): SnapshotStore {
+  if (snapshotStore) return snapshotStore;
+
+  snapshotStore =
+    getSettingsStore().kind === "firestore"
+      ? createFirestoreSnapshotStore()
+      : createMemorySnapshotStore();
+  return snapshotStore;
+}
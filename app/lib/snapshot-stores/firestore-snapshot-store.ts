@@ -0,0 +1,44 @@
+// app/lib/snapshot-stores/firestore-snapshot-store.ts
+import { getAdminFirestore } from "@/app/lib/firebase-admin";
+import type { SnapshotStore } from "@/app/lib/snapshot-store";
+import type { ChatMetricsSnapshot } from "@/app/lib/chat-snapshots";
+import type { TimeWindow } from "@/app/lib/time-windows";
+import { withoutKey } from "@/app/lib/utils";
+
+// Layout:
+//   chatMetricSnapshots/{account}/snapshots/{takenAt} -> snapshot + takenAtMs
+const ROOT_COLLECTION = "chatMetricSnapshots";
+
+interface StoredSnapshot extends ChatMetricsSnapshot {
+  takenAtMs: number;
+}
+
+function snapshotsCollection(account: string) {
+  return getAdminFirestore().collection(ROOT_COLLECTION).doc(account).collection("snapshots");
+}
+
+// Persistent store in Firestore, through the Admin SDK in app/lib/firebase-admin.ts
+export function createFirestoreSnapshotStore(): SnapshotStore {
+  return {
+    kind: "firestore",
+
+    async addSnapshot(snapshot: ChatMetricsSnapshot): Promise<void> {
+      const stored: StoredSnapshot = {
+        // Drop undefined values, which Firestore rejects
+        ...JSON.parse(JSON.stringify(snapshot)),
+        takenAtMs: new Date(snapshot.takenAt).getTime(),
+      };
+      await snapshotsCollection(snapshot.account).doc(snapshot.takenAt).set(stored);
+    },
+
+    async querySnapshots(account: string, window: TimeWindow): Promise<ChatMetricsSnapshot[]> {
+      const snapshot = await snapshotsCollection(account)
+        .where("takenAtMs", ">=", window.start)
+        .where("takenAtMs", "<", window.end)
+        .orderBy("takenAtMs")
+        .get();
+
+      return snapshot.docs.map((d) => withoutKey(d.data() as StoredSnapshot, "takenAtMs"));
+    },
+  };
+}
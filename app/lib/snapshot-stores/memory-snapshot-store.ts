@@ -0,0 +1,35 @@
+// app/lib/snapshot-stores/memory-snapshot-store.ts
+import type { SnapshotStore } from "@/app/lib/snapshot-store";
+import type { ChatMetricsSnapshot } from "@/app/lib/chat-snapshots";
+import type { TimeWindow } from "@/app/lib/time-windows";
+
+// Kept on globalThis so snapshots survive dev-server hot reloads
+const globalForStore = globalThis as unknown as {
+  memorySnapshotStore?: Map<string, ChatMetricsSnapshot[]>;
+};
+
+// Process-local store for offline development. Contents are lost when the
+// server restarts.
+export function createMemorySnapshotStore(): SnapshotStore {
+  const accounts = (globalForStore.memorySnapshotStore ??= new Map<string, ChatMetricsSnapshot[]>());
+
+  return {
+    kind: "memory",
+
+    async addSnapshot(snapshot: ChatMetricsSnapshot): Promise<void> {
+      const series = accounts.get(snapshot.account) ?? [];
+      series.push(structuredClone(snapshot));
+      series.sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+      accounts.set(snapshot.account, series);
+    },
+
+    async querySnapshots(account: string, window: TimeWindow): Promise<ChatMetricsSnapshot[]> {
+      return (accounts.get(account) ?? [])
+        .filter((snapshot) => {
+          const time = new Date(snapshot.takenAt).getTime();
+          return time >= window.start && time < window.end;
+        })
+        .map((snapshot) => structuredClone(snapshot));
+    },
+  };
+}
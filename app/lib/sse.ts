@@ -0,0 +1,85 @@
+// app/lib/sse.ts
+
+const HEARTBEAT_MS = 25 * 1000;
+
+export interface SseEvent<T> {
+  event: string;
+  data: T;
+}
+
+// Read a text/event-stream response body, yielding one parsed event per
+// blank-line-terminated block. Comment lines (heartbeats) are skipped.
+export async function* readSse<T>(response: Response): AsyncGenerator<SseEvent<T>> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split("\n\n");
+      buffer = blocks.pop() ?? "";
+
+      for (const block of blocks) {
+        let event = "message";
+        const data: string[] = [];
+        block.split("\n").forEach((line) => {
+          if (line.startsWith("event:")) event = line.slice(6).trim();
+          else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+        });
+        if (data.length) yield { event, data: JSON.parse(data.join("\n")) as T };
+      }
+    }
+  } finally {
+    // Closes the connection when the caller stops reading early
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+// Build a streaming text/event-stream response that stays open until the
+// client disconnects. `open` starts sending through `send` and returns a
+// cleanup function that runs on disconnect. A comment line every 25s keeps
+// proxies from closing an idle stream.
+export function sseResponse(
+  open: (send: (event: string, data: unknown) => void) => () => void
+): Response {
+  const encoder = new TextEncoder();
+  let close = () => {};
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          close();
+        }
+      };
+      const cleanup = open((event, data) =>
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+      );
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+      close = () => {
+        clearInterval(heartbeat);
+        cleanup();
+        close = () => {};
+      };
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,55 @@
+// app/lib/time-windows.ts
+
+// Half-open interval [start, end) in epoch milliseconds
+export interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+// Sort and merge overlapping or touching windows
+export function mergeWindows(windows: TimeWindow[]): TimeWindow[] {
+  const sorted = windows
+    .filter((w) => w.end > w.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: TimeWindow[] = [];
+  for (const window of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && window.start <= last.end) {
+      last.end = Math.max(last.end, window.end);
+    } else {
+      merged.push({ ...window });
+    }
+  }
+  return merged;
+}
+
+// Parts of `range` not covered by any of `covered`
+export function subtractWindows(
+  range: TimeWindow,
+  covered: TimeWindow[]
+): TimeWindow[] {
+  const missing: TimeWindow[] = [];
+  let cursor = range.start;
+
+  for (const window of mergeWindows(covered)) {
+    if (window.end <= cursor) continue;
+    if (window.start >= range.end) break;
+    if (window.start > cursor) {
+      missing.push({ start: cursor, end: window.start });
+    }
+    cursor = Math.max(cursor, window.end);
+  }
+
+  if (cursor < range.end) {
+    missing.push({ start: cursor, end: range.end });
+  }
+  return missing;
+}
+
+export function windowToISO(window: TimeWindow): { start: string; end: string } {
+  return {
+    start: new Date(window.start).toISOString(),
+    end: new Date(window.end).toISOString(),
+  };
+}
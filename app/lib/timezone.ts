@@ -0,0 +1,154 @@
+// app/lib/timezone.ts
+
+// The org's home zone. Every bucketing, date-range and business-hours
+// calculation happens in an explicit IANA zone so the dashboard looks the
+// same no matter where the browser or server runs.
+export const DEFAULT_TIMEZONE =
+  process.env.NEXT_PUBLIC_DEFAULT_TIMEZONE || "Asia/Kolkata";
+
+// Offered in the dashboard's timezone picker; any valid IANA name also works
+// through the `tz` query parameter.
+export const COMMON_TIMEZONES = [
+  "Asia/Kolkata",
+  "Asia/Dubai",
+  "Asia/Singapore",
+  "Europe/London",
+  "Europe/Berlin",
+  "America/New_York",
+  "America/Chicago",
+  "America/Los_Angeles",
+  "Australia/Sydney",
+  "UTC",
+];
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday, like Date.getDay()
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    partsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Fall back to the org zone for missing or unknown names
+export function resolveTimeZone(timeZone?: string | null): string {
+  if (!timeZone) return DEFAULT_TIMEZONE;
+  if (isValidTimeZone(timeZone)) return timeZone;
+  console.warn(`[timezone] unknown timezone "${timeZone}", using ${DEFAULT_TIMEZONE}`);
+  return DEFAULT_TIMEZONE;
+}
+
+// Wall-clock fields of an instant as seen in `timeZone`
+export function getZonedParts(date: Date | number, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const { type, value } of partsFormatter(timeZone).formatToParts(date)) {
+    parts[type] = value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+// Offset of `timeZone` from UTC at the given instant, in ms
+function timeZoneOffset(instant: number, timeZone: string): number {
+  const p = getZonedParts(instant, timeZone);
+  const asUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUTC - Math.floor(instant / 1000) * 1000;
+}
+
+// The instant at which the wall clock in `timeZone` shows the given time.
+// Out-of-range fields roll over like the Date constructor (day 0, hour 24...).
+export function zonedTimeToDate(
+  timeZone: string,
+  year: number,
+  month: number, // 1-12
+  day: number,
+  hour = 0,
+  minute = 0,
+  second = 0,
+  ms = 0
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second, ms);
+  const guess = wallClock - timeZoneOffset(wallClock, timeZone);
+  // Re-check once in case the guess landed on the other side of a DST change
+  return new Date(wallClock - timeZoneOffset(guess, timeZone));
+}
+
+// Midnight at the start of the zoned calendar day containing `date`,
+// shifted by `dayOffset` days
+export function startOfZonedDay(
+  date: Date | number,
+  timeZone: string,
+  dayOffset = 0
+): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return zonedTimeToDate(timeZone, year, month, day + dayOffset);
+}
+
+// Last millisecond of the zoned calendar day containing `date`
+export function endOfZonedDay(
+  date: Date | number,
+  timeZone: string,
+  dayOffset = 0
+): Date {
+  return new Date(startOfZonedDay(date, timeZone, dayOffset + 1).getTime() - 1);
+}
+
+// "YYYY-MM-DD" of the zoned calendar day, as used by <input type="date">
+export function formatZonedDate(date: Date | number, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// Parse a "YYYY-MM-DD" value as a calendar day in `timeZone`
+export function parseZonedDate(value: string, timeZone: string): Date {
+  const [year, month, day] = value.split("-").map(Number);
+  return zonedTimeToDate(timeZone, year, month, day);
+}
+
+export function formatInTimeZone(
+  date: Date | number | string,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions = { dateStyle: "medium", timeStyle: "short" }
+): string {
+  return new Date(date).toLocaleString(undefined, { ...options, timeZone });
+}
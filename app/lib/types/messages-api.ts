@@ -0,0 +1,30 @@
+import type { Message } from "./periskope";
+import type { CompletenessReport, LoadProgress } from "../message-loader";
+import type { DataFreshness } from "../message-sync";
+
+// Events written one per line by GET /api/messages?stream=1 (NDJSON)
+export type MessagesStreamEvent =
+  | { type: "messages"; messages: Message[] }
+  | ({ type: "progress" } & LoadProgress)
+  | {
+      type: "done";
+      total: number;
+      freshness: DataFreshness;
+      completeness: CompletenessReport;
+    }
+  | { type: "error"; error: string; details?: string };
+
+// Events written by the aggregation endpoints (/api/messages/summary,
+// /api/messages/heatmap) with stream=1. "partial" carries the aggregate over
+// everything received so far and is replaced by "done" once the sync finishes.
+export type AggregateStreamEvent<T> =
+  | ({ type: "progress" } & LoadProgress)
+  | { type: "partial"; data: T }
+  | {
+      type: "done";
+      data: T;
+      total: number;
+      freshness: DataFreshness;
+      completeness: CompletenessReport;
+    }
+  | { type: "error"; error: string; details?: string };
@@ -1,3 +1,7 @@
+import type { SlaEvaluation, SlaPolicyConfig } from "../sla-policy";
+import type { PropertyFilter, PropertyTotals } from "../custom-properties";
+import type { LabelTotals } from "../chat-labels";
+
 export interface Message {
   message_id: string;
   chat_id: string;
@@ -146,6 +150,11 @@ export interface ChatMetrics {
     isValidActivity?: boolean; // Whether this represents real activity
     memberCount?: number; // For groups/business chats
     isAssigned?: boolean; // Whether chat is assigned to an agent
+    orgPhone?: string | null;
+    lastMessageBody?: string | null; // First 100 characters
+    urgencyLevel?: string; // Id of the SLA tier, for overdue chats
+    sla?: SlaEvaluation;
+    labelIds?: string[];
   }>;
   delayedResponseDetails: Array<{
     chatId: string;
@@ -153,12 +162,27 @@ export interface ChatMetrics {
     chatType?: string;
     lastMessageTime: string;
     hoursWithoutResponse: number;
+    businessHoursWithoutResponse?: number | null; // Same wait counted in business hours
+    businessCalendar?: string; // Calendar used for businessHoursWithoutResponse
     agentPhone?: string | null;
     lastMessageFromCustomer?: boolean; // Whether last message was from customer
     memberCount?: number; // For groups/business chats
     reason?: string; // Why it's considered delayed
+    orgPhone?: string | null;
+    lastMessageBody?: string | null; // First 100 characters
+    urgencyLevel?: string; // Id of the SLA tier
+    sla?: SlaEvaluation;
+    labelIds?: string[];
   }>;
+  // Policies the chats were evaluated against, for rendering tiers
+  slaConfig?: SlaPolicyConfig;
+  // Open and overdue chats per value of each custom property
+  byProperty?: PropertyTotals<{ open: number; overdue: number }>[];
+  // Open and overdue chats and their average age per label, named from the
+  // label settings
+  byLabel?: LabelTotals[];
   _debug?: {
+    account?: string; // Periskope account id the metrics were fetched with
     periskopePhone?: string;
     hasApiKey: boolean;
     totalChatsFound: number;
@@ -168,6 +192,14 @@ export interface ChatMetrics {
     agentPhonesChecked?: string[];
     chatTypeDistribution?: Record<string, number>;
     delayedResponseThresholds?: Record<string, any>; // Threshold logic for each chat type
+    filters?: {
+      orgPhones: string[];
+      chatTypes: string[];
+      agents: string[];
+      labels: string[];
+      excludeLabels: string[];
+      properties: PropertyFilter[];
+    }; // Effective filter after validation and defaults
     filterApplied?: string;
   };
 }
\ No newline at end of file
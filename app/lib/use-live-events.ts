@@ -0,0 +1,71 @@
+// app/lib/use-live-events.ts
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { authFetch } from "./auth-client";
+import { readSse } from "./sse";
+import type { LiveChat, LiveMessage } from "./live-events";
+
+export type LiveStatus = "connecting" | "live" | "reconnecting" | "paused";
+
+// `resumed` is true when the stream reconnects after a drop or a pause, in
+// which case events may have been missed and views should refetch
+export type LiveClientEvent =
+  | { type: "ready"; resumed: boolean }
+  | { type: "message"; message: LiveMessage; chat: LiveChat | null }
+  | { type: "chat"; chat: LiveChat };
+
+const MAX_BACKOFF_MS = 30 * 1000;
+
+// Subscribe to /api/live for an account, reconnecting with exponential
+// backoff. The stream is read through fetch rather than EventSource so the
+// ID token can travel in the Authorization header.
+export function useLiveEvents(account: string, onEvent: (event: LiveClientEvent) => void) {
+  const [status, setStatus] = useState<LiveStatus>("connecting");
+  const [paused, setPaused] = useState(false);
+  const onEventRef = useRef(onEvent);
+  const connectedRef = useRef(false);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    if (paused) {
+      setStatus("paused");
+      return;
+    }
+
+    const controller = new AbortController();
+    const url = `/api/live${account ? `?account=${encodeURIComponent(account)}` : ""}`;
+
+    (async () => {
+      for (let attempt = 0; !controller.signal.aborted; attempt++) {
+        setStatus(connectedRef.current ? "reconnecting" : "connecting");
+        try {
+          const res = await authFetch(url, { signal: controller.signal });
+          if (!res.ok) throw new Error(`API ${res.status}`);
+
+          for await (const { event, data } of readSse<Record<string, unknown>>(res)) {
+            if (event === "ready") {
+              setStatus("live");
+              attempt = 0;
+              onEventRef.current({ type: "ready", resumed: connectedRef.current });
+              connectedRef.current = true;
+            } else if (event === "message" || event === "chat") {
+              onEventRef.current({ type: event, ...data } as LiveClientEvent);
+            }
+          }
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.error("[live] stream failed:", error);
+        }
+
+        const delay = Math.min(MAX_BACKOFF_MS, 1000 * 2 ** attempt);
+        setStatus("reconnecting");
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    })();
+
+    return () => controller.abort();
+  }, [account, paused]);
+
+  return { status, paused, setPaused };
+}
@@ -1,57 +1,155 @@
 // app/lib/utils.ts
+import {
+  DEFAULT_TIMEZONE,
+  endOfZonedDay,
+  getZonedParts,
+  parseZonedDate,
+  startOfZonedDay,
+  zonedTimeToDate,
+} from "./timezone";
+import {
+  businessTimeBetween,
+  defaultBusinessCalendar,
+  type ResolvedCalendar,
+} from "./business-calendar";
+import { pairRepliesByChat, summarizeReplyPairs } from "./reply-times";
+
+// The startTime/endTime query params as dates. Each defaults to `fallback`
+// when one is given and is required otherwise. Unparseable values, and an end
+// that is not after the start, are pushed onto `errors`.
+export function parseTimeRangeParams(
+  params: URLSearchParams,
+  errors: string[],
+  fallback?: { startDate: Date; endDate: Date }
+): { start: Date; end: Date } {
+  const read = (name: string, fallbackDate?: Date) => {
+    const value = params.get(name);
+    if (!value) {
+      if (!fallbackDate) errors.push(`${name} is required`);
+      return fallbackDate ?? new Date(NaN);
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) errors.push(`${name} "${value}" is not a valid date`);
+    return date;
+  };
+
+  const start = read("startTime", fallback?.startDate);
+  const end = read("endTime", fallback?.endDate);
+  if (!isNaN(start.getTime()) && !isNaN(end.getTime()) && end <= start) {
+    errors.push("endTime must be after startTime");
+  }
+  return { start, end };
+}
 
-// Get date range for different time periods
-export function getDateRange(period: string): {
+// A shallow copy of `value` without `key`
+export function withoutKey<T extends object, K extends keyof T>(value: T, key: K): Omit<T, K> {
+  const copy: Partial<T> = { ...value };
+  delete copy[key];
+  return copy as Omit<T, K>;
+}
+
+export type JsonFieldType = "string" | "strings" | "object" | "list";
+
+const JSON_FIELD_TYPES: Record<JsonFieldType, string> = {
+  string: "a string",
+  strings: "a list of strings",
+  object: "an object",
+  list: "a list",
+};
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Problems with the JSON types of a request body's fields, checked before the
+// body is trimmed and defaulted so a wrong type is a 400 rather than a
+// TypeError. Missing and null fields are left to the defaults. The items of a
+// "list" are for the caller to check.
+export function checkJsonFields(
+  input: unknown,
+  label: string,
+  fields: Record<string, JsonFieldType>
+): string[] {
+  if (!isJsonObject(input)) return [`${label} must be an object`];
+
+  const problems: string[] = [];
+  Object.entries(fields).forEach(([field, type]) => {
+    const value = input[field];
+    if (value === undefined || value === null) return;
+    const ok =
+      type === "string"
+        ? typeof value === "string"
+        : type === "object"
+          ? isJsonObject(value)
+          : Array.isArray(value) &&
+            (type === "list" || value.every((item) => typeof item === "string"));
+    if (!ok) problems.push(`${label}: ${field} must be ${JSON_FIELD_TYPES[type]}`);
+  });
+  return problems;
+}
+
+// Get date range for different time periods. Day boundaries are taken in
+// `timeZone`, not in whatever zone the browser or server runs in.
+export function getDateRange(
+  period: string,
+  timeZone: string = DEFAULT_TIMEZONE
+): {
   startDate: Date;
   endDate: Date;
 } {
   const now = new Date();
-  let endDate = new Date(now);
-  let startDate = new Date(now);
+  let endDate = endOfZonedDay(now, timeZone);
+  let startDate: Date;
 
   switch (period) {
     case "today":
-      startDate.setHours(0, 0, 0, 0);
-      endDate.setHours(23, 59, 59, 999);
+      startDate = startOfZonedDay(now, timeZone);
       break;
     case "yesterday":
-      startDate.setDate(now.getDate() - 1);
-      startDate.setHours(0, 0, 0, 0);
-      endDate.setDate(now.getDate() - 1);
-      endDate.setHours(23, 59, 59, 999);
+      startDate = startOfZonedDay(now, timeZone, -1);
+      endDate = endOfZonedDay(now, timeZone, -1);
       break;
     case "last7days":
-      startDate.setDate(now.getDate() - 6); // Last 7 days including today
-      startDate.setHours(0, 0, 0, 0);
-      endDate.setHours(23, 59, 59, 999);
+      startDate = startOfZonedDay(now, timeZone, -6); // Last 7 days including today
       break;
     case "lastMonth":
-      startDate.setDate(now.getDate() - 29); // Last 30 days including today
-      startDate.setHours(0, 0, 0, 0);
-      endDate.setHours(23, 59, 59, 999);
+      startDate = startOfZonedDay(now, timeZone, -29); // Last 30 days including today
       break;
     case "last3months":
-      startDate.setDate(now.getDate() - 89); // Last 90 days including today
-      startDate.setHours(0, 0, 0, 0);
-      endDate.setHours(23, 59, 59, 999);
+      startDate = startOfZonedDay(now, timeZone, -89); // Last 90 days including today
       break;
-    case "thisMonth":
-      startDate = new Date(now.getFullYear(), now.getMonth(), 1);
+    case "thisMonth": {
+      const { year, month } = getZonedParts(now, timeZone);
+      startDate = zonedTimeToDate(timeZone, year, month, 1);
+      endDate = now;
       break;
-    case "lastCalendarMonth":
-      startDate = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-      endDate = new Date(now.getFullYear(), now.getMonth(), 0, 23, 59, 59, 999);
+    }
+    case "lastCalendarMonth": {
+      const { year, month } = getZonedParts(now, timeZone);
+      startDate = zonedTimeToDate(timeZone, year, month - 1, 1);
+      endDate = new Date(zonedTimeToDate(timeZone, year, month, 1).getTime() - 1);
       break;
+    }
     default:
       // Default to last 7 days
-      startDate.setDate(now.getDate() - 6);
-      startDate.setHours(0, 0, 0, 0);
-      endDate.setHours(23, 59, 59, 999);
+      startDate = startOfZonedDay(now, timeZone, -6);
   }
 
   return { startDate, endDate };
 }
 
+// Whole days between two "YYYY-MM-DD" values (inclusive) in `timeZone`
+export function getCustomDateRange(
+  startDateISO: string,
+  endDateISO: string,
+  timeZone: string = DEFAULT_TIMEZONE
+): { startDate: Date; endDate: Date } {
+  return {
+    startDate: parseZonedDate(startDateISO, timeZone),
+    endDate: endOfZonedDay(parseZonedDate(endDateISO, timeZone), timeZone),
+  };
+}
+
 // Format date for API requests
 export function formatDateForAPI(date: Date): string {
   return date.toISOString();
@@ -75,8 +173,11 @@ export function getColorIntensity(value: number, maxValue: number): string {
   return `rgba(${r}, ${g}, ${b}, ${a})`;
 }
 
-// Group messages by day of week and hour
-export function groupMessagesByDayAndHour(messages: any[]) {
+// Group messages by day of week and hour, as seen in `timeZone`
+export function groupMessagesByDayAndHour(
+  messages: any[],
+  timeZone: string = DEFAULT_TIMEZONE
+) {
   const dayHourMap: Record<string, Record<string, number>> = {};
   const days = [
     "Monday",
@@ -99,13 +200,13 @@ export function groupMessagesByDayAndHour(messages: any[]) {
   // Count messages
   messages.forEach((message) => {
     if (message.timestamp) {
-      const date = new Date(message.timestamp);
+      const zoned = getZonedParts(new Date(message.timestamp), timeZone);
       // Adjust day index (0 = Sunday in JS, but we want 0 = Monday)
-      let dayIndex = date.getDay() - 1;
+      let dayIndex = zoned.weekday - 1;
       if (dayIndex < 0) dayIndex = 6; // Sunday becomes 6
 
       const day = days[dayIndex];
-      const hour = date.getHours().toString();
+      const hour = zoned.hour.toString();
 
       if (dayHourMap[day] && dayHourMap[day][hour] !== undefined) {
         dayHourMap[day][hour]++;
@@ -198,6 +299,16 @@ function formatHour(hour: number): string {
   return `${hour12}:00 ${period}`;
 }
 
+// Compact duration for reply-time stats, e.g. "45s", "12m", "3.5h", "2d 4h"
+export function formatDuration(ms: number): string {
+  const minutes = ms / 60000;
+  if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  const hours = minutes / 60;
+  if (hours < 24) return `${Math.round(hours * 10) / 10}h`;
+  return `${Math.floor(hours / 24)}d ${Math.floor(hours % 24)}h`;
+}
+
 // Calculate average messages per day in the date range
 export function calculateAveragePerDay(
   messages: any[],
@@ -215,72 +326,30 @@ export function calculateAveragePerDay(
   return Math.round(messages.length / daysDiff);
 }
 
-export function businessHoursDifference(start: Date, end: Date): number {
-  let total = 0;
-  const oneDay = 24 * 60 * 60 * 1000;
-
-  // clone date at midnight
-  let day = new Date(start);
-  day.setHours(0, 0, 0, 0);
-
-  while (day < end) {
-    const isWeekday = day.getDay() >= 1 && day.getDay() <= 5;
-    if (isWeekday) {
-      const bhStart = new Date(day);
-      bhStart.setHours(9, 0, 0, 0);
-      const bhEnd = new Date(day);
-      bhEnd.setHours(17, 0, 0, 0);
-
-      const sliceStart = start > bhStart ? start : bhStart;
-      const sliceEnd = end < bhEnd ? end : bhEnd;
-      if (sliceEnd > sliceStart) {
-        total += sliceEnd.getTime() - sliceStart.getTime();
-      }
-    }
-    day = new Date(day.getTime() + oneDay);
-  }
-  return total;
+// Time between two instants that falls inside the calendar's working hours
+// (Mon–Fri 9:00–17:00 in the org timezone unless a calendar is given)
+export function businessHoursDifference(
+  start: Date,
+  end: Date,
+  calendar: ResolvedCalendar = defaultBusinessCalendar()
+): number {
+  return businessTimeBetween(start, end, calendar);
 }
 
 /**
- * Given a mixed list of messages, pairs each customer→next agent reply,
- * returns average absolute and business‑hours delay in ms.
+ * Average absolute and business‑hours reply delay in ms, pairing customer
+ * waits with agent replies inside each chat (see reply-times.ts). Business
+ * hours follow `calendar`.
  */
-export function computeAverageReplyDelay(messages: any[]): {
+export function computeAverageReplyDelay(
+  messages: any[],
+  calendar: ResolvedCalendar = defaultBusinessCalendar()
+): {
   avgAbsoluteMs: number;
   avgBusinessMs: number;
 } {
-  // sort by timestamp ascending
-  const sorted = [...messages].sort(
-    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  const { avgAbsoluteMs, avgBusinessMs } = summarizeReplyPairs(
+    pairRepliesByChat(messages, calendar)
   );
-
-  const deltasAbs: number[] = [];
-  const deltasBiz: number[] = [];
-
-  let lastCustomer: any | null = null;
-  for (const msg of sorted) {
-    if (!msg.from_me) {
-      // customer
-      lastCustomer = msg;
-    } else if (msg.from_me && lastCustomer) {
-      // agent reply
-      const custTime = new Date(lastCustomer.timestamp);
-      const agentTime = new Date(msg.timestamp);
-      if (agentTime > custTime) {
-        const absDelta = agentTime.getTime() - custTime.getTime();
-        deltasAbs.push(absDelta);
-        deltasBiz.push(businessHoursDifference(custTime, agentTime));
-      }
-      lastCustomer = null;
-    }
-  }
-
-  const avg = (arr: number[]) =>
-    arr.length === 0 ? 0 : arr.reduce((s, v) => s + v, 0) / arr.length;
-
-  return {
-    avgAbsoluteMs: avg(deltasAbs),
-    avgBusinessMs: avg(deltasBiz),
-  };
-}
\ No newline at end of file
+  return { avgAbsoluteMs, avgBusinessMs };
+}
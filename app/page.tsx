@@ -2,22 +2,55 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import Link from "next/link";
 import TimeFilter from "./components/time-filter";
 import DateRangePicker from "./components/date-range-picker";
 import HeatMap from "./components/heatmap";
 import ChatAnalytics from "./components/chat-analytics";
+import ReplyTimeDistribution from "./components/reply-time-distribution";
+import NumberBreakdown from "./components/number-breakdown";
+import VolumeTrend from "./components/volume-trend";
+import ExportButtons from "./components/export-buttons";
+import LiveIndicator from "./components/live-indicator";
+import PropertyFilters from "./components/property-filters";
+import PropertyBreakdown from "./components/property-breakdown";
 
 import {
   getDateRange,
+  getCustomDateRange,
   formatDateForAPI,
-  groupMessagesByDayAndHour,
-  calculateAveragePerDay,
-  getPeakHour,
-  getMostActiveDay,
-  formatHourRange,
-  computeAverageReplyDelay,
+  formatDuration,
 } from "./lib/utils";
-import type { Message } from "./lib/types/periskope";
+import {
+  COMMON_TIMEZONES,
+  DEFAULT_TIMEZONE,
+  formatInTimeZone,
+  formatZonedDate,
+  isValidTimeZone,
+} from "./lib/timezone";
+import type { HeatmapView, MessageSummary } from "./lib/message-aggregates";
+import type { DataFreshness } from "./lib/message-sync";
+import type { CompletenessReport, LoadProgress } from "./lib/message-loader";
+import type { AggregateStreamEvent } from "./lib/types/messages-api";
+import { readNdjson } from "./lib/ndjson";
+import {
+  DEFAULT_AGENT_ROSTER,
+  TEAM_SELECTION_PREFIX,
+  isAgentActive,
+  rosterTeams,
+  selectRosterAgents,
+  type AgentRoster,
+} from "./lib/agent-roster";
+import { authDownload, authFetch } from "./lib/auth-client";
+import type { ExportFormat } from "./lib/export";
+import { useSession } from "./components/auth-gate";
+import type { PublicAccount } from "./lib/periskope-accounts";
+import { useLiveEvents } from "./lib/use-live-events";
+import {
+  appendPropertyFilters,
+  type PropertyFacet,
+  type PropertyFilter,
+} from "./lib/custom-properties";
 
 const timePeriodLabels: Record<string, string> = {
   today: "Today",
@@ -27,15 +60,6 @@ const timePeriodLabels: Record<string, string> = {
   custom: "Custom Range",
 };
 
-const agents = [
-  { label: "All Agents", value: "" },
-  { label: "+91 85270 33886", value: "918527033886@c.us" },
-  { label: "+91 73034 61744", value: "917303461744@c.us" },
-  { label: "+91 85274 39222", value: "918527439222@c.us" },
-  { label: "+91 85270 14950", value: "918527014950@c.us" },
-];
-
-type HeatmapView = "all" | "agent" | "customer";
 const viewLabels: Record<HeatmapView, string> = {
   all: "All Messages",
   agent: "Agent Sent",
@@ -44,7 +68,11 @@ const viewLabels: Record<HeatmapView, string> = {
 
 type TabType = "messages" | "chats";
 
+const TIMEZONE_STORAGE_KEY = "dashboard.timeZone";
+const ACCOUNT_STORAGE_KEY = "dashboard.account";
+
 export default function HomePage() {
+  const session = useSession();
   // CHANGED: Set "chats" as the default tab instead of "messages"
   const [activeTab, setActiveTab] = useState<TabType>("chats");
   const [timeFilter, setTimeFilter] =
@@ -52,23 +80,117 @@ export default function HomePage() {
   const [startDateISO, setStartDateISO] = useState("");
   const [endDateISO, setEndDateISO] = useState("");
   const [orgPhone, setOrgPhone] = useState("");
+  // Roster agent id or "team:<name>" (see selectRosterAgents)
   const [agent, setAgent] = useState("");
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [heatAll, setHeatAll] = useState<any>({});
-  const [heatAgent, setHeatAgent] = useState<any>({});
-  const [heatCustomer, setHeatCustomer] = useState<any>({});
+  const [roster, setRoster] = useState<AgentRoster>(DEFAULT_AGENT_ROSTER);
+  // Agents and leads can only filter on numbers within their scope
+  const visibleRoster: AgentRoster = session?.scope
+    ? {
+        agents: roster.agents.filter((a) =>
+          a.whatsappIds.some((id) => session.scope!.whatsappIds.includes(id))
+        ),
+      }
+    : roster;
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIMEZONE);
+  // Periskope account id; "" until the account list has loaded
+  const [account, setAccount] = useState("");
+  // Custom property filters, shared by both tabs
+  const [propertyFilters, setPropertyFilters] = useState<PropertyFilter[]>([]);
+  const [propertyFacets, setPropertyFacets] = useState<PropertyFacet[]>([]);
+  const [accounts, setAccounts] = useState<PublicAccount[]>([]);
+  const [summary, setSummary] = useState<MessageSummary | null>(null);
+  const [freshness, setFreshness] = useState<DataFreshness | null>(null);
+  const [completeness, setCompleteness] = useState<CompletenessReport | null>(null);
+  const [progress, setProgress] = useState<
+    (LoadProgress & { chunkDone: boolean }) | null
+  >(null);
   const [heatmapView, setHeatmapView] = useState<HeatmapView>("all");
   const [loading, setLoading] = useState(true);
   const [currentFetchId, setCurrentFetchId] = useState<string>("");
   const [abortController, setAbortController] = useState<AbortController | null>(null);
+  // Bumped by live events to refresh each tab in place
+  const [messagesRevision, setMessagesRevision] = useState(0);
+  const [chatsRevision, setChatsRevision] = useState(0);
+
+  // Any chat or message change refreshes Chat Analytics; only messages
+  // inside the selected range and org phones refresh the message summary.
+  // After a reconnect both refresh, as events may have been missed.
+  const live = useLiveEvents(account, (event) => {
+    if (event.type === "ready") {
+      if (event.resumed) {
+        setChatsRevision((r) => r + 1);
+        setMessagesRevision((r) => r + 1);
+      }
+      return;
+    }
+    setChatsRevision((r) => r + 1);
+    if (event.type !== "message") return;
+
+    const orgPhones = orgPhone.split(",").map((p) => p.trim()).filter(Boolean);
+    if (orgPhones.length && !orgPhones.includes(event.message.orgPhone ?? "")) return;
+    const { startDate, endDate } =
+      timeFilter === "custom"
+        ? getCustomDateRange(startDateISO, endDateISO, timeZone)
+        : getDateRange(timeFilter, timeZone);
+    const time = new Date(event.message.timestamp).getTime();
+    if (time >= startDate.getTime() && time <= endDate.getTime()) {
+      setMessagesRevision((r) => r + 1);
+    }
+  });
+
+  // restore the saved timezone
+  useEffect(() => {
+    const saved = localStorage.getItem(TIMEZONE_STORAGE_KEY);
+    if (saved && isValidTimeZone(saved)) setTimeZone(saved);
+  }, []);
+
+  useEffect(() => {
+    authFetch("/api/roster")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data?.roster && setRoster(data.roster))
+      .catch((error) => console.error("Error fetching agent roster:", error));
+  }, []);
 
-  // initialize last 7 days
+  // restore the saved account if it still exists
   useEffect(() => {
-    const { startDate, endDate } = getDateRange("last7days");
-    setStartDateISO(startDate.toISOString().slice(0, 10));
-    setEndDateISO(endDate.toISOString().slice(0, 10));
+    authFetch("/api/accounts")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!data) return;
+        const saved = localStorage.getItem(ACCOUNT_STORAGE_KEY);
+        setAccounts(data.accounts);
+        setAccount(
+          data.accounts.some((a: PublicAccount) => a.id === saved)
+            ? saved
+            : data.defaultAccountId
+        );
+      })
+      .catch((error) => console.error("Error fetching accounts:", error));
   }, []);
 
+  // Properties differ per account, so their filters do too
+  useEffect(() => {
+    if (!account) return;
+    setPropertyFilters([]);
+    authFetch(`/api/chat-analytics/properties?account=${encodeURIComponent(account)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setPropertyFacets(data?.facets ?? []))
+      .catch((error) => console.error("Error fetching custom properties:", error));
+  }, [account]);
+
+  const changeTimeZone = (value: string) => {
+    setTimeZone(value);
+    localStorage.setItem(TIMEZONE_STORAGE_KEY, value);
+  };
+
+  // Switching account also switches to that account's default timezone
+  const changeAccount = (value: string) => {
+    setAccount(value);
+    localStorage.setItem(ACCOUNT_STORAGE_KEY, value);
+    const accountTimeZone = accounts.find((a) => a.id === value)?.timeZone;
+    if (accountTimeZone) changeTimeZone(accountTimeZone);
+  };
+
   // re-fetch on any filter change (only for messages tab) with debouncing
   useEffect(() => {
     if (activeTab !== "messages") {
@@ -90,18 +212,54 @@ export default function HomePage() {
     return () => {
       clearTimeout(timeoutId);
     };
-  }, [timeFilter, startDateISO, endDateISO, agent, activeTab]);
+  }, [timeFilter, startDateISO, endDateISO, agent, roster, timeZone, account, orgPhone, propertyFilters, activeTab]);
 
-  // Update date inputs when time filter changes with debouncing
+  // Refresh the summary in place after live messages; a burst refreshes once
+  useEffect(() => {
+    if (messagesRevision === 0 || activeTab !== "messages") return;
+    const timeoutId = setTimeout(() => fetchMessages(false, true), 2000);
+    return () => clearTimeout(timeoutId);
+  }, [messagesRevision]);
+
+  // Update date inputs when time filter or timezone changes
   useEffect(() => {
     if (timeFilter !== "custom") {
-      const { startDate, endDate } = getDateRange(timeFilter);
-      setStartDateISO(startDate.toISOString().slice(0, 10));
-      setEndDateISO(endDate.toISOString().slice(0, 10));
+      const { startDate, endDate } = getDateRange(timeFilter, timeZone);
+      setStartDateISO(formatZonedDate(startDate, timeZone));
+      setEndDateISO(formatZonedDate(endDate, timeZone));
+    }
+  }, [timeFilter, timeZone]);
+
+  function selectedRange() {
+    return timeFilter === "custom"
+      ? getCustomDateRange(startDateISO, endDateISO, timeZone)
+      : getDateRange(timeFilter, timeZone);
+  }
+
+  // Raw messages of the selected range, with the same filters as the summary
+  function exportMessages(format: ExportFormat) {
+    const { startDate, endDate } = selectedRange();
+    const params = new URLSearchParams({
+      startTime: formatDateForAPI(startDate),
+      endTime: formatDateForAPI(endDate),
+      tz: timeZone,
+      format,
+    });
+    if (agent) {
+      const agentIds = selectRosterAgents(roster, agent).flatMap((a) => a.whatsappIds);
+      params.append("agent", agentIds.join(","));
     }
-  }, [timeFilter]);
+    if (orgPhone.trim()) params.append("orgPhone", orgPhone.trim());
+    if (account) params.append("account", account);
+    appendPropertyFilters(params, propertyFilters);
 
-  async function fetchMessages() {
+    return authDownload(`/api/messages/export?${params.toString()}`, `messages.${format}`);
+  }
+
+  // retry=true re-requests the range so only the failed or truncated gaps
+  // are fetched again, in smaller chunks. silent=true keeps the current
+  // numbers on screen and swaps in the final result (live refreshes).
+  async function fetchMessages(retry = false, silent = false) {
     // Cancel any existing request
     if (abortController) {
       console.log("[HomePage] Aborting previous fetch request");
@@ -113,29 +271,22 @@ export default function HomePage() {
     setAbortController(newAbortController);
 
     // Generate unique ID for this fetch request
-    const fetchId = `${timeFilter}-${startDateISO}-${endDateISO}-${agent}-${Date.now()}`;
+    const fetchId = `${timeFilter}-${startDateISO}-${endDateISO}-${agent}-${timeZone}-${account}-${Date.now()}`;
     
     console.log(`[HomePage] Starting SINGLE fetch ${fetchId}`);
     
     setCurrentFetchId(fetchId);
-    setLoading(true);
-    
-    // Clear existing data immediately when starting new fetch
-    setMessages([]);
-    setHeatAll({});
-    setHeatAgent({});
-    setHeatCustomer({});
+    if (!silent) {
+      setLoading(true);
+
+      // Clear existing data immediately when starting new fetch
+      setSummary(null);
+      setProgress(null);
+      setCompleteness(null);
+    }
     
     try {
-      let s: Date, e: Date;
-      if (timeFilter === "custom") {
-        s = new Date(startDateISO);
-        e = new Date(endDateISO);
-        s.setHours(0, 0, 0, 0);
-        e.setHours(23, 59, 59, 999);
-      } else {
-        ({ startDate: s, endDate: e } = getDateRange(timeFilter));
-      }
+      const { startDate: s, endDate: e } = selectedRange();
 
       const sISO = formatDateForAPI(s);
       const eISO = formatDateForAPI(e);
@@ -144,36 +295,49 @@ export default function HomePage() {
       const daysDiff = Math.ceil((e.getTime() - s.getTime()) / (1000 * 60 * 60 * 24));
       const limit = Math.max(10000, daysDiff * 500); // Dynamic limit based on time range
       
-      let url = `/api/messages?startTime=${encodeURIComponent(
+      // Aggregated on the server; the agent filter is applied there too, as
+      // the WhatsApp numbers of the selected agent or team. Several org
+      // phones are merged into combined totals plus a per-number breakdown.
+      const agentIds = selectRosterAgents(roster, agent).flatMap((a) => a.whatsappIds);
+      const propertyParams = new URLSearchParams();
+      appendPropertyFilters(propertyParams, propertyFilters);
+      let url = `/api/messages/summary?startTime=${encodeURIComponent(
         sISO
-      )}&endTime=${encodeURIComponent(eISO)}&limit=${limit}`;
+      )}&endTime=${encodeURIComponent(eISO)}&limit=${limit}&include=heatmap,numbers,volume,properties&stream=1&tz=${encodeURIComponent(timeZone)}${
+        agent ? `&agent=${encodeURIComponent(agentIds.join(","))}` : ""
+      }${orgPhone.trim() ? `&orgPhone=${encodeURIComponent(orgPhone.trim())}` : ""}${account ? `&account=${encodeURIComponent(account)}` : ""}${retry ? "&retry=1" : ""}${propertyFilters.length ? `&${propertyParams.toString()}` : ""}`;
 
-      console.log(`[HomePage] Fetch ${fetchId} making SINGLE API call for ${daysDiff} days`);
+      console.log(`[HomePage] Fetch ${fetchId} streaming API call for ${daysDiff} days`);
 
-      const res = await fetch(url, {
+      const res = await authFetch(url, {
         signal: newAbortController.signal // Add abort signal
       });
       
       if (!res.ok) throw new Error(`API ${res.status}: ${res.statusText}`);
-      const data = await res.json();
-      
-      // Check if request was aborted
-      if (newAbortController.signal.aborted) {
-        console.log(`[HomePage] Fetch ${fetchId} was aborted`);
-        return;
-      }
-      
-      console.log(`[HomePage] Fetch ${fetchId} API response received`);
-      
-      const raw: Message[] = Array.isArray(data.messages) ? data.messages : [];
-      console.log(`[HomePage] Fetch ${fetchId} completed: ${raw.length} total messages`);
-
-      // Apply agent filter
-      const filtered = agent
-        ? raw.filter((m) => m.sender_phone === agent)
-        : raw;
 
-      console.log(`[HomePage] Fetch ${fetchId} after agent filter: ${filtered.length} messages`);
+      for await (const event of readNdjson<AggregateStreamEvent<MessageSummary>>(res)) {
+        // Check if request was aborted before touching state
+        if (newAbortController.signal.aborted) {
+          console.log(`[HomePage] Fetch ${fetchId} was aborted`);
+          return;
+        }
+
+        if (silent && (event.type === "progress" || event.type === "partial")) {
+          continue;
+        } else if (event.type === "progress") {
+          setProgress({ ...event, chunkDone: false });
+        } else if (event.type === "partial") {
+          setSummary(event.data);
+          setProgress((prev) => (prev ? { ...prev, chunkDone: true } : prev));
+        } else if (event.type === "done") {
+          console.log(`[HomePage] Fetch ${fetchId} completed: ${event.total} messages after agent filter`);
+          setSummary(event.data);
+          setFreshness(event.freshness);
+          setCompleteness(event.completeness);
+        } else if (event.type === "error") {
+          throw new Error(event.details || event.error);
+        }
+      }
 
       // Check one more time if request was aborted before updating state
       if (newAbortController.signal.aborted) {
@@ -181,14 +345,9 @@ export default function HomePage() {
         return;
       }
 
-      // Update state and clear loading
-      setMessages(filtered);
-      setHeatAll(groupMessagesByDayAndHour(filtered));
-      setHeatAgent(groupMessagesByDayAndHour(filtered.filter((m) => m.from_me)));
-      setHeatCustomer(groupMessagesByDayAndHour(filtered.filter((m) => !m.from_me)));
-      
       console.log(`[HomePage] Fetch ${fetchId} state updated, setting loading to false`);
       setLoading(false);
+      setProgress(null);
       
       // Clear the abort controller since request completed successfully
       setAbortController(null);
@@ -201,43 +360,76 @@ export default function HomePage() {
       }
       
       console.error(`[HomePage] Fetch ${fetchId} error:`, error);
-      setMessages([]);
-      setHeatAll({});
-      setHeatAgent({});
-      setHeatCustomer({});
+      // A failed live refresh keeps what is on screen
+      if (silent) {
+        setAbortController(null);
+        return;
+      }
+      setSummary(null);
+      setFreshness(null);
+      setCompleteness(null);
       setLoading(false);
+      setProgress(null);
       setAbortController(null);
       console.log(`[HomePage] Fetch ${fetchId} error handled, loading set to false`);
     }
   }
 
-  // compute stats for messages tab - only when data is loaded and not loading
-  const shouldShowStats = !loading && messages.length >= 0;
-  const totalCount = shouldShowStats ? messages.length : 0;
-  const agentCount = shouldShowStats ? messages.filter((m) => m.from_me).length : 0;
-  const customerCount = shouldShowStats ? messages.filter((m) => !m.from_me).length : 0;
-  const { avgAbsoluteMs, avgBusinessMs } = shouldShowStats ? computeAverageReplyDelay(messages) : { avgAbsoluteMs: 0, avgBusinessMs: 0 };
-  const { startDate, endDate } =
-    timeFilter === "custom"
-      ? { startDate: new Date(startDateISO), endDate: new Date(endDateISO) }
-      : getDateRange(timeFilter);
-  const avgPerDay = shouldShowStats ? calculateAveragePerDay(messages, { startDate, endDate }) : 0;
-
-  const currentHeat = shouldShowStats 
-    ? (heatmapView === "agent"
-        ? heatAgent
-        : heatmapView === "customer"
-        ? heatCustomer
-        : heatAll)
-    : {};
-  const { hour: peakHour } = shouldShowStats ? getPeakHour(currentHeat) : { hour: "0" };
-  const peakRange = shouldShowStats ? formatHourRange(peakHour) : "--";
-  const { day: peakDay } = shouldShowStats ? getMostActiveDay(currentHeat) : { day: "--" };
+  // compute stats for messages tab - partial results render while chunks stream in
+  const hasSummary = summary !== null && summary.totalCount > 0;
+  const shouldShowStats = !loading || hasSummary;
+  const totalCount = summary?.totalCount ?? 0;
+  const agentCount = summary?.agentCount ?? 0;
+  const customerCount = summary?.customerCount ?? 0;
+  const avgAbsoluteMs = summary?.replyDelay.avgAbsoluteMs ?? 0;
+  const medianReplyMs = summary?.replyDistribution.absolute.median ?? 0;
+  const p90ReplyMs = summary?.replyDistribution.absolute.p90 ?? 0;
+  const avgPerDay = summary?.averagePerDay ?? 0;
+
+  const currentHeat = summary?.heatmaps?.[heatmapView] ?? {};
+  const peakRange = summary?.peaks[heatmapView].hourRange ?? "--";
+  const peakDay = summary?.peaks[heatmapView].day ?? "--";
 
   const renderMessagesTab = () => (
     <div className="space-y-8">
+      {/* incomplete data banner */}
+      {!loading && completeness && !completeness.complete && (
+        <div className="rounded-lg border border-yellow-300 bg-yellow-50 p-4 dark:border-yellow-700 dark:bg-yellow-900/20">
+          <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+            <div className="space-y-1">
+              <h3 className="font-semibold text-yellow-800 dark:text-yellow-200">
+                ⚠️ Incomplete data
+              </h3>
+              <p className="text-sm text-yellow-700 dark:text-yellow-300">
+                Totals below may be undercounted. {completeness.failedIntervals.length} interval(s)
+                failed and {completeness.truncatedIntervals.length} were truncated
+                ({completeness.pagesFetched} pages fetched, {completeness.retries} retries).
+              </p>
+              <ul className="text-xs text-yellow-700 dark:text-yellow-300 list-disc pl-5">
+                {completeness.failedIntervals.map((gap) => (
+                  <li key={`failed-${gap.start}`}>
+                    Failed: {formatInTimeZone(gap.start, timeZone)} → {formatInTimeZone(gap.end, timeZone)} ({gap.error}{gap.attempts ? `, ${gap.attempts} attempts` : ""})
+                  </li>
+                ))}
+                {completeness.truncatedIntervals.map((gap) => (
+                  <li key={`truncated-${gap.start}`}>
+                    Truncated: {formatInTimeZone(gap.start, timeZone)} → {formatInTimeZone(gap.end, timeZone)} (page limit reached after {gap.pagesFetched} pages)
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <button
+              onClick={() => fetchMessages(true)}
+              className="shrink-0 px-4 py-2 bg-yellow-600 text-white rounded-lg text-sm font-medium hover:bg-yellow-700 transition-colors"
+            >
+              Retry missing intervals
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* stats grid */}
-      {loading ? (
+      {loading && !hasSummary ? (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4 animate-pulse">
           {Array.from({ length: 6 }).map((_, i) => (
             <div
@@ -274,9 +466,9 @@ export default function HomePage() {
               {agentCount.toLocaleString()}
             </p>
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-              {agent
-                ? agents.find((a) => a.value === agent)?.label
-                : "All Agents"}
+              {agent.startsWith(TEAM_SELECTION_PREFIX)
+                ? `Team ${agent.slice(TEAM_SELECTION_PREFIX.length)}`
+                : roster.agents.find((a) => a.id === agent)?.name ?? "All Agents"}
             </p>
           </div>
 
@@ -319,43 +511,59 @@ export default function HomePage() {
             </p>
           </div>
           
-          {/* Avg Reply Delay */}
+          {/* Median Reply Delay - the mean is skewed by a few overnight waits */}
           <div className="bg-white dark:bg-gray-800 rounded-xl shadow p-6 text-center">
             <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400">
-              Avg Reply Delay
+              Median Reply Delay
             </h3>
             <p className="mt-2 text-2xl font-bold text-gray-900 dark:text-gray-100">
-              {Math.round(avgAbsoluteMs / 60000)} min
+              {formatDuration(medianReplyMs)}
             </p>
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-              Response time
+              avg {formatDuration(avgAbsoluteMs)} • P90 {formatDuration(p90ReplyMs)}
             </p>
           </div>
         </div>
       ) : null}
 
-      {/* heatmap view toggle - only show when data is loaded */}
+      {/* data freshness */}
+      {shouldShowStats && freshness && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {freshness.source === "store"
+            ? `Served from local ${freshness.store} store`
+            : "Fetched live from Periskope"}
+          {freshness.lastSyncedAt &&
+            ` • last synced ${formatInTimeZone(freshness.lastSyncedAt, timeZone)}`}
+          {freshness.source === "store" &&
+            ` • ${freshness.fetchedWindows.length} new window(s) fetched`}
+        </p>
+      )}
+
+      {/* heatmap view toggle and raw export - only show when data is loaded */}
       {shouldShowStats && (
-        <div className="flex space-x-2">
-          {(["all", "agent", "customer"] as HeatmapView[]).map((v) => (
-            <button
-              key={v}
-              onClick={() => setHeatmapView(v)}
-              className={`px-4 py-2 rounded-full text-sm font-medium ${
-                heatmapView === v
-                  ? "bg-blue-500 text-white"
-                  : "bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200"
-              }`}
-            >
-              {viewLabels[v]}
-            </button>
-          ))}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex space-x-2">
+            {(["all", "agent", "customer"] as HeatmapView[]).map((v) => (
+              <button
+                key={v}
+                onClick={() => setHeatmapView(v)}
+                className={`px-4 py-2 rounded-full text-sm font-medium ${
+                  heatmapView === v
+                    ? "bg-blue-500 text-white"
+                    : "bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200"
+                }`}
+              >
+                {viewLabels[v]}
+              </button>
+            ))}
+          </div>
+          <ExportButtons onExport={exportMessages} disabled={loading} />
         </div>
       )}
 
       {/* heatmap */}
       <div className="rounded-xl bg-white p-6 shadow dark:bg-gray-800">
-        {loading ? (
+        {loading && !hasSummary ? (
           <div className="animate-pulse space-y-4">
             <div className="h-6 w-1/3 bg-gray-200 dark:bg-gray-700 rounded" />
             <div className="h-64 w-full bg-gray-200 dark:bg-gray-700 rounded" />
@@ -363,7 +571,7 @@ export default function HomePage() {
         ) : shouldShowStats ? (
           <HeatMap
             data={currentHeat}
-            title={`Message Volume by Day & Hour (${timePeriodLabels[timeFilter]} – ${viewLabels[heatmapView]})`}
+            title={`Message Volume by Day & Hour (${timePeriodLabels[timeFilter]} – ${viewLabels[heatmapView]})${loading ? " – partial" : ""}`}
           />
         ) : (
           <div className="h-64 flex items-center justify-center">
@@ -373,12 +581,69 @@ export default function HomePage() {
           </div>
         )}
       </div>
+
+      {/* messages over time, split by direction */}
+      {summary?.volume && shouldShowStats && (
+        <div className="rounded-xl bg-white p-6 shadow dark:bg-gray-800">
+          <VolumeTrend
+            daily={summary.volume}
+            title={`Message Volume Over Time (${timePeriodLabels[timeFilter]})${loading ? " – partial" : ""}`}
+          />
+        </div>
+      )}
+
+      {/* per-number breakdown when more than one org phone is in view */}
+      {summary?.byNumber && summary.byNumber.length > 1 && shouldShowStats && (
+        <div className="rounded-xl bg-white p-6 shadow dark:bg-gray-800">
+          <NumberBreakdown
+            summary={summary}
+            numbers={summary.byNumber}
+            view={heatmapView}
+            viewLabel={viewLabels[heatmapView]}
+            roster={roster}
+          />
+        </div>
+      )}
+
+      {/* totals per custom property value */}
+      {summary?.byProperty && summary.byProperty.length > 0 && shouldShowStats && (
+        <div className="rounded-xl bg-white p-6 shadow dark:bg-gray-800">
+          <PropertyBreakdown
+            title="Messages by Property"
+            totals={summary.byProperty}
+            columns={[
+              { key: "totalCount", label: "Messages" },
+              { key: "agentCount", label: "Agent" },
+              { key: "customerCount", label: "Customer" },
+              { key: "chats", label: "Chats" },
+            ]}
+            note="Chats with messages in the range, by their custom property values"
+          />
+        </div>
+      )}
+
+      {/* reply time distribution */}
+      {summary && shouldShowStats && (
+        <div className="rounded-xl bg-white p-6 shadow dark:bg-gray-800">
+          <ReplyTimeDistribution
+            distribution={summary.replyDistribution}
+            businessCalendar={summary.businessCalendar}
+          />
+        </div>
+      )}
     </div>
   );
 
   const renderChatsTab = () => (
     <div className="space-y-8">
-      <ChatAnalytics orgPhone={orgPhone} />
+      <ChatAnalytics
+        orgPhone={orgPhone}
+        timeZone={timeZone}
+        roster={roster}
+        account={account}
+        properties={propertyFilters}
+        liveRevision={chatsRevision}
+      />
     </div>
   );
 
@@ -390,27 +655,86 @@ export default function HomePage() {
           <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">
             WhatsApp Analytics
           </h1>
-          <p className="mt-2 sm:mt-0 text-gray-600 dark:text-gray-400">
-            Comprehensive Message & Chat Analytics Dashboard
-          </p>
+          <div className="mt-2 sm:mt-0 text-right">
+            <p className="text-gray-600 dark:text-gray-400">
+              Comprehensive Message & Chat Analytics Dashboard
+            </p>
+            <div className="mt-1">
+              <LiveIndicator
+                status={live.status}
+                onToggle={() => live.setPaused(!live.paused)}
+              />
+            </div>
+            {session?.role === "admin" && (
+              <Link
+                href="/admin/roster"
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Manage agent roster
+              </Link>
+            )}
+          </div>
         </header>
 
         {/* filters */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {accounts.length > 1 && (
+            <div>
+              <label className="block mb-1 text-sm font-medium text-gray-700 dark:text-gray-300">
+                Account
+              </label>
+              <select
+                className="w-full border rounded p-2 bg-white text-gray-900 dark:bg-gray-800 dark:text-gray-100 focus:ring-2 focus:ring-blue-500"
+                value={account}
+                onChange={(e) => changeAccount(e.target.value)}
+              >
+                {accounts.map((a) => (
+                  <option
+                    key={a.id}
+                    value={a.id}
+                    className="bg-white text-gray-900 dark:bg-gray-800 dark:text-gray-100"
+                  >
+                    {a.hasApiKey ? a.label : `${a.label} (no API key)`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div>
             <label className="block mb-1 text-sm font-medium text-gray-700 dark:text-gray-300">
-              Org Phone (Chat Analytics Only)
+              Timezone
+            </label>
+            <select
+              className="w-full border rounded p-2 bg-white text-gray-900 dark:bg-gray-800 dark:text-gray-100 focus:ring-2 focus:ring-blue-500"
+              value={timeZone}
+              onChange={(e) => changeTimeZone(e.target.value)}
+            >
+              {Array.from(new Set([DEFAULT_TIMEZONE, ...COMMON_TIMEZONES, timeZone])).map((tz) => (
+                <option
+                  key={tz}
+                  value={tz}
+                  className="bg-white text-gray-900 dark:bg-gray-800 dark:text-gray-100"
+                >
+                  {tz === DEFAULT_TIMEZONE ? `${tz} (org default)` : tz}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block mb-1 text-sm font-medium text-gray-700 dark:text-gray-300">
+              Org Phones
             </label>
             <input
               className="w-full border rounded p-2 bg-white dark:bg-gray-800 dark:text-gray-100 focus:ring-2 focus:ring-blue-500"
-              placeholder="918527184400@c.us"
+              placeholder="918527184400@c.us, 918527033886@c.us"
               value={orgPhone}
               onChange={(e) => setOrgPhone(e.target.value)}
-              disabled={activeTab === "messages"}
             />
-            {activeTab === "messages" && (
-              <p className="text-xs text-gray-500 mt-1">This filter only applies to Chat Analytics</p>
-            )}
+            <p className="text-xs text-gray-500 mt-1">
+              Leave empty for every number; several numbers are combined, counting shared chats once
+            </p>
           </div>
 
           {activeTab === "messages" && (
@@ -423,20 +747,46 @@ export default function HomePage() {
                 value={agent}
                 onChange={(e) => setAgent(e.target.value)}
               >
-                {agents.map((a) => (
-                  <option
-                    key={a.value}
-                    value={a.value}
-                    className="bg-white text-gray-900 dark:bg-gray-800 dark:text-gray-100"
-                  >
-                    {a.label}
-                  </option>
-                ))}
+                <option value="" className="bg-white text-gray-900 dark:bg-gray-800 dark:text-gray-100">
+                  All Agents
+                </option>
+                {rosterTeams(visibleRoster).length > 0 && (
+                  <optgroup label="Teams">
+                    {rosterTeams(visibleRoster).map((team) => (
+                      <option
+                        key={team}
+                        value={`${TEAM_SELECTION_PREFIX}${team}`}
+                        className="bg-white text-gray-900 dark:bg-gray-800 dark:text-gray-100"
+                      >
+                        {team}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+                <optgroup label="Agents">
+                  {visibleRoster.agents.map((a) => (
+                    <option
+                      key={a.id}
+                      value={a.id}
+                      className="bg-white text-gray-900 dark:bg-gray-800 dark:text-gray-100"
+                    >
+                      {isAgentActive(a, formatZonedDate(new Date(), timeZone))
+                        ? a.name
+                        : `${a.name} (inactive)`}
+                    </option>
+                  ))}
+                </optgroup>
               </select>
             </div>
           )}
         </div>
 
+        <PropertyFilters
+          facets={propertyFacets}
+          filters={propertyFilters}
+          onChange={setPropertyFilters}
+        />
+
         {/* Time filters - only show for messages tab */}
         {activeTab === "messages" && (
           <section className="space-y-4">
@@ -450,6 +800,7 @@ export default function HomePage() {
               onStartDateChange={setStartDateISO}
               onEndDateChange={setEndDateISO}
               isVisible={timeFilter === "custom"}
+              timeZone={timeZone}
             />
           </section>
         )}
@@ -480,18 +831,34 @@ export default function HomePage() {
           </nav>
         </div>
 
-        {/* Loading indicator for data fetching */}
+        {/* Progress bar while message chunks stream in */}
         {loading && activeTab === "messages" && (
-          <div className="flex flex-col items-center justify-center py-12 space-y-4">
-            <div className="flex items-center space-x-3">
-              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-              <span className="text-lg font-medium text-gray-700 dark:text-gray-300">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium text-gray-700 dark:text-gray-300">
                 Fetching messages for {timePeriodLabels[timeFilter]}...
               </span>
+              <span className="text-gray-500 dark:text-gray-400">
+                {progress
+                  ? `Chunk ${progress.chunk} of ${progress.totalChunks} • ${progress.pagesFetched} pages • ${progress.messagesSoFar.toLocaleString()} messages so far`
+                  : "Checking local store..."}
+              </span>
             </div>
-            <div className="text-sm text-gray-500 dark:text-gray-400 text-center max-w-md">
-              Please wait while we collect all messages for the selected time period. 
-              Stats will appear once the fetch is complete.
+            <div className="h-2 w-full rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+              <div
+                className="h-2 rounded-full bg-blue-600 transition-all duration-300"
+                style={{
+                  width: `${
+                    progress && progress.totalChunks > 0
+                      ? Math.round(
+                          ((progress.chunk - (progress.chunkDone ? 0 : 1)) /
+                            progress.totalChunks) *
+                            100
+                        )
+                      : 0
+                  }%`,
+                }}
+              />
             </div>
           </div>
         )}
@@ -0,0 +1,26 @@
+// instrumentation.ts
+// Runs once when the Next.js server starts
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { startInterval } = await import("./app/lib/cron");
+
+  const alertMinutes = Number(process.env.ALERTS_INTERVAL_MINUTES);
+  if (alertMinutes > 0) {
+    const { runSlaAlerts } = await import("./app/lib/sla-alerts");
+    startInterval("sla-alerts", alertMinutes, runSlaAlerts);
+  }
+
+  const snapshotMinutes = Number(process.env.CHAT_SNAPSHOT_INTERVAL_MINUTES);
+  if (snapshotMinutes > 0) {
+    const { takeChatMetricsSnapshots } = await import("./app/lib/chat-snapshot-job");
+    startInterval("chat-snapshots", snapshotMinutes, takeChatMetricsSnapshots);
+  }
+
+  const reportMinutes = Number(process.env.REPORTS_INTERVAL_MINUTES);
+  if (reportMinutes > 0) {
+    const { runScheduledReports } = await import("./app/lib/scheduled-reports");
+    startInterval("reports", reportMinutes, () => runScheduledReports());
+  }
+}